@@ -2,6 +2,7 @@ import { useState, useEffect, useRef } from 'react';
 import { AudioRecorder } from './components/AudioRecorder';
 import { Leaderboard } from './components/Leaderboard';
 import { TeamLeaderboard } from './components/TeamLeaderboard';
+import { ContestsPanel } from './components/ContestsPanel';
 import { ScoreVerificationGrid } from './components/ScoreVerificationGrid';
 import { AdminPanel } from './components/AdminPanel';
 import { apiService } from './services/api';
@@ -22,6 +23,7 @@ function App() {
   const [error, setError] = useState<string | null>(null);
   const [view, setView] = useState<'main' | 'admin'>('main');
   const [teamLeaderboardData, setTeamLeaderboardData] = useState<any>(null);
+  const [contestData, setContestData] = useState<any>(null);
   const [teams, setTeams] = useState<Team[]>([]);
   const tournamentRef = useRef<Tournament | null>(null);
 
@@ -88,9 +90,36 @@ function App() {
         case 'team_match_update':
           setTeamLeaderboardData({ type: message.type, data: message.data });
           break;
+
+        case 'contest_update':
+          setContestData(message.data);
+          break;
+
+        case 'teams_update':
+          // Team colors and team standings follow the edited teams
+          if (tournamentRef.current && tournamentRef.current.id === message.data.tournamentId) {
+            loadTeams(tournamentRef.current);
+            setTeamLeaderboardData({ type: message.type, data: message.data });
+          }
+          break;
+
+        case 'active_tournament_changed':
+          // Another tournament was activated from the admin panel
+          setTournament(null);
+          setPlayerScores([]);
+          loadInitialData();
+          break;
       }
     });
 
+    const loadTeams = async (activeTournament: Tournament) => {
+      try {
+        setTeams(await apiService.getTeams(activeTournament.id, activeTournament.currentRound));
+      } catch (err) {
+        console.error('Failed to load teams:', err);
+      }
+    };
+
     const loadInitialData = async () => {
       try {
         const activeTournament = await apiService.getActiveTournament();
@@ -99,9 +128,8 @@ function App() {
         const initialLeaderboard = await apiService.getLeaderboard(activeTournament.id);
         setLeaderboard(initialLeaderboard);
 
-        // Load teams data
-        const teamsData = await apiService.getTeams();
-        setTeams(teamsData);
+        // Load the teams playing the current round
+        await loadTeams(activeTournament);
 
         // Load existing scores for score verification grid
         const existingPlayerScores: PlayerScore[] = [];
@@ -281,6 +309,13 @@ function App() {
               webSocketUpdate={teamLeaderboardData}
             />
           )}
+          {tournament && (
+            <ContestsPanel
+              tournament={tournament}
+              currentRound={tournament.currentRound}
+              webSocketUpdate={contestData}
+            />
+          )}
         </div>
       </main>
     </div>
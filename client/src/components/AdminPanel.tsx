@@ -1,6 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { RoundSelector } from './RoundSelector';
+import { TeamAdmin } from './TeamAdmin';
 import { TeamSidegameAdmin } from './TeamSidegameAdmin';
+import { SettlementPanel } from './SettlementPanel';
+import { ContestAdmin } from './ContestAdmin';
+import { TournamentManager } from './TournamentManager';
 import { apiService } from '../services/api';
 import type { Tournament } from '../types';
 
@@ -25,9 +29,11 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ onBackToMain }) => {
       setLoading(true);
       const activeTournament = await apiService.getActiveTournament();
       setTournament(activeTournament);
+      setError(null);
     } catch (err) {
       console.error('Failed to load tournament data:', err);
-      setError('Failed to load tournament data');
+      setTournament(null);
+      setError('No active tournament - create or activate one below');
     } finally {
       setLoading(false);
     }
@@ -155,6 +161,13 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ onBackToMain }) => {
               )}
             </div>
 
+            <div className="action-section">
+              <TeamAdmin
+                tournament={tournament}
+                selectedRound={selectedRound}
+              />
+            </div>
+
             <div className="action-section">
               <TeamSidegameAdmin
                 tournament={tournament}
@@ -162,6 +175,17 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ onBackToMain }) => {
               />
             </div>
 
+            <div className="action-section">
+              <ContestAdmin
+                tournament={tournament}
+                selectedRound={selectedRound}
+              />
+            </div>
+
+            <div className="action-section">
+              <SettlementPanel tournament={tournament} />
+            </div>
+
             <div className="action-section danger-section">
               <h3>Danger Zone</h3>
               <p>Clear all tournament data including scores, round progress, and team sidegames.</p>
@@ -182,6 +206,7 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ onBackToMain }) => {
                       <li>All player scores from all rounds</li>
                       <li>Round progress (reset to Round 1)</li>
                       <li>All team sidegame data and results</li>
+                      <li>Contests, the money ledger and settlement</li>
                     </ul>
                     <p>To confirm, type: <strong>CLEAR ALL DATA</strong></p>
                   </div>
@@ -215,6 +240,12 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ onBackToMain }) => {
           </div>
         </div>
       )}
+
+      <div className="admin-content">
+        <div className="admin-actions">
+          <TournamentManager onTournamentChange={loadTournamentData} />
+        </div>
+      </div>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import { apiService } from '../services/api';
+import type { ContestStatus, ContestType, Tournament } from '../types';
+
+const CONTEST_TYPE_LABELS: { [type in ContestType]: string } = {
+  'closest-to-pin': 'Closest to the Pin',
+  'longest-drive': 'Longest Drive',
+  'longest-putt': 'Longest Putt',
+  'hole-in-one': 'Hole-in-One Pot',
+};
+
+interface ContestAdminProps {
+  tournament: Tournament;
+  selectedRound: number | null;
+}
+
+export const ContestAdmin: React.FC<ContestAdminProps> = ({ tournament, selectedRound }) => {
+  const round = selectedRound || tournament.currentRound;
+  const [contests, setContests] = useState<ContestStatus[]>([]);
+  const [type, setType] = useState<ContestType>('closest-to-pin');
+  const [hole, setHole] = useState('');
+  const [prize, setPrize] = useState('');
+  const [results, setResults] = useState<{ [contestId: string]: { playerId: string; measurement: string } }>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Par 3s are the usual closest-to-the-pin holes
+  const par3Holes = tournament.par
+    .map((par, index) => ({ par, hole: index + 1 }))
+    .filter(h => h.par === 3)
+    .map(h => h.hole);
+
+  useEffect(() => {
+    loadContests();
+  }, [tournament.id, round]);
+
+  const loadContests = async () => {
+    try {
+      setContests(await apiService.getContests(tournament.id, round));
+    } catch (err) {
+      console.error('Failed to load contests:', err);
+    }
+  };
+
+  const runAction = async (action: () => Promise<unknown>, failureMessage: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      await action();
+      await loadContests();
+    } catch (err) {
+      console.error(failureMessage, err);
+      setError(`${failureMessage}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = () => runAction(() => apiService.createContest(tournament.id, round, {
+    type,
+    hole: hole ? parseInt(hole) : undefined,
+    prize: prize ? parseFloat(prize) : undefined,
+  }), 'Failed to create contest');
+
+  const handleRecord = (contestId: string) => {
+    const result = results[contestId];
+    if (!result?.playerId) return;
+    return runAction(
+      () => apiService.recordContestResult(contestId, result.playerId, result.measurement ? parseFloat(result.measurement) : null),
+      'Failed to record result'
+    );
+  };
+
+  const updateResult = (contestId: string, field: 'playerId' | 'measurement', value: string) => {
+    const current = results[contestId] || { playerId: '', measurement: '' };
+    setResults({ ...results, [contestId]: { ...current, [field]: value } });
+  };
+
+  return (
+    <div className="contest-admin">
+      <h3>Contests - Round {round}</h3>
+
+      {error && (
+        <div className="error-banner">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {contests.map(contest => (
+        <div key={contest.id} className="contest-admin-item">
+          <div className="contest-admin-header">
+            <strong>{contest.name}</strong>
+            <span>
+              {contest.winnerNames.length > 0 ? contest.winnerNames.join(', ') : 'No result yet'}
+              {contest.winningMeasurement !== undefined && ` · ${contest.winningMeasurement} m`}
+            </span>
+            <button
+              className="cancel-btn"
+              disabled={loading}
+              onClick={() => runAction(() => apiService.deleteContest(contest.id), 'Failed to delete contest')}
+            >
+              Delete
+            </button>
+          </div>
+          <div className="contest-admin-result">
+            <select
+              value={results[contest.id]?.playerId || ''}
+              onChange={(e) => updateResult(contest.id, 'playerId', e.target.value)}
+            >
+              <option value="">Select player</option>
+              {tournament.players.map(player => (
+                <option key={player.id} value={player.id}>{player.name}</option>
+              ))}
+            </select>
+            {contest.type !== 'hole-in-one' && (
+              <input
+                type="number"
+                min={0}
+                step={0.01}
+                placeholder="Metres"
+                value={results[contest.id]?.measurement || ''}
+                onChange={(e) => updateResult(contest.id, 'measurement', e.target.value)}
+              />
+            )}
+            <button
+              className="round-btn"
+              disabled={loading || !results[contest.id]?.playerId}
+              onClick={() => handleRecord(contest.id)}
+            >
+              Record
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div className="contest-create">
+        <h4>New Contest</h4>
+        <select value={type} onChange={(e) => setType(e.target.value as ContestType)}>
+          {Object.entries(CONTEST_TYPE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <select value={hole} onChange={(e) => setHole(e.target.value)}>
+          <option value="">{type === 'hole-in-one' ? 'All holes' : 'Select hole'}</option>
+          {Array.from({ length: 18 }, (_, index) => index + 1).map(holeNumber => (
+            <option key={holeNumber} value={holeNumber}>
+              Hole {holeNumber}{par3Holes.includes(holeNumber) ? ' (par 3)' : ''}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={0}
+          step={0.5}
+          placeholder="Prize per player"
+          value={prize}
+          onChange={(e) => setPrize(e.target.value)}
+        />
+        <button
+          className="create-btn"
+          onClick={handleCreate}
+          disabled={loading || (type !== 'hole-in-one' && !hole)}
+        >
+          Create {CONTEST_TYPE_LABELS[type]}
+        </button>
+      </div>
+    </div>
+  );
+};
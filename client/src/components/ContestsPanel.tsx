@@ -0,0 +1,57 @@
+import React, { useState, useEffect } from 'react';
+import { apiService } from '../services/api';
+import type { ContestStatus, Tournament } from '../types';
+
+interface ContestsPanelProps {
+  tournament: Tournament;
+  currentRound: number;
+  webSocketUpdate?: { tournamentId: string; round: number; contests: ContestStatus[] } | null;
+}
+
+export const ContestsPanel: React.FC<ContestsPanelProps> = ({
+  tournament,
+  currentRound,
+  webSocketUpdate,
+}) => {
+  const [contests, setContests] = useState<ContestStatus[]>([]);
+
+  useEffect(() => {
+    loadContests();
+  }, [tournament.id, currentRound]);
+
+  useEffect(() => {
+    if (webSocketUpdate && webSocketUpdate.tournamentId === tournament.id && webSocketUpdate.round === currentRound) {
+      setContests(webSocketUpdate.contests);
+    }
+  }, [webSocketUpdate]);
+
+  const loadContests = async () => {
+    try {
+      setContests(await apiService.getContests(tournament.id, currentRound));
+    } catch (err) {
+      console.error('Failed to load contests:', err);
+    }
+  };
+
+  if (contests.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="contests-panel">
+      <h2>Contests - Round {currentRound}</h2>
+      <div className="contests-grid">
+        {contests.map(contest => (
+          <div key={contest.id} className={`contest-item ${contest.winnerIds.length > 0 ? 'decided' : ''}`}>
+            <div className="contest-name">{contest.name}</div>
+            <div className="contest-winner">
+              {contest.winnerNames.length > 0 ? contest.winnerNames.join(', ') : 'No result yet'}
+              {contest.winningMeasurement !== undefined && ` · ${contest.winningMeasurement} m`}
+            </div>
+            {contest.pot > 0 && <small className="contest-pot">Pot {contest.pot}</small>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -41,35 +41,12 @@ const formatRoundScore = (entry: LeaderboardEntry): string => {
 };
 
 const formatTotalScore = (entry: LeaderboardEntry): string => {
-  // Calculate total score vs par: sum of all rounds except the currently displayed round
-  let totalScore = 0;
-
-  if (entry.roundScores && entry.roundScores.length > 0) {
-    // Find the highest round number with scores - that's the current/displayed round
-    const currentRoundNumber = Math.max(...entry.roundScores
-      .filter((r: { round: number; holeScores: (number | null)[]; }) => r.holeScores.some((s: number | null) => s !== null))
-      .map((r: { round: number; }) => r.round)
-    );
-
-    // Add all previous rounds to total (even if they have less than 18 holes)
-    entry.roundScores.forEach((round: { round: number; holeScores: (number | null)[]; stablefordPoints: (number | null)[]; roundStrokes: number; roundStablefordPoints: number }) => {
-      if (round.round < currentRoundNumber && round.roundStrokes > 0) {
-        // Calculate par for the number of holes actually played
-        const roundPar = round.holeScores.reduce((sum: number, score: number | null, idx: number) =>
-          score !== null ? sum + (entry.holePars?.[idx] || 4) : sum, 0
-        );
-        totalScore += (round.roundStrokes - roundPar);
-      }
-    });
-
-    // Add current round score
-    totalScore += entry.currentScore;
-  } else {
-    // First round in progress
-    totalScore = entry.currentScore;
-  }
+  // Totals over all rounds are computed by the server
+  return formatScore(entry.totals ? entry.totals.grossToPar : entry.currentScore);
+};
 
-  return formatScore(totalScore);
+const formatNetScore = (netScore: number | undefined): string => {
+  return `${formatScore(netScore || 0)} net`;
 };
 
 const formatRoundStableford = (entry: LeaderboardEntry): string => {
@@ -85,38 +62,7 @@ const formatRoundStableford = (entry: LeaderboardEntry): string => {
 };
 
 const formatTotalStableford = (entry: LeaderboardEntry): string => {
-  // Total stableford: sum of all previous rounds vs par + current round vs par
-  let totalStableford = 0;
-
-  if (entry.roundScores && entry.roundScores.length > 0) {
-    // Find the highest round number with scores - that's the current/displayed round
-    const currentRoundNumber = Math.max(...entry.roundScores
-      .filter((r: { round: number; holeScores: (number | null)[]; }) => r.holeScores.some((s: number | null) => s !== null))
-      .map((r: { round: number; }) => r.round)
-    );
-
-    // Add all previous rounds to total (even if they have less than 18 holes)
-    entry.roundScores.forEach((round: { round: number; holeScores: (number | null)[]; stablefordPoints: (number | null)[]; roundStrokes: number; roundStablefordPoints: number }) => {
-      if (round.round < currentRoundNumber && round.roundStablefordPoints > 0) {
-        // Calculate expected points for the number of holes actually played
-        const holesPlayed = round.holeScores.filter((s: number | null) => s !== null).length;
-        const expectedPoints = holesPlayed * 2;
-        totalStableford += (round.roundStablefordPoints - expectedPoints);
-      }
-    });
-
-    // Add current round stableford
-    const currentRoundPoints = entry.stablefordPoints?.slice(0, entry.holesCompleted)
-      .reduce((sum: number, points: number | null) => (sum || 0) + (points || 0), 0) || 0;
-    const currentExpected = entry.holesCompleted * 2;
-    totalStableford += (currentRoundPoints - currentExpected);
-  } else {
-    // First round in progress
-    const currentRoundPoints = entry.stablefordPoints?.slice(0, entry.holesCompleted)
-      .reduce((sum: number, points: number | null) => (sum || 0) + (points || 0), 0) || 0;
-    const currentExpected = entry.holesCompleted * 2;
-    totalStableford = currentRoundPoints - currentExpected;
-  }
+  const totalStableford = entry.totals ? entry.totals.stablefordVsPar : (entry.stablefordVsPar || 0);
 
   if (totalStableford > 0) return `+${totalStableford}p`;
   if (totalStableford === 0) return 'Ep';
@@ -170,67 +116,25 @@ const calculateOnTheMove = (entry: LeaderboardEntry): { difference: number; next
 };
 
 const getRoundSummaryData = (entry: LeaderboardEntry) => {
-  const maxRounds = 10;
-  const rounds = [];
-
-  // Add completed rounds
-  if (entry.roundScores) {
-    entry.roundScores.forEach((round: { round: number; holeScores: (number | null)[]; stablefordPoints: (number | null)[]; roundStrokes: number; roundStablefordPoints: number }, index: number) => {
-      if (index < maxRounds) {
-        const isCompleted = round.holeScores.filter((s: number | null) => s !== null).length === 18;
-        rounds.push({
-          roundNumber: round.round,
-          strokes: isCompleted ? round.roundStrokes : null,
-          points: isCompleted ? round.roundStablefordPoints : null,
-          isCompleted
-        });
-      }
-    });
-  }
-
-  // Add current round if it's not already included
-  const currentRound = entry.roundScores?.find((r: { round: number; holeScores: (number | null)[]; stablefordPoints: (number | null)[]; roundStrokes: number; roundStablefordPoints: number }) => r.round === (entry.totalRounds || 1));
-  if (!currentRound && entry.holesCompleted > 0 && rounds.length < maxRounds) {
-    const currentRoundStrokes = entry.holeScores?.slice(0, entry.holesCompleted)
-      .reduce((sum: number, strokes: number | null) => (sum || 0) + (strokes || 0), 0) || 0;
-    const currentRoundPoints = entry.stablefordPoints?.slice(0, entry.holesCompleted)
-      .reduce((sum: number, points: number | null) => (sum || 0) + (points || 0), 0) || 0;
-    const currentPar = entry.holePars?.slice(0, entry.holesCompleted)
-      .reduce((sum: number, par: number) => sum + par, 0) || (entry.holesCompleted * 4); // Estimate par
-
-    const currentVsPar = currentRoundStrokes - currentPar;
-    const currentVsExpected = currentRoundPoints - (entry.holesCompleted * 2);
-
-    rounds.push({
-      roundNumber: entry.totalRounds || 1,
-      strokes: null,
-      points: null,
-      isCompleted: false,
-      currentVsPar,
-      currentVsExpected,
-      holesPlayed: entry.holesCompleted
-    });
-  }
-
-  return rounds;
+  // One column per tournament round, from the server totals
+  return (entry.totals?.rounds || []).slice(0, entry.totalRounds || 1).map(round => ({
+    roundNumber: round.round,
+    strokes: round.status === 'complete' ? round.grossStrokes : null,
+    points: round.status === 'complete' ? round.stablefordPoints : null,
+    isCompleted: round.status === 'complete',
+    counted: round.counted,
+    currentVsPar: round.status === 'in-progress' || round.status === 'dnf' ? round.grossToPar : undefined,
+    currentVsExpected: round.status === 'in-progress' || round.status === 'dnf' ? round.stablefordVsPar : undefined,
+    holesPlayed: round.holesCompleted,
+  }));
 };
 
-const getPlayerTeamColor = (playerName: string, teams: Team[]): string | null => {
-  for (const team of teams) {
-    if (team.players.some(player =>
-      player.toLowerCase() === playerName.toLowerCase() ||
-      playerName.toLowerCase().includes(player.toLowerCase()) ||
-      player.toLowerCase().includes(playerName.toLowerCase())
-    )) {
-      return team.color;
-    }
-  }
-  return null;
-};
+const getPlayerTeamColor = (playerId: string, teams: Team[]): string | null =>
+  teams.find(team => team.playerIds.includes(playerId))?.color || null;
 
 export const Leaderboard: React.FC<LeaderboardProps> = ({ leaderboard, teams }) => {
   const [expandedPlayers, setExpandedPlayers] = useState<Set<string>>(new Set());
-  const [sortBy, setSortBy] = useState<'score' | 'stableford'>('score');
+  const [sortBy, setSortBy] = useState<'score' | 'net' | 'stableford'>('score');
 
   const togglePlayerExpansion = (playerId: string) => {
     const newExpanded = new Set(expandedPlayers);
@@ -242,30 +146,18 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ leaderboard, teams })
     setExpandedPlayers(newExpanded);
   };
 
-  // Sort leaderboard based on selected criteria
+  // Positions and ties come from the server ranking for the selected basis
+  const rankingBasis = sortBy === 'score' ? 'gross' : sortBy;
+  const getRanking = (entry: LeaderboardEntry) =>
+    entry.rankings?.[rankingBasis] || { position: entry.position, label: entry.positionLabel || `${entry.position}` };
+
   const sortedLeaderboard = [...leaderboard].sort((a, b) => {
-    if (sortBy === 'stableford') {
-      // Sort by stableford points (higher is better)
-      const aStablefordVsPar = a.stablefordVsPar || 0;
-      const bStablefordVsPar = b.stablefordVsPar || 0;
-      if (aStablefordVsPar !== bStablefordVsPar) {
-        return bStablefordVsPar - aStablefordVsPar;
-      }
-      // Secondary sort by holes completed
-      return b.holesCompleted - a.holesCompleted;
-    } else {
-      // Sort by score (stroke play) - lower is better
-      if (a.currentScore !== b.currentScore) {
-        return a.currentScore - b.currentScore;
-      }
-      // Secondary sort by holes completed
-      return b.holesCompleted - a.holesCompleted;
+    const positionDifference = getRanking(a).position - getRanking(b).position;
+    if (positionDifference !== 0) {
+      return positionDifference;
     }
-  });
-
-  // Update positions based on sort order
-  sortedLeaderboard.forEach((entry: LeaderboardEntry, index: number) => {
-    entry.position = index + 1;
+    // Secondary sort by holes completed
+    return b.holesCompleted - a.holesCompleted;
   });
 
   return (
@@ -280,6 +172,12 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ leaderboard, teams })
           >
             Score
           </button>
+          <button
+            className={`sort-btn ${sortBy === 'net' ? 'active' : ''}`}
+            onClick={() => setSortBy('net')}
+          >
+            Net
+          </button>
           <button
             className={`sort-btn ${sortBy === 'stableford' ? 'active' : ''}`}
             onClick={() => setSortBy('stableford')}
@@ -297,19 +195,20 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ leaderboard, teams })
           <div className="expand">Details</div>
         </div>
 
-        {sortedLeaderboard.map((entry: LeaderboardEntry, index: number) => (
+        {sortedLeaderboard.map((entry: LeaderboardEntry) => (
           <div key={entry.playerId} className="player-section">
-            <div className={`leaderboard-row ${index === 0 ? 'leader' : ''}`}>
-              <div className="pos">{entry.position}</div>
+            <div className={`leaderboard-row ${getRanking(entry).position === 1 ? 'leader' : ''}`}>
+              <div className="pos">{getRanking(entry).label}</div>
               <div className="player">
                 <div className="player-name">
-                  {getPlayerTeamColor(entry.playerName, teams) && (
+                  {getPlayerTeamColor(entry.playerId, teams) && (
                     <span
                       className="team-color-dot"
-                      style={{ backgroundColor: getPlayerTeamColor(entry.playerName, teams)! }}
+                      style={{ backgroundColor: getPlayerTeamColor(entry.playerId, teams)! }}
                     ></span>
                   )}
                   {entry.playerName}
+                  {entry.withdrawn && <span className="withdrawn-badge">WD</span>}
                 </div>
               </div>
               <div className="round">
@@ -319,11 +218,19 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ leaderboard, teams })
                     <span className="hole-light"> ({formatRoundScore(entry).split('(')[1]}</span>
                   )}
                 </div>
-                <div className="stableford-row">{formatRoundStableford(entry)}</div>
+                {sortBy === 'net' ? (
+                  <div className="net-row">{formatNetScore(entry.netScore)}</div>
+                ) : (
+                  <div className="stableford-row">{formatRoundStableford(entry)}</div>
+                )}
               </div>
               <div className="total">
                 <div className="score-row">{formatTotalScore(entry)}</div>
-                <div className="stableford-row">{formatTotalStableford(entry)}</div>
+                {sortBy === 'net' ? (
+                  <div className="net-row">{formatNetScore(entry.totals?.netToPar)}</div>
+                ) : (
+                  <div className="stableford-row">{formatTotalStableford(entry)}</div>
+                )}
               </div>
               <div className="expand">
                 <button
@@ -342,7 +249,11 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ leaderboard, teams })
                   <div className="round-summary-table">
                     <div className="round-header-row">
                       {getRoundSummaryData(entry).map((round: any) => (
-                        <div key={round.roundNumber} className="round-header">
+                        <div
+                          key={round.roundNumber}
+                          className={`round-header ${round.counted ? '' : 'not-counted'}`}
+                          title={round.counted ? 'Counts towards total' : 'Does not count towards total'}
+                        >
                           R{round.roundNumber}
                         </div>
                       ))}
@@ -584,6 +495,10 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ leaderboard, teams })
                     <span className="total-label">To Par:</span>
                     <span className="total-value">{formatScore(entry.currentScore)}</span>
                   </div>
+                  <div className="total-item">
+                    <span className="total-label">Net To Par:</span>
+                    <span className="total-value">{formatScore(entry.netScore || 0)}</span>
+                  </div>
                   <div className="total-item">
                     <span className="total-label">Holes Completed:</span>
                     <span className="total-value">{entry.holesCompleted}/18</span>
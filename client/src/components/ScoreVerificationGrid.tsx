@@ -30,18 +30,8 @@ export const ScoreVerificationGrid: React.FC<ScoreVerificationGridProps> = ({
   };
 
   // Helper function to get player team color
-  const getPlayerTeamColor = (playerName: string): string | null => {
-    for (const team of teams) {
-      if (team.players.some(player =>
-        player.toLowerCase() === playerName.toLowerCase() ||
-        playerName.toLowerCase().includes(player.toLowerCase()) ||
-        player.toLowerCase().includes(playerName.toLowerCase())
-      )) {
-        return team.color;
-      }
-    }
-    return null;
-  };
+  const getPlayerTeamColor = (playerId: string): string | null =>
+    teams.find(team => team.playerIds.includes(playerId))?.color || null;
 
   if (playerScores.length === 0) {
     return (
@@ -92,10 +82,10 @@ export const ScoreVerificationGrid: React.FC<ScoreVerificationGridProps> = ({
                   className="hole-cell player-initials-cell"
                   title={player.playerName}
                 >
-                  {getPlayerTeamColor(player.playerName) && (
+                  {getPlayerTeamColor(player.playerId) && (
                     <span
                       className="team-color-dot"
-                      style={{ backgroundColor: getPlayerTeamColor(player.playerName)! }}
+                      style={{ backgroundColor: getPlayerTeamColor(player.playerId)! }}
                     ></span>
                   )}
                   {getPlayerInitials(player.playerName)}
@@ -156,10 +146,10 @@ export const ScoreVerificationGrid: React.FC<ScoreVerificationGridProps> = ({
                   className="hole-cell player-initials-cell"
                   title={player.playerName}
                 >
-                  {getPlayerTeamColor(player.playerName) && (
+                  {getPlayerTeamColor(player.playerId) && (
                     <span
                       className="team-color-dot"
-                      style={{ backgroundColor: getPlayerTeamColor(player.playerName)! }}
+                      style={{ backgroundColor: getPlayerTeamColor(player.playerId)! }}
                     ></span>
                   )}
                   {getPlayerInitials(player.playerName)}
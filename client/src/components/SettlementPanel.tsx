@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import { apiService } from '../services/api';
+import { GAME_TYPE_LABELS } from './TeamSidegameAdmin';
+import type { Settlement, TeamSidegame, Tournament } from '../types';
+
+interface SettlementPanelProps {
+  tournament: Tournament;
+}
+
+const formatMoney = (amount: number) => amount > 0 ? `+${amount.toFixed(2)}` : amount.toFixed(2);
+
+export const SettlementPanel: React.FC<SettlementPanelProps> = ({ tournament }) => {
+  const [sidegames, setSidegames] = useState<TeamSidegame[]>([]);
+  const [stakes, setStakes] = useState<{ [sidegameId: string]: string }>({});
+  const [settlement, setSettlement] = useState<Settlement | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSettlement();
+  }, [tournament.id]);
+
+  const loadSettlement = async () => {
+    try {
+      setLoading(true);
+      const [sidegamesData, settlementData] = await Promise.all([
+        apiService.getTournamentSidegames(tournament.id),
+        apiService.getSettlement(tournament.id),
+      ]);
+      setSidegames(sidegamesData);
+      setStakes(Object.fromEntries(sidegamesData.map(sidegame => [
+        sidegame.id,
+        (sidegame.stake ?? sidegame.nassau?.stake)?.toString() || '',
+      ])));
+      setSettlement(settlementData);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load settlement:', err);
+      setError('Failed to load settlement');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveStake = async (sidegameId: string) => {
+    const stake = parseFloat(stakes[sidegameId]);
+    try {
+      setLoading(true);
+      await apiService.setSidegameStake(sidegameId, stake > 0 ? stake : null);
+      await loadSettlement();
+    } catch (err) {
+      console.error('Failed to save stake:', err);
+      setError(`Failed to save stake: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="settlement-panel">
+      <h3>Money &amp; Settlement</h3>
+
+      {error && (
+        <div className="error-banner">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {sidegames.length === 0 ? (
+        <p>No sidegames yet. Create one above to play it for money.</p>
+      ) : (
+        <div className="stake-list">
+          <h4>Stakes</h4>
+          {sidegames.map(sidegame => (
+            <div key={sidegame.id} className="stake-item">
+              <span>Round {sidegame.round} · {GAME_TYPE_LABELS[sidegame.gameType]}</span>
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                placeholder="No stake"
+                value={stakes[sidegame.id] || ''}
+                onChange={(e) => setStakes({ ...stakes, [sidegame.id]: e.target.value })}
+              />
+              <button className="round-btn" disabled={loading} onClick={() => saveStake(sidegame.id)}>
+                Save
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {settlement && settlement.balances.length > 0 && (
+        <>
+          <div className="settlement-balances">
+            <h4>Balances</h4>
+            {settlement.balances.map(balance => (
+              <div key={balance.playerId} className={`settlement-balance ${balance.balance > 0 ? 'under' : balance.balance < 0 ? 'over' : 'even'}`}>
+                <span>{balance.playerName}</span>
+                <strong>{formatMoney(balance.balance)}</strong>
+              </div>
+            ))}
+          </div>
+
+          <div className="settlement-transfers">
+            <h4>To Settle Up</h4>
+            {settlement.transfers.length === 0 ? (
+              <p>Everyone is square.</p>
+            ) : (
+              settlement.transfers.map(transfer => (
+                <div key={`${transfer.fromPlayerId}-${transfer.toPlayerId}`} className="settlement-transfer">
+                  {transfer.fromPlayerName} pays {transfer.toPlayerName} <strong>{transfer.amount.toFixed(2)}</strong>
+                </div>
+              ))
+            )}
+          </div>
+        </>
+      )}
+
+      <button className="round-btn" disabled={loading} onClick={loadSettlement}>
+        {loading ? 'Loading...' : 'Refresh'}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,243 @@
+import React, { useState, useEffect } from 'react';
+import { apiService } from '../services/api';
+import type { Team, TeamDraw, Tournament } from '../types';
+
+interface TeamAdminProps {
+  tournament: Tournament;
+  selectedRound: number | null;
+}
+
+export const TeamAdmin: React.FC<TeamAdminProps> = ({ tournament, selectedRound }) => {
+  const round = selectedRound || tournament.currentRound;
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [names, setNames] = useState<{ [teamId: string]: string }>({});
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState('#6366f1');
+  const [drawSeed, setDrawSeed] = useState('');
+  const [teamCount, setTeamCount] = useState('');
+  const [teamDraw, setTeamDraw] = useState<TeamDraw | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Teams of this round only; otherwise the edits change the tournament's teams
+  const ownTeams = teams.some(team => team.round === round);
+  const unassigned = tournament.players.filter(player => !teams.some(team => team.playerIds.includes(player.id)));
+
+  useEffect(() => {
+    loadTeams();
+  }, [tournament.id, round]);
+
+  const loadTeams = async () => {
+    try {
+      const teamsData = await apiService.getTeams(tournament.id, round);
+      setTeams(teamsData);
+      setNames(Object.fromEntries(teamsData.map(team => [team.id, team.name])));
+    } catch (err) {
+      console.error('Failed to load teams:', err);
+    }
+  };
+
+  const runAction = async (action: () => Promise<unknown>, failureMessage: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      await action();
+      await loadTeams();
+    } catch (err) {
+      console.error(failureMessage, err);
+      setError(`${failureMessage}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent, teamId: string | null) => {
+    event.preventDefault();
+    setDropTarget(null);
+    const playerId = event.dataTransfer.getData('text/plain');
+    const currentTeam = teams.find(team => team.playerIds.includes(playerId));
+    if (!playerId || (currentTeam?.id ?? null) === teamId) return;
+
+    return runAction(
+      () => apiService.moveTeamPlayer(tournament.id, playerId, teamId, ownTeams ? round : undefined),
+      'Failed to move player'
+    );
+  };
+
+  const dropZoneProps = (teamId: string | null) => ({
+    onDragOver: (event: React.DragEvent) => {
+      event.preventDefault();
+      setDropTarget(teamId ?? 'unassigned');
+    },
+    onDragLeave: () => setDropTarget(null),
+    onDrop: (event: React.DragEvent) => handleDrop(event, teamId),
+  });
+
+  const renderPlayer = (playerId: string) => (
+    <div
+      key={playerId}
+      className="team-player-chip"
+      draggable={!loading}
+      onDragStart={(event) => event.dataTransfer.setData('text/plain', playerId)}
+    >
+      {tournament.players.find(p => p.id === playerId)?.name || playerId}
+    </div>
+  );
+
+  const handleRename = (team: Team) => {
+    const name = names[team.id]?.trim();
+    if (!name || name === team.name) return;
+    return runAction(() => apiService.updateTeam(team.id, { name }), 'Failed to rename team');
+  };
+
+  // A preview draws without saving; committing redraws with the preview's seed, which gives the same teams
+  const handleDraw = (commit: boolean) => runAction(async () => {
+    const draw = await apiService.drawTeams(tournament.id, {
+      seed: commit && teamDraw ? teamDraw.seed : drawSeed ? parseInt(drawSeed) : undefined,
+      teamCount: teamCount ? parseInt(teamCount) : undefined,
+      round: ownTeams ? round : undefined,
+      commit,
+    });
+    setTeamDraw(commit ? null : draw);
+    setDrawSeed(draw.seed.toString());
+  }, 'Failed to draw teams');
+
+  const handleCreate = () => runAction(async () => {
+    await apiService.createTeam(tournament.id, {
+      name: newName.trim(),
+      color: newColor,
+      playerIds: [],
+      round: ownTeams ? round : undefined,
+    });
+    setNewName('');
+  }, 'Failed to create team');
+
+  return (
+    <div className="team-admin">
+      <h3>Teams - Round {round}</h3>
+
+      {error && (
+        <div className="error-banner">
+          <p>{error}</p>
+        </div>
+      )}
+
+      <div className="team-admin-scope">
+        <span>
+          {ownTeams
+            ? `Round ${round} has its own teams.`
+            : 'Round plays with the tournament teams; changes apply to every round without its own teams.'}
+        </span>
+        <button
+          className="round-btn"
+          disabled={loading}
+          onClick={() => runAction(() => apiService.setRoundTeams(tournament.id, round, !ownTeams), 'Failed to change round teams')}
+        >
+          {ownTeams ? 'Use Tournament Teams' : `Own Teams for Round ${round}`}
+        </button>
+      </div>
+
+      <p className="team-admin-hint">Drag players between teams.</p>
+
+      <div className="team-admin-columns">
+        {teams.map(team => (
+          <div
+            key={team.id}
+            className={`team-admin-column ${dropTarget === team.id ? 'drop-target' : ''}`}
+            style={{ borderTopColor: team.color }}
+            {...dropZoneProps(team.id)}
+          >
+            <div className="team-admin-header">
+              <input
+                type="color"
+                value={team.color}
+                disabled={loading}
+                onChange={(e) => runAction(() => apiService.updateTeam(team.id, { color: e.target.value }), 'Failed to change color')}
+              />
+              <input
+                type="text"
+                value={names[team.id] ?? team.name}
+                disabled={loading}
+                onChange={(e) => setNames({ ...names, [team.id]: e.target.value })}
+                onBlur={() => handleRename(team)}
+              />
+              <button
+                className="cancel-btn"
+                disabled={loading}
+                onClick={() => runAction(() => apiService.deleteTeam(team.id), 'Failed to delete team')}
+              >
+                Delete
+              </button>
+            </div>
+            {team.playerIds.map(renderPlayer)}
+          </div>
+        ))}
+
+        <div
+          className={`team-admin-column unassigned ${dropTarget === 'unassigned' ? 'drop-target' : ''}`}
+          {...dropZoneProps(null)}
+        >
+          <div className="team-admin-header">
+            <strong>No Team</strong>
+          </div>
+          {unassigned.map(player => renderPlayer(player.id))}
+        </div>
+      </div>
+
+      <div className="draw-controls">
+        <h4>Balanced Draw</h4>
+        <select value={teamCount} onChange={(e) => setTeamCount(e.target.value)}>
+          <option value="">{Math.max(teams.length, 2)} teams</option>
+          {[2, 3, 4, 5, 6].filter(count => count !== Math.max(teams.length, 2)).map(count => (
+            <option key={count} value={count}>{count} teams</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={0}
+          placeholder="Random seed"
+          value={drawSeed}
+          onChange={(e) => setDrawSeed(e.target.value)}
+        />
+        <button className="round-btn" disabled={loading} onClick={() => handleDraw(false)}>
+          Preview Draw
+        </button>
+      </div>
+
+      {teamDraw && (
+        <div className="draw-preview">
+          <h5>Draw with seed {teamDraw.seed} · handicap spread {teamDraw.spread}</h5>
+          {teamDraw.teams.map(team => (
+            <div key={team.name} className="grouping">
+              <strong style={{ color: team.color }}>{team.name}</strong> (avg {team.handicapAverage}):{' '}
+              {team.playerIds.map(id => tournament.players.find(p => p.id === id)?.name || id).join(', ')}
+            </div>
+          ))}
+          <div className="draw-actions">
+            <button className="create-btn" disabled={loading} onClick={() => handleDraw(true)}>
+              Use These Teams
+            </button>
+            <button className="cancel-btn" onClick={() => setTeamDraw(null)}>
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="team-create">
+        <h4>New Team</h4>
+        <input type="color" value={newColor} onChange={(e) => setNewColor(e.target.value)} />
+        <input
+          type="text"
+          placeholder="Team name"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+        />
+        <button className="create-btn" disabled={loading || !newName.trim()} onClick={handleCreate}>
+          Create Team
+        </button>
+      </div>
+    </div>
+  );
+};
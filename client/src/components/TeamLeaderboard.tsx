@@ -1,5 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import type { TeamLeaderboardEntry, TeamSidegame } from '../types';
+import type { NassauResult, SumMatchSettings, TeamLeaderboardEntry, TeamSidegame, TeamStandings, WolfResult } from '../types';
+
+const DEFAULT_SUM_MATCH: SumMatchSettings = { basis: 'gross', points: { win: 1, loss: -1, tie: 0 }, normalize: false };
+
+const SUM_MATCH_BASIS_LABELS: { [basis in SumMatchSettings['basis']]: string } = {
+  gross: 'strokes vs par',
+  net: 'net strokes vs par',
+  stableford: 'Stableford points',
+};
 
 interface TeamLeaderboardProps {
   tournament: any;
@@ -15,19 +23,23 @@ export const TeamLeaderboard: React.FC<TeamLeaderboardProps> = ({
   const [teamLeaderboard, setTeamLeaderboard] = useState<TeamLeaderboardEntry[]>([]);
   const [currentSidegame, setCurrentSidegame] = useState<TeamSidegame | null>(null);
   const [liveScorecard, setLiveScorecard] = useState<{ [hole: number]: { [teamId: string]: number } }>({});
-  const [allTimeTeamScores, setAllTimeTeamScores] = useState<{ [teamId: string]: { totalScore: number; currentRoundScore: number; rounds: number } }>({});
+  const [teamStandings, setTeamStandings] = useState<TeamStandings | null>(null);
+  const [nassauGames, setNassauGames] = useState<NassauResult[]>([]);
+  const [wolfGames, setWolfGames] = useState<WolfResult[]>([]);
 
   useEffect(() => {
     if (tournament?.id) {
       loadCurrentSidegame();
+      loadNassauGames();
+      loadWolfGames();
     }
   }, [tournament?.id, currentRound]);
 
   useEffect(() => {
-    if (currentSidegame) {
-      loadAllTimeTeamScores();
+    if (tournament?.id) {
+      loadTeamStandings();
     }
-  }, [currentSidegame, currentRound]);
+  }, [tournament?.id]);
 
   const loadCurrentSidegame = async () => {
     try {
@@ -66,72 +78,36 @@ export const TeamLeaderboard: React.FC<TeamLeaderboardProps> = ({
     }
   };
 
-  const loadAllTimeTeamScores = async () => {
+  const loadNassauGames = async () => {
     try {
-      // Load the leaderboard to get player scores across all rounds
-      const response = await fetch(`/api/tournament/${tournament.id}/leaderboard`);
-      if (!response.ok) return;
-
-      const leaderboard = await response.json();
-
-      // Get teams from the sidegame
-      if (!currentSidegame?.teams) return;
-
-      // Calculate total scores for each team across all rounds (including current)
-      const teamScores: { [teamId: string]: { totalScore: number; currentRoundScore: number; rounds: number } } = {};
-
-      currentSidegame.teams.forEach(team => {
-        let teamTotalScore = 0;
-        let teamCurrentRoundScore = 0;
-        let teamRoundsPlayed = 0;
-
-        team.players.forEach(playerName => {
-          // Find player in leaderboard
-          const playerEntry = leaderboard.find((entry: any) =>
-            entry.playerName.toLowerCase().includes(playerName.toLowerCase()) ||
-            playerName.toLowerCase().includes(entry.playerName.toLowerCase())
-          );
-
-          if (playerEntry) {
-            // Add current round score
-            teamCurrentRoundScore += playerEntry.currentScore || 0;
-
-            if (playerEntry.roundScores) {
-              // Sum scores from all rounds (including current)
-              playerEntry.roundScores.forEach((round: any) => {
-                if (round.roundStrokes > 0) {
-                  const roundPar = round.holeScores.reduce((sum: number, score: number | null, idx: number) =>
-                    score !== null ? sum + (playerEntry.holePars?.[idx] || 4) : sum, 0
-                  );
-                  const roundScore = round.roundStrokes - roundPar;
-
-                  // For completed rounds (before current)
-                  if (round.round < currentRound) {
-                    teamTotalScore += roundScore;
-                  }
-
-                  if (teamRoundsPlayed === 0 || round.round > teamRoundsPlayed) {
-                    teamRoundsPlayed = round.round;
-                  }
-                }
-              });
-            }
-
-            // Add current round to total
-            teamTotalScore += teamCurrentRoundScore;
-          }
-        });
+      const response = await fetch(`/api/tournament/${tournament.id}/round/${currentRound}/nassau`);
+      if (response.ok) {
+        setNassauGames(await response.json());
+      }
+    } catch (err) {
+      console.error('Failed to load Nassau games:', err);
+    }
+  };
 
-        teamScores[team.id] = {
-          totalScore: teamTotalScore,
-          currentRoundScore: teamCurrentRoundScore,
-          rounds: teamRoundsPlayed
-        };
-      });
+  const loadWolfGames = async () => {
+    try {
+      const response = await fetch(`/api/tournament/${tournament.id}/round/${currentRound}/wolf`);
+      if (response.ok) {
+        setWolfGames(await response.json());
+      }
+    } catch (err) {
+      console.error('Failed to load Wolf games:', err);
+    }
+  };
 
-      setAllTimeTeamScores(teamScores);
+  const loadTeamStandings = async () => {
+    try {
+      const response = await fetch(`/api/tournament/${tournament.id}/team-standings`);
+      if (response.ok) {
+        setTeamStandings(await response.json());
+      }
     } catch (err) {
-      console.error('Failed to load all-time team scores:', err);
+      console.error('Failed to load team standings:', err);
     }
   };
 
@@ -147,18 +123,211 @@ export const TeamLeaderboard: React.FC<TeamLeaderboardProps> = ({
       setTeamLeaderboard(webSocketUpdate.data.leaderboard);
     }
 
-    if (webSocketUpdate.type === 'team_match_update' &&
-        webSocketUpdate.data.sidegameId === currentSidegame.id) {
+    if ((webSocketUpdate.type === 'team_match_update' && webSocketUpdate.data.sidegameId === currentSidegame.id) ||
+        webSocketUpdate.type === 'teams_update') {
       console.log('Team match update received, refreshing sidegame data');
       // Force refresh of all sidegame data
       loadCurrentSidegame();
     }
   }, [webSocketUpdate, currentSidegame]);
 
+  // Every team game result can change the competition's standings
+  useEffect(() => {
+    if (webSocketUpdate?.type === 'team_match_update' ||
+        webSocketUpdate?.type === 'team_leaderboard_update' ||
+        webSocketUpdate?.type === 'teams_update') {
+      loadTeamStandings();
+    }
+  }, [webSocketUpdate]);
+
+  // Nassau and Wolf games run alongside the team sidegame and are replaced whole on every update
+  useEffect(() => {
+    if (webSocketUpdate?.type !== 'team_match_update') return;
+
+    const replaceGame = <T extends { sidegameId: string }>(games: T[], updated: T) =>
+      games.some(game => game.sidegameId === updated.sidegameId)
+        ? games.map(game => game.sidegameId === updated.sidegameId ? updated : game)
+        : [...games, updated];
+
+    if (webSocketUpdate.data.nassau) {
+      setNassauGames(games => replaceGame(games, webSocketUpdate.data.nassau as NassauResult));
+    }
+    if (webSocketUpdate.data.wolf) {
+      setWolfGames(games => replaceGame(games, webSocketUpdate.data.wolf as WolfResult));
+    }
+  }, [webSocketUpdate]);
+
+  const formatAmount = (amount: number) => amount > 0 ? `+${amount}` : `${amount}`;
+
+  const formatPoints = (points: number) => Number.isInteger(points) ? `${points}` : points.toFixed(1);
+  const hasTeamCompetition = !!teamStandings && teamStandings.sessions.length > 0;
+
+  // Points from every round's team game; rounds still in play show the points the teams are heading for
+  const renderTeamCompetition = () => teamStandings && hasTeamCompetition && (
+    <div className="team-total-status">
+      <h3>Team Competition</h3>
+      <div className="team-total-grid">
+        {teamStandings.standings.map(standing => (
+          <div key={standing.teamName} className="team-total-item">
+            <div className="team-rank">#{standing.position}</div>
+            <div
+              className="team-color-indicator"
+              style={{ backgroundColor: standing.teamColor }}
+            ></div>
+            <div className="team-total-info">
+              <div className="team-name">{standing.teamName}</div>
+              <div className="team-scores">
+                <div className="team-score-column">
+                  <span className="score-label">Points</span>
+                  <div className="team-score team-total-score">{formatPoints(standing.points)}</div>
+                </div>
+                {standing.projectedPoints !== standing.points && (
+                  <div className="team-score-column">
+                    <span className="score-label">Projected</span>
+                    <div className="team-score">{formatPoints(standing.projectedPoints)}</div>
+                  </div>
+                )}
+                <div className="team-score-column">
+                  <span className="score-label">Sessions</span>
+                  <div className="team-score">{standing.sessionsWon}</div>
+                </div>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="competition-rounds">
+        {teamStandings.sessions.map(session => (
+          <div key={session.sidegameId} className={`competition-round ${session.round === currentRound ? 'current' : ''}`}>
+            <div className="competition-round-header">
+              <strong>Round {session.round}</strong>
+              <span>{session.complete ? 'Final' : 'In progress'}</span>
+            </div>
+            {teamStandings.standings.map(standing => (
+              <div key={standing.teamName} className="competition-round-team">
+                <span style={{ color: standing.teamColor }}>{standing.teamName}</span>
+                <span>{formatPoints(standing.roundPoints[session.round] || 0)}</span>
+              </div>
+            ))}
+            {session.matches.map(match => (
+              <div key={match.name} className={`competition-match ${match.complete ? 'complete' : ''}`}>
+                <span>{match.name}</span>
+                <span>{match.result}</span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <p className="team-total-description">
+        {formatPoints(teamStandings.pointsPlayed)} of {formatPoints(teamStandings.pointsAvailable)} points decided
+      </p>
+    </div>
+  );
+
+  const renderNassauGames = () => nassauGames.length > 0 && (
+    <div className="nassau-games">
+      <h3>Nassau - Round {currentRound}</h3>
+      {nassauGames.map(game => {
+        const sideName = (sideId: string | null) => game.sides.find(side => side.id === sideId)?.name;
+
+        return (
+          <div key={game.sidegameId} className="nassau-game">
+            <div className="nassau-sides">
+              <strong>{game.sides.map(side => side.name).join(' vs ')}</strong>
+              <small>{game.stake} per bet</small>
+            </div>
+
+            <div className="nassau-bets">
+              {game.bets.map(bet => (
+                <div
+                  key={bet.id}
+                  className={`nassau-bet ${bet.type === 'press' ? 'press' : ''} ${bet.complete ? 'complete' : ''}`}
+                >
+                  <span className="nassau-bet-name">{bet.name}</span>
+                  <span className="nassau-bet-result">
+                    {bet.leaderSideId ? `${sideName(bet.leaderSideId)} ${bet.result}` : bet.result}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            <div className="nassau-settlement">
+              {game.settlement.map(entry => (
+                <div
+                  key={entry.playerId}
+                  className={`nassau-settlement-item ${entry.amount > 0 ? 'under' : entry.amount < 0 ? 'over' : 'even'}`}
+                >
+                  <span>{entry.playerName}</span>
+                  <strong>{formatAmount(entry.amount)}</strong>
+                  {entry.projected !== entry.amount && <small>({formatAmount(entry.projected)} if it ends now)</small>}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const renderWolfGames = () => wolfGames.length > 0 && (
+    <div className="wolf-games">
+      <h3>Wolf - Round {currentRound}</h3>
+      {wolfGames.map(game => {
+        const firstName = (playerId: string) =>
+          game.players.find(p => p.playerId === playerId)?.playerName.split(' ')[0] || playerId;
+        const chosenHoles = game.holes.filter(hole => hole.partnerId !== undefined);
+
+        return (
+          <div key={game.sidegameId} className="wolf-game">
+            <div className="wolf-points">
+              {game.players.map(player => (
+                <div key={player.playerId} className="wolf-points-item">
+                  <span>{player.playerName}</span>
+                  <strong>{player.points}</strong>
+                </div>
+              ))}
+            </div>
+
+            {chosenHoles.length > 0 && (
+              <div className="wolf-holes">
+                {chosenHoles.map(hole => (
+                  <div key={hole.hole} className={`wolf-hole ${hole.status}`}>
+                    <span className="wolf-hole-number">{hole.hole}</span>
+                    <span>
+                      {firstName(hole.wolfId)}
+                      {hole.partnerId ? ` & ${firstName(hole.partnerId)}` : ' (lone wolf)'}
+                    </span>
+                    <span className="wolf-hole-result">
+                      {hole.status === 'won' && `${hole.winnerIds.map(firstName).join(' & ')} win`}
+                      {hole.status === 'halved' && 'Halved'}
+                      {hole.status === 'pending' && 'In play'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+
   if (!currentSidegame || teamLeaderboard.length === 0) {
-    return null;
+    return hasTeamCompetition || nassauGames.length > 0 || wolfGames.length > 0
+      ? <div className="team-leaderboard">{renderTeamCompetition()}{renderNassauGames()}{renderWolfGames()}</div>
+      : null;
   }
 
+  const sumMatch = currentSidegame.sumMatch || DEFAULT_SUM_MATCH;
+  const formatSumMatchScore = (score: number) =>
+    sumMatch.basis === 'stableford' ? `${score}` : score === 0 ? 'E' : score > 0 ? `+${score}` : `${score}`;
+
+  // Groupings and hole results list player ids
+  const playerName = (playerId: string): string =>
+    tournament.players.find((p: any) => p.id === playerId)?.name || playerId;
+
   // Get holes played differently for different game types
   const holesPlayed = currentSidegame?.gameType === 'sum-match'
     ? Object.keys(liveScorecard).map(h => parseInt(h)).sort((a, b) => a - b)
@@ -213,48 +382,7 @@ export const TeamLeaderboard: React.FC<TeamLeaderboardProps> = ({
         </div>
       </div>
 
-      {/* Team Score Leaderboard */}
-      {Object.keys(allTimeTeamScores).length > 0 && (
-        <div className="team-total-status">
-          <h3>Team Score Leaderboard</h3>
-          <div className="team-total-grid">
-            {currentSidegame.teams
-              .map(team => ({
-                ...team,
-                ...allTimeTeamScores[team.id]
-              }))
-              .sort((a, b) => (a.totalScore || 0) - (b.totalScore || 0))
-              .map(team => (
-                <div key={team.id} className="team-total-item">
-                  <div
-                    className="team-color-indicator"
-                    style={{ backgroundColor: team.color }}
-                  ></div>
-                  <div className="team-total-info">
-                    <div className="team-name">{team.name}</div>
-                    <div className="team-scores">
-                      <div className="team-score-column">
-                        <span className="score-label">Round {currentRound}</span>
-                        <div className={`team-score ${(team.currentRoundScore || 0) === 0 ? 'even' : (team.currentRoundScore || 0) < 0 ? 'under' : 'over'}`}>
-                          {(team.currentRoundScore || 0) === 0 ? 'E' : (team.currentRoundScore || 0) > 0 ? `+${team.currentRoundScore}` : team.currentRoundScore}
-                        </div>
-                      </div>
-                      <div className="team-score-column">
-                        <span className="score-label">Total</span>
-                        <div className={`team-score team-total-score ${(team.totalScore || 0) === 0 ? 'even' : (team.totalScore || 0) < 0 ? 'under' : 'over'}`}>
-                          {(team.totalScore || 0) === 0 ? 'E' : (team.totalScore || 0) > 0 ? `+${team.totalScore}` : team.totalScore}
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              ))}
-          </div>
-          <p className="team-total-description">
-            Combined team score vs par for round {currentRound} and overall total
-          </p>
-        </div>
-      )}
+      {renderTeamCompetition()}
 
       {/* Live Sum-Match Scorecard */}
       {currentSidegame.gameType === 'sum-match' && holesPlayed.length > 0 && (
@@ -270,8 +398,8 @@ export const TeamLeaderboard: React.FC<TeamLeaderboardProps> = ({
             </div>
 
             {teamLeaderboard.map(team => {
-              const teamScores = holesPlayed.map(hole => liveScorecard[hole]?.[team.teamId] || 0);
-              const totalScore = teamScores.reduce((sum, score) => sum + score, 0);
+              const teamScores = holesPlayed.map(hole => liveScorecard[hole]?.[team.teamId]);
+              const totalScore = teamScores.reduce<number>((sum, score) => sum + (score ?? 0), 0);
 
               return (
                 <div key={team.teamId} className="team-scorecard-row">
@@ -287,12 +415,12 @@ export const TeamLeaderboard: React.FC<TeamLeaderboardProps> = ({
 
                   {teamScores.map((score, index) => (
                     <div key={holesPlayed[index]} className="score-cell">
-                      {score === 0 ? 'E' : score > 0 ? `+${score}` : `${score}`}
+                      {score === undefined ? '-' : formatSumMatchScore(score)}
                     </div>
                   ))}
 
                   <div className="total-cell">
-                    <strong>{totalScore === 0 ? 'E' : totalScore > 0 ? `+${totalScore}` : `${totalScore}`}</strong>
+                    <strong>{formatSumMatchScore(totalScore)}</strong>
                   </div>
                 </div>
               );
@@ -300,8 +428,15 @@ export const TeamLeaderboard: React.FC<TeamLeaderboardProps> = ({
           </div>
 
           <div className="scorecard-legend">
-            <p><strong>Sum Match:</strong> Teams compete by total strokes vs par per hole</p>
-            <p><strong>Scoring:</strong> Best team on hole gets +1 point, worst team gets -1 point</p>
+            <p>
+              <strong>Sum Match:</strong> Teams compete by total {SUM_MATCH_BASIS_LABELS[sumMatch.basis]} per hole
+              {sumMatch.bestScores && `, best ${sumMatch.bestScores} scores counting`}
+              {sumMatch.normalize && ', evened out for team size'}
+            </p>
+            <p>
+              <strong>Scoring:</strong> Best team on hole gets {formatAmount(sumMatch.points.win)} points, worst team
+              gets {formatAmount(sumMatch.points.loss)}; teams level for best or worst get {formatAmount(sumMatch.points.tie)}
+            </p>
           </div>
         </div>
       )}
@@ -318,7 +453,7 @@ export const TeamLeaderboard: React.FC<TeamLeaderboardProps> = ({
               {currentSidegame.groupings.map((group, groupIndex) => (
                 <div key={groupIndex} className="group-matches">
                   <div className="group-header">
-                    <strong>Group {groupIndex + 1}:</strong> {group.join(', ')}
+                    <strong>Group {groupIndex + 1}:</strong> {group.map(playerName).join(', ')}
                   </div>
 
                   {/* Show match information for this group */}
@@ -336,25 +471,9 @@ export const TeamLeaderboard: React.FC<TeamLeaderboardProps> = ({
                         {/* Generate all possible matches within this group */}
                         {group.map((player1, i) =>
                           group.slice(i + 1).map((player2) => {
-                            // Helper function to find player in match results with fuzzy matching
-                            const findPlayerInMatch = (match: any, playerName: string) => {
-                              // First try exact match
-                              if (match.holeResults[playerName] !== undefined) {
-                                return { name: playerName, score: match.holeResults[playerName] };
-                              }
-
-                              // Try fuzzy matching - look for player names that contain or are contained in the search name
-                              const matchedPlayer = Object.keys(match.holeResults).find(name =>
-                                name.toLowerCase().includes(playerName.toLowerCase()) ||
-                                playerName.toLowerCase().includes(name.toLowerCase())
-                              );
-
-                              if (matchedPlayer) {
-                                return { name: matchedPlayer, score: match.holeResults[matchedPlayer] };
-                              }
-
-                              return null;
-                            };
+                            // Hole results are keyed by player id
+                            const findPlayerInMatch = (match: any, playerId: string) =>
+                              match.holeResults[playerId] !== undefined ? { score: match.holeResults[playerId] } : null;
 
                             // Calculate match results between player1 and player2
                             const player1Wins = holesPlayed.reduce((wins, hole) => {
@@ -390,7 +509,7 @@ export const TeamLeaderboard: React.FC<TeamLeaderboardProps> = ({
                             return (
                               <div key={`${player1}-${player2}`} className="match-row">
                                 <div className="match-players">
-                                  {player1.split(' ')[0]} vs {player2.split(' ')[0]}
+                                  {playerName(player1).split(' ')[0]} vs {playerName(player2).split(' ')[0]}
                                 </div>
 
                                 {holesPlayed.map(hole => {
@@ -467,6 +586,9 @@ export const TeamLeaderboard: React.FC<TeamLeaderboardProps> = ({
           </div>
         </div>
       )}
+
+      {renderNassauGames()}
+      {renderWolfGames()}
     </div>
   );
 };
\ No newline at end of file
@@ -1,5 +1,20 @@
 import React, { useState, useEffect } from 'react';
-import type { Team, TeamSidegame, Tournament } from '../types';
+import type { GroupingDraw, SessionPoints, SidegameType, SumMatchSettings, Team, TeamSidegame, Tournament } from '../types';
+
+const PAIRS_FORMATS: SidegameType[] = ['four-ball', 'foursomes', 'greensomes'];
+const SIDE_BETS: SidegameType[] = ['skins', 'nassau', 'wolf'];
+const DEFAULT_SUM_MATCH: SumMatchSettings = { basis: 'gross', points: { win: 1, loss: -1, tie: 0 }, normalize: false };
+
+export const GAME_TYPE_LABELS: { [type in SidegameType]: string } = {
+  'sum-match': 'Sum Match',
+  'all-vs-all': 'All vs All',
+  'four-ball': 'Four-Ball',
+  'foursomes': 'Foursomes',
+  'greensomes': 'Greensomes',
+  'skins': 'Skins',
+  'nassau': 'Nassau',
+  'wolf': 'Wolf',
+};
 
 interface TeamSidegameAdminProps {
   tournament: Tournament;
@@ -12,8 +27,16 @@ export const TeamSidegameAdmin: React.FC<TeamSidegameAdminProps> = ({
 }) => {
   const [teams, setTeams] = useState<Team[]>([]);
   const [currentSidegame, setCurrentSidegame] = useState<TeamSidegame | null>(null);
-  const [gameType, setGameType] = useState<'all-vs-all' | 'sum-match'>('sum-match');
+  const [gameType, setGameType] = useState<SidegameType>('sum-match');
   const [groupings, setGroupings] = useState<string[][]>([]);
+  const [allowancePercentage, setAllowancePercentage] = useState(100);
+  const [pairs, setPairs] = useState<[string, string][]>([]);
+  const [pairsMode, setPairsMode] = useState<'stroke' | 'match'>('stroke');
+  const [sessionPoints, setSessionPoints] = useState<SessionPoints>({ win: 1, halve: 0.5 });
+  const [sumMatch, setSumMatch] = useState<SumMatchSettings>(DEFAULT_SUM_MATCH);
+  const [drawSeed, setDrawSeed] = useState('');
+  const [groupSize, setGroupSize] = useState(4);
+  const [groupingDraw, setGroupingDraw] = useState<GroupingDraw | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -26,7 +49,7 @@ export const TeamSidegameAdmin: React.FC<TeamSidegameAdminProps> = ({
 
   const loadTeams = async () => {
     try {
-      const response = await fetch('/api/teams');
+      const response = await fetch(`/api/tournament/${tournament.id}/teams?round=${currentRound}`);
       if (response.ok) {
         const teamsData = await response.json();
         setTeams(teamsData);
@@ -44,6 +67,10 @@ export const TeamSidegameAdmin: React.FC<TeamSidegameAdminProps> = ({
         setCurrentSidegame(sidegame);
         setGameType(sidegame.gameType);
         setGroupings(sidegame.groupings || []);
+        setAllowancePercentage(sidegame.handicapAllowance?.percentage ?? 100);
+        setPairsMode(sidegame.pairsMode || 'stroke');
+        setSessionPoints(sidegame.sessionPoints || { win: 1, halve: 0.5 });
+        setSumMatch(sidegame.sumMatch || DEFAULT_SUM_MATCH);
       } else if (response.status === 404) {
         setCurrentSidegame(null);
       }
@@ -65,6 +92,11 @@ export const TeamSidegameAdmin: React.FC<TeamSidegameAdminProps> = ({
         body: JSON.stringify({
           gameType,
           groupings: gameType === 'all-vs-all' ? groupings : undefined,
+          handicapAllowance: allowancePercentage !== 100 ? { percentage: allowancePercentage } : undefined,
+          pairs: isPairsFormat ? pairs.map(playerIds => ({ playerIds })) : undefined,
+          pairsMode: isPairsFormat ? pairsMode : undefined,
+          sumMatch: gameType === 'sum-match' ? sumMatch : undefined,
+          sessionPoints: isTeamCompetitionFormat ? sessionPoints : undefined,
         }),
       });
 
@@ -82,6 +114,98 @@ export const TeamSidegameAdmin: React.FC<TeamSidegameAdminProps> = ({
     }
   };
 
+  // Changing the rules rescores the holes already played
+  const saveSumMatchRules = async () => {
+    if (!currentSidegame) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/sidegame/${currentSidegame.id}/sum-match`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(sumMatch),
+      });
+
+      if (response.ok) {
+        setCurrentSidegame(await response.json());
+      } else {
+        const errorData = await response.json();
+        setError(errorData.error || 'Failed to update sum-match rules');
+      }
+    } catch (err) {
+      console.error('Failed to update sum-match rules:', err);
+      setError('Failed to update sum-match rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveSessionPoints = async () => {
+    if (!currentSidegame) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/sidegame/${currentSidegame.id}/session-points`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(sessionPoints),
+      });
+
+      if (response.ok) {
+        setCurrentSidegame(await response.json());
+      } else {
+        const errorData = await response.json();
+        setError(errorData.error || 'Failed to update session points');
+      }
+    } catch (err) {
+      console.error('Failed to update session points:', err);
+      setError('Failed to update session points');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Previews groupings that mix players who haven't met; the same seed redraws the same groupings
+  const drawGroupings = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/tournament/${tournament.id}/round/${currentRound}/draw/groupings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          seed: drawSeed ? parseInt(drawSeed) : undefined,
+          groupSize,
+        }),
+      });
+
+      if (response.ok) {
+        const draw: GroupingDraw = await response.json();
+        setGroupingDraw(draw);
+        setDrawSeed(draw.seed.toString());
+      } else {
+        const errorData = await response.json();
+        setError(errorData.error || 'Failed to draw groupings');
+      }
+    } catch (err) {
+      console.error('Failed to draw groupings:', err);
+      setError('Failed to draw groupings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const addGrouping = () => {
     setGroupings([...groupings, []]);
   };
@@ -97,7 +221,93 @@ export const TeamSidegameAdmin: React.FC<TeamSidegameAdminProps> = ({
     setGroupings(newGroupings);
   };
 
-  const availablePlayers = tournament.players.map(p => p.name);
+  const updatePair = (index: number, position: 0 | 1, playerId: string) => {
+    const newPairs = [...pairs];
+    newPairs[index] = [...newPairs[index]] as [string, string];
+    newPairs[index][position] = playerId;
+    setPairs(newPairs);
+  };
+
+  const availablePlayers = tournament.players;
+  // Groupings list player ids
+  const groupNames = (group: string[]) => group.map(id => tournament.players.find(p => p.id === id)?.name || id).join(', ');
+  const isPairsFormat = PAIRS_FORMATS.includes(gameType);
+  // Side bets settle in money; every other format is a session of the team competition
+  const isTeamCompetitionFormat = !SIDE_BETS.includes(gameType);
+
+  const updateSumMatchPoints = (field: keyof SumMatchSettings['points'], value: string) =>
+    setSumMatch({ ...sumMatch, points: { ...sumMatch.points, [field]: parseFloat(value) || 0 } });
+
+  const renderSumMatchRules = () => (
+    <div className="session-points">
+      <label>
+        Basis:{' '}
+        <select
+          value={sumMatch.basis}
+          onChange={(e) => setSumMatch({ ...sumMatch, basis: e.target.value as SumMatchSettings['basis'] })}
+        >
+          <option value="gross">Gross to par</option>
+          <option value="net">Net to par</option>
+          <option value="stableford">Stableford points</option>
+        </select>
+      </label>
+      {(['win', 'loss', 'tie'] as const).map(field => (
+        <label key={field}>
+          {field === 'win' ? 'Win' : field === 'loss' ? 'Loss' : 'Tie'}:{' '}
+          <input
+            type="number"
+            step={0.5}
+            value={sumMatch.points[field]}
+            onChange={(e) => updateSumMatchPoints(field, e.target.value)}
+          />
+        </label>
+      ))}
+      <label>
+        Best scores per team:{' '}
+        <input
+          type="number"
+          min={1}
+          placeholder="All"
+          value={sumMatch.bestScores ?? ''}
+          onChange={(e) => setSumMatch({ ...sumMatch, bestScores: e.target.value ? Math.max(1, parseInt(e.target.value) || 1) : undefined })}
+        />
+      </label>
+      <label>
+        <input
+          type="checkbox"
+          checked={sumMatch.normalize}
+          onChange={(e) => setSumMatch({ ...sumMatch, normalize: e.target.checked })}
+        />
+        {' '}Even out team sizes
+      </label>
+    </div>
+  );
+
+  const renderSessionPoints = () => (
+    <div className="session-points">
+      <label>
+        Points per match won:{' '}
+        <input
+          type="number"
+          min={0}
+          step={0.5}
+          value={sessionPoints.win}
+          onChange={(e) => setSessionPoints({ ...sessionPoints, win: Math.max(0, parseFloat(e.target.value) || 0) })}
+        />
+      </label>
+      <label>
+        Halved:{' '}
+        <input
+          type="number"
+          min={0}
+          step={0.5}
+          value={sessionPoints.halve}
+          onChange={(e) => setSessionPoints({ ...sessionPoints, halve: Math.max(0, parseFloat(e.target.value) || 0) })}
+        />
+      </label>
+    </div>
+  );
+  const pairsComplete = pairs.length >= 2 && pairs.every(([a, b]) => a && b && a !== b);
 
   return (
     <div className="team-sidegame-admin">
@@ -112,17 +322,38 @@ export const TeamSidegameAdmin: React.FC<TeamSidegameAdminProps> = ({
       {currentSidegame ? (
         <div className="sidegame-info">
           <div className="sidegame-details">
-            <p><strong>Game Type:</strong> {currentSidegame.gameType}</p>
-            <p><strong>Teams:</strong> {currentSidegame.teams.map(t => t.name).join(', ')}</p>
+            <p><strong>Game Type:</strong> {GAME_TYPE_LABELS[currentSidegame.gameType]}{currentSidegame.pairsMode && ` (${currentSidegame.pairsMode} play)`}</p>
+            <p><strong>Teams:</strong> {teams.map(t => t.name).join(', ')}</p>
+            <p><strong>Handicap Allowance:</strong> {currentSidegame.handicapAllowance ? `${currentSidegame.handicapAllowance.percentage}%` : 'Tournament default'}</p>
             <p><strong>Matches Played:</strong> {currentSidegame.matches.length}</p>
           </div>
 
+          {currentSidegame.gameType === 'sum-match' && (
+            <div className="session-points-edit">
+              <h4>Sum-Match Rules</h4>
+              {renderSumMatchRules()}
+              <button className="round-btn" disabled={loading} onClick={saveSumMatchRules}>
+                Update Rules
+              </button>
+            </div>
+          )}
+
+          {isTeamCompetitionFormat && (
+            <div className="session-points-edit">
+              <h4>Team Competition Points</h4>
+              {renderSessionPoints()}
+              <button className="round-btn" disabled={loading} onClick={saveSessionPoints}>
+                Update Points
+              </button>
+            </div>
+          )}
+
           {currentSidegame.gameType === 'all-vs-all' && (
             <div className="groupings-display">
               <h4>Groupings:</h4>
               {currentSidegame.groupings?.map((group, index) => (
                 <div key={index} className="grouping">
-                  <strong>Group {index + 1}:</strong> {group.join(', ')}
+                  <strong>Group {index + 1}:</strong> {groupNames(group)}
                 </div>
               ))}
             </div>
@@ -157,6 +388,36 @@ export const TeamSidegameAdmin: React.FC<TeamSidegameAdminProps> = ({
                 <span>All vs All</span>
                 <small>Players compete individually within groups</small>
               </label>
+              <label>
+                <input
+                  type="radio"
+                  value="four-ball"
+                  checked={gameType === 'four-ball'}
+                  onChange={(e) => setGameType(e.target.value as 'four-ball')}
+                />
+                <span>Four-Ball</span>
+                <small>Best net ball of each pair counts (85% allowance)</small>
+              </label>
+              <label>
+                <input
+                  type="radio"
+                  value="foursomes"
+                  checked={gameType === 'foursomes'}
+                  onChange={(e) => setGameType(e.target.value as 'foursomes')}
+                />
+                <span>Foursomes</span>
+                <small>One ball per pair, alternate shots (50% of combined handicap)</small>
+              </label>
+              <label>
+                <input
+                  type="radio"
+                  value="greensomes"
+                  checked={gameType === 'greensomes'}
+                  onChange={(e) => setGameType(e.target.value as 'greensomes')}
+                />
+                <span>Greensomes</span>
+                <small>Both drive, pick one ball (60% low + 40% high handicap)</small>
+              </label>
             </div>
           </div>
 
@@ -165,6 +426,56 @@ export const TeamSidegameAdmin: React.FC<TeamSidegameAdminProps> = ({
               <h4>Setup Groupings:</h4>
               <p className="info">Create groups where each player competes against every other player in the group (except teammates)</p>
 
+              <div className="draw-controls">
+                <label>
+                  Group size
+                  <select value={groupSize} onChange={(e) => setGroupSize(parseInt(e.target.value))}>
+                    {[2, 3, 4].map(size => (
+                      <option key={size} value={size}>{size}</option>
+                    ))}
+                  </select>
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  placeholder="Random seed"
+                  value={drawSeed}
+                  onChange={(e) => setDrawSeed(e.target.value)}
+                />
+                <button type="button" className="round-btn" disabled={loading} onClick={drawGroupings}>
+                  Draw Groupings
+                </button>
+              </div>
+
+              {groupingDraw && (
+                <div className="draw-preview">
+                  <h5>Draw with seed {groupingDraw.seed}</h5>
+                  {groupingDraw.groups.map((group, index) => (
+                    <div key={index} className="grouping">
+                      <strong>Group {index + 1}:</strong> {group.playerNames.join(', ')}
+                    </div>
+                  ))}
+                  <small>
+                    {groupingDraw.repeatPairings} repeat pairings, {groupingDraw.teammatePairings} teammate pairings
+                  </small>
+                  <div className="draw-actions">
+                    <button
+                      type="button"
+                      className="create-btn"
+                      onClick={() => {
+                        setGroupings(groupingDraw.groupings);
+                        setGroupingDraw(null);
+                      }}
+                    >
+                      Use These Groupings
+                    </button>
+                    <button type="button" className="cancel-btn" onClick={() => setGroupingDraw(null)}>
+                      Discard
+                    </button>
+                  </div>
+                </div>
+              )}
+
               {groupings.map((group, index) => (
                 <div key={index} className="grouping-editor">
                   <div className="grouping-header">
@@ -187,12 +498,12 @@ export const TeamSidegameAdmin: React.FC<TeamSidegameAdminProps> = ({
                     className="player-selector"
                   >
                     {availablePlayers.map(player => (
-                      <option key={player} value={player}>
-                        {player}
+                      <option key={player.id} value={player.id}>
+                        {player.name}
                       </option>
                     ))}
                   </select>
-                  <small>Selected: {group.join(', ')}</small>
+                  <small>Selected: {groupNames(group)}</small>
                 </div>
               ))}
 
@@ -206,6 +517,61 @@ export const TeamSidegameAdmin: React.FC<TeamSidegameAdminProps> = ({
             </div>
           )}
 
+          {isPairsFormat && (
+            <div className="groupings-setup">
+              <h4>Setup Pairs:</h4>
+              <div className="radio-group">
+                <label>
+                  <input type="radio" checked={pairsMode === 'stroke'} onChange={() => setPairsMode('stroke')} />
+                  <span>Stroke Play</span>
+                </label>
+                <label>
+                  <input type="radio" checked={pairsMode === 'match'} onChange={() => setPairsMode('match')} />
+                  <span>Match Play</span>
+                  <small>Pair 1 plays pair 2, pair 3 plays pair 4</small>
+                </label>
+              </div>
+
+              {pairs.map((pair, index) => (
+                <div key={index} className="grouping-editor">
+                  <div className="grouping-header">
+                    <h5>Pair {index + 1}</h5>
+                    <button
+                      type="button"
+                      onClick={() => setPairs(pairs.filter((_, i) => i !== index))}
+                      className="remove-btn"
+                    >
+                      ×
+                    </button>
+                  </div>
+                  {([0, 1] as const).map(position => (
+                    <select
+                      key={position}
+                      value={pair[position]}
+                      onChange={(e) => updatePair(index, position, e.target.value)}
+                      className="player-selector"
+                    >
+                      <option value="">Select player</option>
+                      {tournament.players.map(player => (
+                        <option key={player.id} value={player.id}>
+                          {player.name}
+                        </option>
+                      ))}
+                    </select>
+                  ))}
+                </div>
+              ))}
+
+              <button
+                type="button"
+                onClick={() => setPairs([...pairs, ['', '']])}
+                className="add-grouping-btn"
+              >
+                + Add Pair
+              </button>
+            </div>
+          )}
+
           {gameType === 'sum-match' && (
             <div className="sum-match-info">
               <h4>Sum Match Rules:</h4>
@@ -219,13 +585,8 @@ export const TeamSidegameAdmin: React.FC<TeamSidegameAdminProps> = ({
                     <div className="team-details">
                       <strong>{team.name}</strong>
                       <div className="team-players">
-                        {team.players.join(', ')}
+                        {team.playerIds.map(id => tournament.players.find(p => p.id === id)?.name || id).join(', ')}
                       </div>
-                      {team.id === 'green' && (
-                        <small className="team-note">
-                          * Alternates: Anders (odd holes), Christer (even holes)
-                        </small>
-                      )}
                     </div>
                   </div>
                 ))}
@@ -233,13 +594,30 @@ export const TeamSidegameAdmin: React.FC<TeamSidegameAdminProps> = ({
             </div>
           )}
 
+          <div className="handicap-allowance">
+            <label>
+              Handicap allowance (%):{' '}
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={allowancePercentage}
+                onChange={(e) => setAllowancePercentage(Math.min(100, Math.max(0, parseInt(e.target.value) || 0)))}
+              />
+            </label>
+          </div>
+
+          {gameType === 'sum-match' && renderSumMatchRules()}
+
+          {isTeamCompetitionFormat && renderSessionPoints()}
+
           <div className="create-sidegame">
             <button
               onClick={createSidegame}
-              disabled={loading || (gameType === 'all-vs-all' && groupings.length === 0)}
+              disabled={loading || (gameType === 'all-vs-all' && groupings.length === 0) || (isPairsFormat && !pairsComplete)}
               className="create-btn"
             >
-              {loading ? 'Creating...' : `Create ${gameType === 'sum-match' ? 'Sum Match' : 'All vs All'} Sidegame`}
+              {loading ? 'Creating...' : `Create ${GAME_TYPE_LABELS[gameType]} Sidegame`}
             </button>
           </div>
         </div>
@@ -0,0 +1,182 @@
+import React, { useState, useEffect } from 'react';
+import { apiService } from '../services/api';
+import type { Course, TournamentSummary } from '../types';
+
+interface TournamentManagerProps {
+  onTournamentChange: () => void;
+}
+
+export const TournamentManager: React.FC<TournamentManagerProps> = ({ onTournamentChange }) => {
+  const [tournaments, setTournaments] = useState<TournamentSummary[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [name, setName] = useState('');
+  const [courseId, setCourseId] = useState('');
+  const [totalRounds, setTotalRounds] = useState(1);
+  const [playerLines, setPlayerLines] = useState('');
+  const [seedTeams, setSeedTeams] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTournaments();
+    loadCourses();
+  }, []);
+
+  const loadTournaments = async () => {
+    try {
+      setTournaments(await apiService.getTournaments());
+    } catch (err) {
+      console.error('Failed to load tournaments:', err);
+    }
+  };
+
+  const loadCourses = async () => {
+    try {
+      const coursesData = await apiService.getCourses();
+      setCourses(coursesData);
+      if (coursesData.length > 0) {
+        setCourseId(coursesData[0].id);
+      }
+    } catch (err) {
+      console.error('Failed to load courses:', err);
+    }
+  };
+
+  // Runs a tournament action, then refreshes both this list and the parent panel
+  const runAction = async (action: () => Promise<unknown>, failureMessage: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      await action();
+      await loadTournaments();
+      onTournamentChange();
+    } catch (err) {
+      console.error(failureMessage, err);
+      setError(`${failureMessage}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    // One player per line, e.g. "Christer Smedshammar 4.9"
+    const players = playerLines.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+
+    await runAction(
+      () => apiService.createTournament({ name, courseId, players, totalRounds, activate: true, seedTeams }),
+      'Failed to create tournament'
+    );
+    setName('');
+    setPlayerLines('');
+  };
+
+  const handleDelete = async (tournament: TournamentSummary) => {
+    if (!window.confirm(`Delete ${tournament.name} and all its scores?`)) return;
+    await runAction(() => apiService.deleteTournament(tournament.id), 'Failed to delete tournament');
+  };
+
+  return (
+    <div className="tournament-manager">
+      <h3>Tournaments</h3>
+
+      {error && (
+        <div className="error-banner">
+          <p>{error}</p>
+        </div>
+      )}
+
+      <div className="tournament-list">
+        {tournaments.map(tournament => (
+          <div key={tournament.id} className={`tournament-list-item ${tournament.active ? 'active' : ''}`}>
+            <div className="tournament-list-info">
+              <strong>{tournament.name}</strong>
+              <small>
+                {tournament.course} · {tournament.playerCount} players · Round {tournament.currentRound} of {tournament.totalRounds}
+                {tournament.active && ' · Active'}
+                {tournament.archivedAt && ' · Archived'}
+              </small>
+            </div>
+            <div className="tournament-list-actions">
+              {!tournament.active && !tournament.archivedAt && (
+                <button
+                  className="round-btn"
+                  disabled={loading}
+                  onClick={() => runAction(() => apiService.activateTournament(tournament.id), 'Failed to activate tournament')}
+                >
+                  Activate
+                </button>
+              )}
+              {tournament.archivedAt ? (
+                <button
+                  className="round-btn"
+                  disabled={loading}
+                  onClick={() => runAction(() => apiService.restoreTournament(tournament.id), 'Failed to restore tournament')}
+                >
+                  Restore
+                </button>
+              ) : (
+                <button
+                  className="round-btn"
+                  disabled={loading}
+                  onClick={() => runAction(() => apiService.archiveTournament(tournament.id), 'Failed to archive tournament')}
+                >
+                  Archive
+                </button>
+              )}
+              <button className="cancel-btn" disabled={loading} onClick={() => handleDelete(tournament)}>
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="tournament-create">
+        <h4>New Tournament</h4>
+        <input
+          type="text"
+          placeholder="Tournament name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="confirmation-input"
+        />
+        <select value={courseId} onChange={(e) => setCourseId(e.target.value)} className="confirmation-input">
+          {courses.map(course => (
+            <option key={course.id} value={course.id}>{course.name}</option>
+          ))}
+        </select>
+        <label>
+          Rounds:{' '}
+          <input
+            type="number"
+            min={1}
+            value={totalRounds}
+            onChange={(e) => setTotalRounds(Math.max(1, parseInt(e.target.value) || 1))}
+          />
+        </label>
+        <textarea
+          placeholder={'One player per line: name and handicap index\nChrister Smedshammar 4.9'}
+          value={playerLines}
+          onChange={(e) => setPlayerLines(e.target.value)}
+          className="confirmation-input"
+          rows={6}
+        />
+        <label>
+          <input
+            type="checkbox"
+            checked={seedTeams}
+            onChange={(e) => setSeedTeams(e.target.checked)}
+          />
+          {' '}Start with the teams from teams-config.json
+        </label>
+        <button
+          className="create-btn"
+          onClick={handleCreate}
+          disabled={loading || !name.trim() || !courseId}
+        >
+          Create and Activate
+        </button>
+      </div>
+    </div>
+  );
+};
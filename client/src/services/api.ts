@@ -1,5 +1,5 @@
 import io, { Socket } from 'socket.io-client';
-import type { WebSocketMessage, Tournament, LeaderboardEntry, Team } from '../types';
+import type { WebSocketMessage, Tournament, TournamentSummary, TournamentInput, LeaderboardEntry, LeaderboardView, Team, TeamInput, TeamUpdate, TeamDraw, TeamDrawInput, Course, TeamSidegame, Settlement, ContestInput, ContestStatus } from '../types';
 
 class ApiService {
   private socket: Socket | null = null;
@@ -100,6 +100,63 @@ class ApiService {
     return response.json();
   }
 
+  async getTournaments(): Promise<TournamentSummary[]> {
+    const response = await fetch('/api/tournaments');
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  async createTournament(input: TournamentInput): Promise<Tournament> {
+    const response = await fetch('/api/tournaments', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  async activateTournament(id: string): Promise<void> {
+    const response = await fetch(`/api/tournaments/${id}/activate`, { method: 'POST' });
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+  }
+
+  async archiveTournament(id: string): Promise<void> {
+    const response = await fetch(`/api/tournaments/${id}/archive`, { method: 'POST' });
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+  }
+
+  async restoreTournament(id: string): Promise<void> {
+    const response = await fetch(`/api/tournaments/${id}/restore`, { method: 'POST' });
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+  }
+
+  async deleteTournament(id: string): Promise<void> {
+    const response = await fetch(`/api/tournaments/${id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+  }
+
+  async getCourses(): Promise<Course[]> {
+    const response = await fetch('/api/courses');
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  }
+
   async getTournament(id: string): Promise<Tournament> {
     const response = await fetch(`/api/tournament/${id}`);
     if (!response.ok) {
@@ -108,8 +165,12 @@ class ApiService {
     return response.json();
   }
 
-  async getLeaderboard(tournamentId: string, round?: number | null): Promise<LeaderboardEntry[]> {
-    const url = round ? `/api/tournament/${tournamentId}/leaderboard?round=${round}` : `/api/tournament/${tournamentId}/leaderboard`;
+  async getLeaderboard(tournamentId: string, round?: number | null, view?: LeaderboardView): Promise<LeaderboardEntry[]> {
+    const params = new URLSearchParams();
+    if (round) params.set('round', round.toString());
+    if (view) params.set('view', view);
+    const query = params.toString();
+    const url = query ? `/api/tournament/${tournamentId}/leaderboard?${query}` : `/api/tournament/${tournamentId}/leaderboard`;
     const response = await fetch(url);
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
@@ -117,22 +178,171 @@ class ApiService {
     return response.json();
   }
 
-  async getPlayerScorecard(tournamentId: string, playerId: string) {
-    const response = await fetch(`/api/tournament/${tournamentId}/player/${playerId}/scorecard`);
+  async getPlayerScorecard(tournamentId: string, playerId: string, round?: number) {
+    const url = round
+      ? `/api/tournament/${tournamentId}/player/${playerId}/scorecard?round=${round}`
+      : `/api/tournament/${tournamentId}/player/${playerId}/scorecard`;
+    const response = await fetch(url);
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
     }
     return response.json();
   }
 
-  async getTeams(): Promise<Team[]> {
-    const response = await fetch('/api/teams');
+  async getTeams(tournamentId: string, round?: number | null): Promise<Team[]> {
+    const url = round
+      ? `/api/tournament/${tournamentId}/teams?round=${round}`
+      : `/api/tournament/${tournamentId}/teams`;
+    const response = await fetch(url);
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
     }
     return response.json();
   }
 
+  async createTeam(tournamentId: string, input: TeamInput): Promise<Team> {
+    const response = await fetch(`/api/tournament/${tournamentId}/teams`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  async updateTeam(teamId: string, update: TeamUpdate): Promise<Team> {
+    const response = await fetch(`/api/team/${teamId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(update),
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  async deleteTeam(teamId: string): Promise<void> {
+    const response = await fetch(`/api/team/${teamId}`, { method: 'DELETE' });
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+  }
+
+  async moveTeamPlayer(tournamentId: string, playerId: string, teamId: string | null, round?: number): Promise<Team[]> {
+    const response = await fetch(`/api/tournament/${tournamentId}/teams/move`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ playerId, teamId, round }),
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  async setRoundTeams(tournamentId: string, round: number, ownTeams: boolean): Promise<Team[]> {
+    const response = await fetch(`/api/tournament/${tournamentId}/round/${round}/teams`, {
+      method: ownTeams ? 'POST' : 'DELETE',
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  async drawTeams(tournamentId: string, input: Partial<TeamDrawInput>): Promise<TeamDraw> {
+    const response = await fetch(`/api/tournament/${tournamentId}/draw/teams`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  async getTournamentSidegames(tournamentId: string): Promise<TeamSidegame[]> {
+    const response = await fetch(`/api/tournament/${tournamentId}/sidegames`);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  async setSidegameStake(sidegameId: string, stake: number | null): Promise<TeamSidegame> {
+    const response = await fetch(`/api/sidegame/${sidegameId}/stake`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ stake }),
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  async getSettlement(tournamentId: string): Promise<Settlement> {
+    const response = await fetch(`/api/tournament/${tournamentId}/settlement`);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  async getContests(tournamentId: string, round?: number | null): Promise<ContestStatus[]> {
+    const url = round
+      ? `/api/tournament/${tournamentId}/contests?round=${round}`
+      : `/api/tournament/${tournamentId}/contests`;
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  async createContest(tournamentId: string, round: number, input: ContestInput): Promise<ContestStatus> {
+    const response = await fetch(`/api/tournament/${tournamentId}/round/${round}/contests`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  async deleteContest(contestId: string): Promise<void> {
+    const response = await fetch(`/api/contest/${contestId}`, { method: 'DELETE' });
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+  }
+
+  async recordContestResult(contestId: string, playerId: string, measurement?: number | null): Promise<ContestStatus> {
+    const response = await fetch(`/api/contest/${contestId}/result`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ playerId, measurement }),
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+    }
+    return response.json();
+  }
+
   disconnect() {
     if (this.socket) {
       // Remove all event listeners before disconnecting
@@ -14,8 +14,17 @@ import cors from 'cors';
 import multer from 'multer';
 import { TranscriptionService } from './services/transcription';
 import { ScoringService } from './services/scoring';
-import { TeamSidegameService } from './services/teamSidegame';
-import type { WebSocketMessage, ScoreEntry } from './types';
+import { TeamSidegameService, isPairsFormat, isOneBallFormat } from './services/teamSidegame';
+import { CourseService } from './services/course';
+import { MatchPlayService } from './services/matchPlay';
+import { LedgerService } from './services/ledger';
+import { ContestService } from './services/contest';
+import { TeamService } from './services/team';
+import { DrawService } from './services/draw';
+import { TeamCompetitionService } from './services/teamCompetition';
+import { GameEngine } from './services/gameEngine';
+import { CourseInputSchema, TournamentInputSchema, PlayerInputSchema, PlayerUpdateSchema, TournamentSettingsSchema, HandicapAllowanceSchema, MatchPlayInputSchema, MatchPlayConcessionSchema, SidegamePairSchema, SideScoreSchema, SumMatchSettingsSchema, SkinsSettingsSchema, NassauSettingsSchema, WolfSettingsSchema, WolfChoiceSchema, StakeSchema, ContestInputSchema, ContestResultSchema, TeamInputSchema, TeamUpdateSchema, TeamMoveSchema, TeamDrawSchema, GroupingDrawSchema, SessionPointsSchema } from './types';
+import type { WebSocketMessage, ScoreEntry, Tournament } from './types';
 
 const app = express();
 const server = createServer(app);
@@ -39,27 +48,32 @@ app.use(express.json());
 
 const upload = multer({ storage: multer.memoryStorage() });
 const transcriptionService = new TranscriptionService();
-const scoringService = new ScoringService();
-const teamSidegameService = new TeamSidegameService();
-
-// Load existing tournaments and sidegames from storage
+const courseService = new CourseService();
+const scoringService = new ScoringService(courseService);
+const teamService = new TeamService(scoringService);
+const teamSidegameService = new TeamSidegameService(scoringService, teamService);
+const matchPlayService = new MatchPlayService(scoringService);
+const contestService = new ContestService(scoringService);
+const ledgerService = new LedgerService(scoringService, teamSidegameService, contestService);
+const drawService = new DrawService(scoringService, teamService, teamSidegameService);
+const teamCompetitionService = new TeamCompetitionService(scoringService, teamService, teamSidegameService);
+const gameEngine = new GameEngine(
+  scoringService,
+  teamSidegameService,
+  matchPlayService,
+  contestService,
+  ledgerService,
+  message => io.emit('message', message)
+);
+
+// Load existing courses, tournaments, sidegames, matches, contests and the ledger from storage
+courseService.loadCourses();
 scoringService.loadTournaments();
+teamService.loadTeams();
 teamSidegameService.loadSidegames();
-
-// Create or get active tournament
-let activeTournament = Array.from(scoringService['tournaments'].values()).find(t => t.name === 'GA 2025');
-
-if (!activeTournament) {
-  activeTournament = scoringService.createTournament(
-    'GA 2025',
-    'El Saler 72.7 133',
-    ['Christer Smedshammar 4.9','Erik Qvist 8.7','Anders Sandgren 6.5','Andreas Jörbeck 25.0','Fredrik Edwall 11.3','Johan Kökeritz 18.4','Daniel Jönsson 11.4','Stefan Lindblad 23.0','Henrik Jarpner 7.7','Kristian Anselius 7.3'],
-    10 // 10-round tournament
-  );
-  console.log('Created new tournament:', activeTournament.name);
-} else {
-  console.log('Using existing tournament:', activeTournament.name);
-}
+matchPlayService.loadMatches();
+contestService.loadContests();
+ledgerService.loadLedger();
 
 app.post('/api/audio', upload.single('audio'), async (req, res) => {
   try {
@@ -67,6 +81,11 @@ app.post('/api/audio', upload.single('audio'), async (req, res) => {
       return res.status(400).json({ error: 'No audio file provided' });
     }
 
+    const activeTournament = scoringService.getActiveTournament();
+    if (!activeTournament) {
+      return res.status(404).json({ error: 'No active tournament' });
+    }
+
     const playerNames = activeTournament.players.map(p => p.name);
     const transcription = await transcriptionService.transcribeAudio(req.file.buffer, playerNames);
     console.log('Transcription:', transcription);
@@ -96,7 +115,7 @@ app.post('/api/audio', upload.single('audio'), async (req, res) => {
       io.emit('message', {
         type: 'score_verification_data',
         data: {
-          scoringUpdates: scoringUpdates.map(update => ({
+          scoringUpdates: scoringUpdates.filter(update => update.action !== 'wolf' && update.action !== 'contest').map(update => ({
             playerId: activeTournament.players.find(p => p.name === update.player)?.id,
             playerName: update.player,
             hole: update.hole,
@@ -109,139 +128,48 @@ app.post('/api/audio', upload.single('audio'), async (req, res) => {
     console.log('Parsed scoring updates:', scoringUpdates);
 
     const scoreEntries: ScoreEntry[] = [];
-    let leaderboardChanged = false;
 
     // Handle empty updates (e.g., non-scoring transcriptions)
     if (scoringUpdates.length === 0) {
       console.log('No scoring updates found in transcription');
     } else {
-      // Process each scoring update
-      for (const scoringUpdate of scoringUpdates) {
-        const scoreEntry = scoringService.processScoringUpdate(activeTournament.id, scoringUpdate);
-        if (scoreEntry) {
-          scoreEntries.push(scoreEntry);
-          leaderboardChanged = true;
-
-          const updateType = scoringUpdate.action === 'delete' ? 'score_deletion' : 'scoring_update';
-
-          // Emit individual scoring update
-          io.emit('message', {
-            type: updateType as any,
-            data: { scoreEntry, update: scoringUpdate },
-            timestamp: Date.now()
-          } as WebSocketMessage);
-        }
-      }
-    }
-
-    // Emit leaderboard update once after processing all scores
-    if (leaderboardChanged) {
-      const leaderboard = scoringService.generateLeaderboard(activeTournament.id);
-      io.emit('message', {
-        type: 'leaderboard_update',
-        data: { leaderboard },
-        timestamp: Date.now()
-      } as WebSocketMessage);
-
-      // Process team sidegame matches if any exist
-      const currentSidegame = teamSidegameService.getSidegameByRound(activeTournament.id, activeTournament.currentRound);
-      if (currentSidegame && scoreEntries.length > 0) {
-        console.log(`DEBUG: Audio processing ${scoreEntries.length} score entries for ${currentSidegame.gameType}`);
-
-        // Get holes affected by the new score entries
-        const affectedHoles = [...new Set(scoreEntries.map(se => se.hole))];
-
-        affectedHoles.forEach(hole => {
-          console.log(`DEBUG: Processing hole ${hole} for audio entries`);
-
-          if (currentSidegame.gameType === 'all-vs-all') {
-            // For all-vs-all, collect ALL scores for this hole (not just from current audio)
-            const allHoleScores = activeTournament.scores.filter(s =>
-              s.hole === hole && s.round === activeTournament.currentRound
-            );
-
-            console.log(`DEBUG: Found ${allHoleScores.length} total scores for hole ${hole} in all-vs-all (audio)`);
-
-            if (allHoleScores.length > 1) { // Only process if we have multiple scores
-              const holeResults: { [playerName: string]: number } = {};
-
-              allHoleScores.forEach(score => {
-                const player = activeTournament.players.find(p => p.id === score.playerId);
-                if (player) {
-                  const stablefordPoints = scoringService.calculateStablefordPoints(
-                    score.strokes,
-                    score.par,
-                    player.receivedStrokes || 0,
-                    score.hole
-                  );
-                  holeResults[player.name] = stablefordPoints;
-                  console.log(`DEBUG: Player ${player.name} has ${stablefordPoints} Stableford points on hole ${score.hole} (audio)`);
-                }
-              });
-
-              console.log(`DEBUG: Processing all-vs-all match (audio) with ${Object.keys(holeResults).length} players:`, Object.keys(holeResults));
-
-              const teamMatch = teamSidegameService.processHoleMatch(currentSidegame.id, hole, holeResults);
-              if (teamMatch) {
-                console.log(`DEBUG: Created team match for hole ${hole} (audio):`, teamMatch);
-
-                // Emit team match update
-                io.emit('message', {
-                  type: 'team_match_update',
-                  data: { teamMatch, sidegameId: currentSidegame.id },
-                  timestamp: Date.now()
-                } as WebSocketMessage);
-
-                // Emit updated team leaderboard
-                const teamLeaderboard = teamSidegameService.generateTeamLeaderboard(currentSidegame.id);
-                io.emit('message', {
-                  type: 'team_leaderboard_update',
-                  data: { leaderboard: teamLeaderboard, sidegameId: currentSidegame.id },
-                  timestamp: Date.now()
-                } as WebSocketMessage);
-              } else {
-                console.log(`DEBUG: No team match created for hole ${hole} (audio)`);
-              }
-            } else {
-              console.log(`DEBUG: Not enough scores (${allHoleScores.length}) for all-vs-all match on hole ${hole} (audio)`);
+      // Every game is updated once for the whole transcription
+      gameEngine.batch(() => {
+        for (const scoringUpdate of scoringUpdates) {
+          // Wolf partner choices are kept on the Wolf sidegame, not as scores
+          if (scoringUpdate.action === 'wolf') {
+            const wolfChoice = teamSidegameService.processWolfChoice(activeTournament.id, activeTournament.currentRound, scoringUpdate);
+            if (wolfChoice) {
+              emitWolfChoice(wolfChoice.sidegame.id, wolfChoice.choice.hole);
+              ledgerService.syncTournament(activeTournament.id);
             }
-          } else {
-            // For sum-match, process just the scores from this audio transcription
-            const holeResults: { [playerName: string]: number } = {};
-
-            scoreEntries.filter(se => se.hole === hole).forEach(scoreEntry => {
-              const player = activeTournament.players.find(p => p.id === scoreEntry.playerId);
-              if (player) {
-                const holeValue = scoreEntry.strokes - scoreEntry.par;
-                holeResults[player.name] = holeValue;
-                console.log(`DEBUG: Processing sum-match (audio) for player ${player.name}, hole ${hole}, value ${holeValue}`);
-              }
-            });
-
-            if (Object.keys(holeResults).length > 0) {
-              const teamMatch = teamSidegameService.processHoleMatch(currentSidegame.id, hole, holeResults);
-              if (teamMatch) {
-                console.log(`DEBUG: Created team match for sum-match hole ${hole} (audio)`);
-
-                // Emit team match update
-                io.emit('message', {
-                  type: 'team_match_update',
-                  data: { teamMatch, sidegameId: currentSidegame.id },
-                  timestamp: Date.now()
-                } as WebSocketMessage);
-
-                // Emit updated team leaderboard
-                const teamLeaderboard = teamSidegameService.generateTeamLeaderboard(currentSidegame.id);
-                io.emit('message', {
-                  type: 'team_leaderboard_update',
-                  data: { leaderboard: teamLeaderboard, sidegameId: currentSidegame.id },
-                  timestamp: Date.now()
-                } as WebSocketMessage);
-              }
+            continue;
+          }
+
+          // Contest results such as "Henrik closest on 4, two metres"
+          if (scoringUpdate.action === 'contest') {
+            if (contestService.processContestUpdate(activeTournament.id, activeTournament.currentRound, scoringUpdate)) {
+              gameEngine.emitContestUpdate(activeTournament.id, activeTournament.currentRound);
+              ledgerService.syncTournament(activeTournament.id);
             }
+            continue;
           }
-        });
-      }
+
+          const scoreEntry = scoringService.processScoringUpdate(activeTournament.id, scoringUpdate);
+          if (scoreEntry) {
+            scoreEntries.push(scoreEntry);
+
+            const updateType = scoringUpdate.action === 'delete' ? 'score_deletion' : 'scoring_update';
+
+            // Emit individual scoring update
+            io.emit('message', {
+              type: updateType as any,
+              data: { scoreEntry, update: scoringUpdate },
+              timestamp: Date.now()
+            } as WebSocketMessage);
+          }
+        }
+      });
     }
 
     res.json({
@@ -266,12 +194,14 @@ app.get('/api/tournament/:id', (req, res) => {
 
 app.get('/api/tournament/:id/leaderboard', (req, res) => {
   const round = req.query.round ? parseInt(req.query.round as string) : undefined;
-  const leaderboard = scoringService.generateLeaderboard(req.params.id, round);
+  const view = req.query.view === 'cumulative' ? 'cumulative' : 'round';
+  const leaderboard = scoringService.generateLeaderboard(req.params.id, round, view);
   res.json(leaderboard);
 });
 
 app.get('/api/tournament/:id/player/:playerId/scorecard', (req, res) => {
-  const scorecard = scoringService.getPlayerScorecard(req.params.id, req.params.playerId);
+  const round = req.query.round ? parseInt(req.query.round as string) : undefined;
+  const scorecard = scoringService.getPlayerScorecard(req.params.id, req.params.playerId, round);
   if (!scorecard) {
     return res.status(404).json({ error: 'Player or tournament not found' });
   }
@@ -279,15 +209,274 @@ app.get('/api/tournament/:id/player/:playerId/scorecard', (req, res) => {
 });
 
 app.get('/api/active-tournament', (req, res) => {
+  const activeTournament = scoringService.getActiveTournament();
+  if (!activeTournament) {
+    return res.status(404).json({ error: 'No active tournament' });
+  }
   res.json(activeTournament);
 });
 
+// Tournament management endpoints
+app.get('/api/tournaments', (req, res) => {
+  res.json(scoringService.getTournamentSummaries());
+});
+
+app.post('/api/tournaments', (req, res) => {
+  const parsed = TournamentInputSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid tournament', details: parsed.error.issues });
+  }
+
+  const { name, courseId, teeId, players, totalRounds, activate, seedTeams } = parsed.data;
+  // Players may play another of the course's tees, but only one the course has
+  const course = courseService.getCourse(courseId);
+  if (course && players.some(player => typeof player !== 'string' && player.teeId && !course.tees.some(t => t.id === player.teeId))) {
+    return res.status(400).json({ error: 'Tee not found' });
+  }
+
+  const tournament = scoringService.createTournament(name, courseId, players, totalRounds, teeId);
+  if (!tournament) {
+    return res.status(400).json({ error: 'Course or tee not found' });
+  }
+  if (seedTeams) {
+    teamService.seedTeams(tournament.id);
+  }
+
+  // The first tournament becomes active automatically
+  if (activate || !scoringService.getActiveTournament()) {
+    scoringService.setActiveTournament(tournament.id);
+    emitActiveTournamentChanged();
+  }
+
+  res.status(201).json(tournament);
+});
+
+app.post('/api/tournaments/:id/activate', (req, res) => {
+  if (!scoringService.setActiveTournament(req.params.id)) {
+    return res.status(400).json({ error: 'Tournament not found or archived' });
+  }
+  emitActiveTournamentChanged();
+  res.json({ success: true, activeTournamentId: req.params.id });
+});
+
+app.post('/api/tournaments/:id/archive', (req, res) => {
+  const wasActive = scoringService.getActiveTournament()?.id === req.params.id;
+  if (!scoringService.archiveTournament(req.params.id)) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+  if (wasActive) {
+    emitActiveTournamentChanged();
+  }
+  res.json({ success: true });
+});
+
+app.post('/api/tournaments/:id/restore', (req, res) => {
+  if (!scoringService.restoreTournament(req.params.id)) {
+    return res.status(400).json({ error: 'Tournament not found or not archived' });
+  }
+  res.json({ success: true });
+});
+
+app.delete('/api/tournaments/:id', (req, res) => {
+  const wasActive = scoringService.getActiveTournament()?.id === req.params.id;
+  if (!scoringService.deleteTournament(req.params.id)) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+
+  teamSidegameService.clearTournamentSidegames(req.params.id);
+  teamService.clearTournamentTeams(req.params.id);
+  matchPlayService.clearTournamentMatches(req.params.id);
+  contestService.clearTournamentContests(req.params.id);
+  ledgerService.clearTournamentLedger(req.params.id);
+  if (wasActive) {
+    emitActiveTournamentChanged();
+  }
+  res.json({ success: true });
+});
+
+// Contest endpoints
+app.get('/api/tournament/:id/contests', (req, res) => {
+  const tournament = scoringService.getTournament(req.params.id);
+  if (!tournament) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+
+  const round = req.query.round ? parseInt(req.query.round as string) : tournament.currentRound;
+  res.json(contestService.getRoundStatuses(tournament.id, round));
+});
+
+app.post('/api/tournament/:id/round/:round/contests', (req, res) => {
+  const parsed = ContestInputSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid contest', details: parsed.error.issues });
+  }
+
+  const tournament = scoringService.getTournament(req.params.id);
+  if (!tournament) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+  const round = parseRound(tournament, req.params.round);
+  if (round === null) {
+    return res.status(400).json({ error: 'Invalid round' });
+  }
+
+  const contest = contestService.createContest(tournament.id, round, parsed.data);
+  if (!contest) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+
+  gameEngine.emitContestUpdate(contest.tournamentId, round);
+  res.json(contestService.getContestStatus(contest.id));
+});
+
+app.delete('/api/contest/:id', (req, res) => {
+  const contest = contestService.getContest(req.params.id);
+  if (!contest || !contestService.deleteContest(contest.id)) {
+    return res.status(404).json({ error: 'Contest not found' });
+  }
+
+  gameEngine.emitContestUpdate(contest.tournamentId, contest.round);
+  ledgerService.syncTournament(contest.tournamentId);
+  res.json({ success: true });
+});
+
+app.post('/api/contest/:id/result', (req, res) => {
+  const parsed = ContestResultSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid contest result', details: parsed.error.issues });
+  }
+
+  const contest = contestService.recordResult(req.params.id, parsed.data.playerId, parsed.data.measurement);
+  if (!contest) {
+    return res.status(404).json({ error: 'Contest or player not found' });
+  }
+
+  gameEngine.emitContestUpdate(contest.tournamentId, contest.round);
+  ledgerService.syncTournament(contest.tournamentId);
+  res.json(contestService.getContestStatus(contest.id));
+});
+
+app.delete('/api/contest/:id/result/:playerId', (req, res) => {
+  const contest = contestService.removeResult(req.params.id, req.params.playerId);
+  if (!contest) {
+    return res.status(404).json({ error: 'Contest result not found' });
+  }
+
+  gameEngine.emitContestUpdate(contest.tournamentId, contest.round);
+  ledgerService.syncTournament(contest.tournamentId);
+  res.json(contestService.getContestStatus(contest.id));
+});
+
+// Ledger endpoints
+app.get('/api/tournament/:id/ledger', (req, res) => {
+  if (!scoringService.getTournament(req.params.id)) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+  res.json(ledgerService.getEntries(req.params.id));
+});
+
+app.get('/api/tournament/:id/settlement', (req, res) => {
+  if (!scoringService.getTournament(req.params.id)) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+  res.json(ledgerService.getSettlement(req.params.id));
+});
+
+// Player roster endpoints
+app.post('/api/tournament/:id/players', (req, res) => {
+  const parsed = PlayerInputSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid player', details: parsed.error.issues });
+  }
+
+  const tournament = scoringService.getTournament(req.params.id);
+  if (!tournament) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+  const teeId = typeof parsed.data === 'string' ? undefined : parsed.data.teeId;
+  if (teeId && !tournament.tees.some(t => t.id === teeId)) {
+    return res.status(400).json({ error: 'Tee not found' });
+  }
+
+  const player = scoringService.addPlayer(tournament.id, parsed.data);
+  emitLeaderboardUpdate(tournament.id);
+  res.status(201).json(player);
+});
+
+app.put('/api/tournament/:id/players/:playerId', (req, res) => {
+  const parsed = PlayerUpdateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid player update', details: parsed.error.issues });
+  }
+
+  const tournament = scoringService.getTournament(req.params.id);
+  if (!tournament) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+  if (parsed.data.teeId && !tournament.tees.some(t => t.id === parsed.data.teeId)) {
+    return res.status(400).json({ error: 'Tee not found' });
+  }
+  if (parsed.data.fromRound && parsed.data.fromRound > tournament.totalRounds) {
+    return res.status(400).json({ error: 'Invalid round' });
+  }
+
+  const player = scoringService.updatePlayer(tournament.id, req.params.playerId, parsed.data);
+  if (!player) {
+    return res.status(404).json({ error: 'Player not found' });
+  }
+
+  emitLeaderboardUpdate(tournament.id);
+  res.json(player);
+});
+
+app.post('/api/tournament/:id/players/:playerId/withdraw', (req, res) => {
+  const withdrawn = req.body?.withdrawn !== false;
+  const player = scoringService.setPlayerWithdrawn(req.params.id, req.params.playerId, withdrawn);
+  if (!player) {
+    return res.status(404).json({ error: 'Player or tournament not found' });
+  }
+
+  emitLeaderboardUpdate(req.params.id);
+  res.json(player);
+});
+
+app.delete('/api/tournament/:id/players/:playerId', (req, res) => {
+  if (!scoringService.removePlayer(req.params.id, req.params.playerId)) {
+    return res.status(404).json({ error: 'Player or tournament not found' });
+  }
+  teamService.removePlayer(req.params.id, req.params.playerId);
+
+  emitLeaderboardUpdate(req.params.id);
+  res.json({ success: true });
+});
+
+app.put('/api/tournament/:id/settings', (req, res) => {
+  const parsed = TournamentSettingsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid settings', details: parsed.error.issues });
+  }
+
+  const tournament = scoringService.updateSettings(req.params.id, parsed.data);
+  if (!tournament) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+
+  emitLeaderboardUpdate(tournament.id);
+  res.json(tournament.settings);
+});
+
 app.post('/api/tournament/:id/round/:round', (req, res) => {
-  const success = scoringService.setCurrentRound(req.params.id, parseInt(req.params.round));
-  if (!success) {
-    return res.status(400).json({ error: 'Invalid round or tournament' });
+  const tournament = scoringService.getTournament(req.params.id);
+  if (!tournament) {
+    return res.status(404).json({ error: 'Tournament not found' });
   }
-  res.json({ success: true, currentRound: parseInt(req.params.round) });
+  const round = parseRound(tournament, req.params.round);
+  if (round === null) {
+    return res.status(400).json({ error: 'Invalid round' });
+  }
+
+  scoringService.setCurrentRound(tournament.id, round);
+  res.json({ success: true, currentRound: round });
 });
 
 app.post('/api/tournament/:id/advance-round', (req, res) => {
@@ -299,34 +488,322 @@ app.post('/api/tournament/:id/advance-round', (req, res) => {
   res.json({ success: true, currentRound: tournament?.currentRound });
 });
 
-// Team sidegame endpoints
-app.get('/api/teams', (req, res) => {
-  const teams = teamSidegameService.getTeams();
+// Course catalog endpoints
+app.get('/api/courses', (req, res) => {
+  res.json(courseService.getCourses());
+});
+
+app.get('/api/courses/:id', (req, res) => {
+  const course = courseService.getCourse(req.params.id);
+  if (!course) {
+    return res.status(404).json({ error: 'Course not found' });
+  }
+  res.json(course);
+});
+
+app.post('/api/courses', (req, res) => {
+  const parsed = CourseInputSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid course', details: parsed.error.issues });
+  }
+  res.status(201).json(courseService.createCourse(parsed.data));
+});
+
+app.put('/api/courses/:id', (req, res) => {
+  const parsed = CourseInputSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid course', details: parsed.error.issues });
+  }
+
+  const course = courseService.updateCourse(req.params.id, parsed.data);
+  if (!course) {
+    return res.status(404).json({ error: 'Course not found' });
+  }
+  res.json(course);
+});
+
+app.delete('/api/courses/:id', (req, res) => {
+  // Tournaments keep their own copy of par and stroke index, but still reference the course
+  const inUse = scoringService.getTournaments().some(t => t.courseId === req.params.id);
+  if (inUse) {
+    return res.status(409).json({ error: 'Course is used by a tournament' });
+  }
+
+  if (!courseService.deleteCourse(req.params.id)) {
+    return res.status(404).json({ error: 'Course not found' });
+  }
+  res.json({ success: true });
+});
+
+// Team endpoints; without a round the tournament's teams, with one the teams that round plays with
+app.get('/api/tournament/:id/teams', (req, res) => {
+  if (!scoringService.getTournament(req.params.id)) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+
+  const round = req.query.round ? parseInt(req.query.round as string) : undefined;
+  res.json(teamService.getTeams(req.params.id, round));
+});
+
+app.post('/api/tournament/:id/teams', (req, res) => {
+  const parsed = TeamInputSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid team', details: parsed.error.issues });
+  }
+
+  const tournament = scoringService.getTournament(req.params.id);
+  if (!tournament) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+  if (parsed.data.round && parsed.data.round > tournament.totalRounds) {
+    return res.status(400).json({ error: 'Invalid round' });
+  }
+  if (parsed.data.playerIds.some(id => !tournament.players.some(p => p.id === id))) {
+    return res.status(400).json({ error: 'Player not found' });
+  }
+
+  const team = teamService.createTeam(tournament.id, parsed.data);
+  emitTeamsUpdate(tournament.id);
+  res.status(201).json(team);
+});
+
+app.put('/api/team/:id', (req, res) => {
+  const parsed = TeamUpdateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid team update', details: parsed.error.issues });
+  }
+
+  const existing = teamService.getTeam(req.params.id);
+  if (!existing) {
+    return res.status(404).json({ error: 'Team not found' });
+  }
+  const tournament = scoringService.getTournament(existing.tournamentId);
+  if (parsed.data.playerIds?.some(id => !tournament?.players.some(p => p.id === id))) {
+    return res.status(400).json({ error: 'Player not found' });
+  }
+
+  const team = teamService.updateTeam(existing.id, parsed.data);
+  emitTeamsUpdate(existing.tournamentId);
+  res.json(team);
+});
+
+app.delete('/api/team/:id', (req, res) => {
+  const team = teamService.getTeam(req.params.id);
+  if (!team || !teamService.deleteTeam(team.id)) {
+    return res.status(404).json({ error: 'Team not found' });
+  }
+
+  emitTeamsUpdate(team.tournamentId);
+  res.json({ success: true });
+});
+
+app.post('/api/tournament/:id/teams/move', (req, res) => {
+  const parsed = TeamMoveSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid team move', details: parsed.error.issues });
+  }
+
+  const tournament = scoringService.getTournament(req.params.id);
+  if (!tournament) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+  if (!tournament.players.some(p => p.id === parsed.data.playerId)) {
+    return res.status(400).json({ error: 'Player not found' });
+  }
+
+  const teams = teamService.movePlayer(tournament.id, parsed.data.playerId, parsed.data.teamId, parsed.data.round);
+  if (!teams) {
+    return res.status(404).json({ error: 'Team not found' });
+  }
+
+  emitTeamsUpdate(tournament.id);
+  res.json(teams);
+});
+
+// A round gets its own copy of the tournament's teams, or goes back to them
+app.post('/api/tournament/:id/round/:round/teams', (req, res) => {
+  const tournament = scoringService.getTournament(req.params.id);
+  if (!tournament) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+  const round = parseRound(tournament, req.params.round);
+  if (round === null) {
+    return res.status(400).json({ error: 'Invalid round' });
+  }
+
+  const teams = teamService.copyTeamsToRound(tournament.id, round);
+  if (!teams) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+
+  emitTeamsUpdate(tournament.id);
   res.json(teams);
 });
 
+app.delete('/api/tournament/:id/round/:round/teams', (req, res) => {
+  const tournament = scoringService.getTournament(req.params.id);
+  if (!tournament) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+  const round = parseRound(tournament, req.params.round);
+  if (round === null) {
+    return res.status(400).json({ error: 'Invalid round' });
+  }
+
+  if (!teamService.clearRoundTeams(tournament.id, round)) {
+    return res.status(404).json({ error: 'Round has no teams of its own' });
+  }
+
+  emitTeamsUpdate(tournament.id);
+  res.json(teamService.getTeams(tournament.id, round));
+});
+
+// Draw endpoints: previews unless committed; the same seed gives the same draw
+app.post('/api/tournament/:id/draw/teams', (req, res) => {
+  const parsed = TeamDrawSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid team draw', details: parsed.error.issues });
+  }
+
+  const tournament = scoringService.getTournament(req.params.id);
+  if (!tournament) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+  if (parsed.data.round && parsed.data.round > tournament.totalRounds) {
+    return res.status(400).json({ error: 'Invalid round' });
+  }
+  const teamCount = parsed.data.teamCount ?? 2;
+  if (tournament.players.filter(p => !p.withdrawnAt).length < teamCount) {
+    return res.status(400).json({ error: 'Not enough players for the teams' });
+  }
+
+  const draw = drawService.drawTeams(tournament.id, parsed.data);
+  if (draw?.committed) {
+    emitTeamsUpdate(tournament.id);
+  }
+  res.json(draw);
+});
+
+// Groupings are committed by creating the round's all-vs-all sidegame with them
+app.post('/api/tournament/:id/round/:round/draw/groupings', (req, res) => {
+  const parsed = GroupingDrawSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid grouping draw', details: parsed.error.issues });
+  }
+
+  const tournament = scoringService.getTournament(req.params.id);
+  if (!tournament) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+  const round = parseRound(tournament, req.params.round);
+  if (round === null) {
+    return res.status(400).json({ error: 'Invalid round' });
+  }
+
+  res.json(drawService.drawGroupings(tournament.id, round, parsed.data));
+});
+
+// Team sidegame endpoints
+
 app.post('/api/tournament/:id/round/:round/sidegame', (req, res) => {
-  const { gameType, groupings } = req.body;
+  const { gameType, groupings, handicapAllowance, pairs, pairsMode, sumMatch, skins, nassau, wolf, stake, sessionPoints } = req.body;
 
-  if (!gameType || !['all-vs-all', 'sum-match'].includes(gameType)) {
+  if (!gameType || !['all-vs-all', 'sum-match', 'four-ball', 'foursomes', 'greensomes', 'skins', 'nassau', 'wolf'].includes(gameType)) {
     return res.status(400).json({ error: 'Invalid game type' });
   }
 
+  const tournament = scoringService.getTournament(req.params.id);
+  if (!tournament) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+  const round = parseRound(tournament, req.params.round);
+  if (round === null) {
+    return res.status(400).json({ error: 'Invalid round' });
+  }
+
+  const sumMatchSettings = SumMatchSettingsSchema.optional().safeParse(sumMatch);
+  if (!sumMatchSettings.success) {
+    return res.status(400).json({ error: 'Invalid sum-match settings', details: sumMatchSettings.error.issues });
+  }
+
+  const skinsSettings = SkinsSettingsSchema.optional().safeParse(skins);
+  if (!skinsSettings.success) {
+    return res.status(400).json({ error: 'Invalid skins settings', details: skinsSettings.error.issues });
+  }
+
+  const nassauSettings = NassauSettingsSchema.optional().safeParse(nassau);
+  if (!nassauSettings.success) {
+    return res.status(400).json({ error: 'Invalid Nassau settings', details: nassauSettings.error.issues });
+  }
+
+  const wolfSettings = WolfSettingsSchema.optional().safeParse(wolf);
+  if (!wolfSettings.success) {
+    return res.status(400).json({ error: 'Invalid Wolf settings', details: wolfSettings.error.issues });
+  }
+  if (gameType === 'wolf' && !wolfSettings.data) {
+    return res.status(400).json({ error: 'Wolf needs four players in tee order' });
+  }
+  if (stake !== undefined && !StakeSchema.shape.stake.safeParse(stake).success) {
+    return res.status(400).json({ error: 'Invalid stake' });
+  }
+
+  const points = SessionPointsSchema.optional().safeParse(sessionPoints);
+  if (!points.success) {
+    return res.status(400).json({ error: 'Invalid session points', details: points.error.issues });
+  }
+
+  const allowance = HandicapAllowanceSchema.optional().safeParse(handicapAllowance);
+  if (!allowance.success) {
+    return res.status(400).json({ error: 'Invalid handicap allowance', details: allowance.error.issues });
+  }
+
+  const parsedPairs = SidegamePairSchema.array().optional().safeParse(pairs);
+  if (!parsedPairs.success) {
+    return res.status(400).json({ error: 'Invalid pairs', details: parsedPairs.error.issues });
+  }
+  if (isPairsFormat(gameType) && (parsedPairs.data || []).length < 2) {
+    return res.status(400).json({ error: 'Pairs formats need at least two pairs' });
+  }
+  if (gameType === 'nassau' && !nassauSettings.data?.playerIds && (parsedPairs.data || []).length !== 2) {
+    return res.status(400).json({ error: 'A Nassau needs two players or two pairs' });
+  }
+  if (pairsMode !== undefined && !['stroke', 'match'].includes(pairsMode)) {
+    return res.status(400).json({ error: 'Invalid pairs mode' });
+  }
+
   const sidegame = teamSidegameService.createSidegame(
-    req.params.id,
-    parseInt(req.params.round),
+    tournament.id,
+    round,
     gameType,
-    groupings
+    {
+      groupings,
+      handicapAllowance: allowance.data,
+      pairs: parsedPairs.data,
+      pairsMode,
+      sumMatch: sumMatchSettings.data,
+      skins: skinsSettings.data,
+      nassau: nassauSettings.data,
+      wolf: wolfSettings.data,
+      stake: stake ?? undefined,
+      sessionPoints: points.data,
+    }
   );
 
+  ledgerService.syncTournament(sidegame.tournamentId);
   res.json(sidegame);
 });
 
 app.get('/api/tournament/:id/round/:round/sidegame', (req, res) => {
-  const sidegame = teamSidegameService.getSidegameByRound(
-    req.params.id,
-    parseInt(req.params.round)
-  );
+  const tournament = scoringService.getTournament(req.params.id);
+  if (!tournament) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+  const round = parseRound(tournament, req.params.round);
+  if (round === null) {
+    return res.status(400).json({ error: 'Invalid round' });
+  }
+
+  const sidegame = teamSidegameService.getSidegameByRound(tournament.id, round);
 
   if (!sidegame) {
     return res.status(404).json({ error: 'No sidegame found for this round' });
@@ -335,16 +812,265 @@ app.get('/api/tournament/:id/round/:round/sidegame', (req, res) => {
   res.json(sidegame);
 });
 
+app.get('/api/tournament/:id/sidegames', (req, res) => {
+  res.json(teamSidegameService.getSidegamesByTournament(req.params.id));
+});
+
+// Rescores the sum-match's played holes under the new rules
+app.put('/api/sidegame/:id/sum-match', (req, res) => {
+  const parsed = SumMatchSettingsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid sum-match settings', details: parsed.error.issues });
+  }
+
+  const sidegame = teamSidegameService.setSumMatchSettings(req.params.id, parsed.data);
+  if (!sidegame) {
+    return res.status(404).json({ error: 'Sum-match sidegame not found' });
+  }
+
+  io.emit('message', {
+    type: 'team_leaderboard_update',
+    data: { leaderboard: teamSidegameService.generateTeamLeaderboard(sidegame.id), sidegameId: sidegame.id },
+    timestamp: Date.now()
+  } as WebSocketMessage);
+  ledgerService.syncTournament(sidegame.tournamentId);
+  res.json(sidegame);
+});
+
+// Team competition points the round's team sidegame awards per match won or halved
+app.put('/api/sidegame/:id/session-points', (req, res) => {
+  const parsed = SessionPointsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid session points', details: parsed.error.issues });
+  }
+
+  const sidegame = teamSidegameService.setSessionPoints(req.params.id, parsed.data);
+  if (!sidegame) {
+    return res.status(404).json({ error: 'Team sidegame not found' });
+  }
+  res.json(sidegame);
+});
+
+app.get('/api/tournament/:id/team-standings', (req, res) => {
+  const standings = teamCompetitionService.getStandings(req.params.id);
+  if (!standings) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+  res.json(standings);
+});
+
+// Money per point, skin or Nassau bet; results are posted to the tournament ledger
+app.put('/api/sidegame/:id/stake', (req, res) => {
+  const parsed = StakeSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid stake', details: parsed.error.issues });
+  }
+
+  const sidegame = teamSidegameService.setStake(req.params.id, parsed.data.stake);
+  if (!sidegame) {
+    return res.status(404).json({ error: 'Sidegame not found' });
+  }
+
+  ledgerService.syncTournament(sidegame.tournamentId);
+  res.json(sidegame);
+});
+
 app.get('/api/sidegame/:id/leaderboard', (req, res) => {
   const leaderboard = teamSidegameService.generateTeamLeaderboard(req.params.id);
   res.json(leaderboard);
 });
 
+app.get('/api/sidegame/:id/skins', (req, res) => {
+  const skins = teamSidegameService.getSkins(req.params.id);
+  if (!skins) {
+    return res.status(404).json({ error: 'Skins game not found' });
+  }
+  res.json(skins);
+});
+
+app.get('/api/sidegame/:id/nassau', (req, res) => {
+  const nassau = teamSidegameService.getNassau(req.params.id);
+  if (!nassau) {
+    return res.status(404).json({ error: 'Nassau not found' });
+  }
+  res.json(nassau);
+});
+
+// All Nassau games of a round, as several groups can play their own
+app.get('/api/tournament/:id/round/:round/nassau', (req, res) => {
+  const tournament = scoringService.getTournament(req.params.id);
+  if (!tournament) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+  const round = parseRound(tournament, req.params.round);
+  if (round === null) {
+    return res.status(400).json({ error: 'Invalid round' });
+  }
+
+  const games = teamSidegameService.getSidegamesByRound(tournament.id, round)
+    .filter(sidegame => sidegame.gameType === 'nassau')
+    .map(sidegame => teamSidegameService.getNassau(sidegame.id))
+    .filter(nassau => nassau !== null);
+  res.json(games);
+});
+
+// All Wolf games of a round, one per group of four
+app.get('/api/tournament/:id/round/:round/wolf', (req, res) => {
+  const tournament = scoringService.getTournament(req.params.id);
+  if (!tournament) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+  const round = parseRound(tournament, req.params.round);
+  if (round === null) {
+    return res.status(400).json({ error: 'Invalid round' });
+  }
+
+  const games = teamSidegameService.getSidegamesByRound(tournament.id, round)
+    .filter(sidegame => sidegame.gameType === 'wolf')
+    .map(sidegame => teamSidegameService.getWolf(sidegame.id))
+    .filter(wolf => wolf !== null);
+  res.json(games);
+});
+
+app.get('/api/sidegame/:id/wolf', (req, res) => {
+  const wolf = teamSidegameService.getWolf(req.params.id);
+  if (!wolf) {
+    return res.status(404).json({ error: 'Wolf game not found' });
+  }
+  res.json(wolf);
+});
+
+// The wolf's partner for a hole, or a lone wolf with partnerId null
+app.post('/api/sidegame/:id/wolf-choice', (req, res) => {
+  const parsed = WolfChoiceSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid wolf choice', details: parsed.error.issues });
+  }
+
+  const sidegame = teamSidegameService.getSidegame(req.params.id);
+  if (!sidegame || sidegame.gameType !== 'wolf') {
+    return res.status(404).json({ error: 'Wolf game not found' });
+  }
+
+  const choice = teamSidegameService.recordWolfChoice(sidegame.id, parsed.data.hole, parsed.data.partnerId);
+  if (!choice) {
+    return res.status(400).json({ error: 'Partner must be one of the other players in the group' });
+  }
+
+  emitWolfChoice(sidegame.id, choice.hole);
+  ledgerService.syncTournament(sidegame.tournamentId);
+  res.json(choice);
+});
+
+app.get('/api/sidegame/:id/pairs', (req, res) => {
+  const sidegame = teamSidegameService.getSidegame(req.params.id);
+  if (!sidegame) {
+    return res.status(404).json({ error: 'Sidegame not found' });
+  }
+  res.json(teamSidegameService.getPairsLeaderboard(sidegame.id));
+});
+
+// Score for the one ball a pair plays in foursomes and greensomes
+app.post('/api/sidegame/:id/side-score', (req, res) => {
+  const parsed = SideScoreSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid side score', details: parsed.error.issues });
+  }
+
+  const sidegame = teamSidegameService.getSidegame(req.params.id);
+  if (!sidegame) {
+    return res.status(404).json({ error: 'Sidegame not found' });
+  }
+  if (!isOneBallFormat(sidegame.gameType)) {
+    return res.status(400).json({ error: 'Side scores are only used in foursomes and greensomes' });
+  }
+
+  const side = sidegame.pairs?.find(pair => pair.id === parsed.data.sideId);
+  if (!side) {
+    return res.status(404).json({ error: 'Pair not found' });
+  }
+
+  const scoreEntry = scoringService.processSideScore(sidegame.tournamentId, side, sidegame.round, parsed.data.hole, parsed.data.strokes);
+  if (!scoreEntry) {
+    return res.status(400).json({ error: 'Failed to process side score' });
+  }
+
+  res.json(scoreEntry);
+});
+
 app.get('/api/sidegame/:id/sum-match/scorecard', (req, res) => {
   const scorecard = teamSidegameService.getSumMatchLiveScorecard(req.params.id);
   res.json(scorecard);
 });
 
+// Match play endpoints
+app.get('/api/tournament/:id/matchplay', (req, res) => {
+  const tournament = scoringService.getTournament(req.params.id);
+  if (!tournament) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+
+  const round = req.query.round ? parseInt(req.query.round as string) : tournament.currentRound;
+  res.json(matchPlayService.getRoundStatuses(tournament.id, round));
+});
+
+app.post('/api/tournament/:id/round/:round/matchplay', (req, res) => {
+  const parsed = MatchPlayInputSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid match', details: parsed.error.issues });
+  }
+
+  const tournament = scoringService.getTournament(req.params.id);
+  if (!tournament) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+  const round = parseRound(tournament, req.params.round);
+  if (round === null) {
+    return res.status(400).json({ error: 'Invalid round' });
+  }
+
+  const match = matchPlayService.createMatch(tournament.id, round, parsed.data);
+  if (!match) {
+    return res.status(400).json({ error: 'Unknown player, or a player is already paired this round' });
+  }
+
+  gameEngine.emitMatchPlayUpdate(tournament.id, round);
+  res.status(201).json(matchPlayService.getMatchStatus(match.id));
+});
+
+app.get('/api/matchplay/:id', (req, res) => {
+  const status = matchPlayService.getMatchStatus(req.params.id);
+  if (!status) {
+    return res.status(404).json({ error: 'Match not found' });
+  }
+  res.json(status);
+});
+
+app.post('/api/matchplay/:id/concede', (req, res) => {
+  const parsed = MatchPlayConcessionSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: 'Invalid concession', details: parsed.error.issues });
+  }
+
+  const match = matchPlayService.concede(req.params.id, parsed.data);
+  if (!match) {
+    return res.status(404).json({ error: 'Match or player not found' });
+  }
+
+  gameEngine.emitMatchPlayUpdate(match.tournamentId, match.round);
+  res.json(matchPlayService.getMatchStatus(match.id));
+});
+
+app.delete('/api/matchplay/:id', (req, res) => {
+  const match = matchPlayService.getMatch(req.params.id);
+  if (!match || !matchPlayService.deleteMatch(match.id)) {
+    return res.status(404).json({ error: 'Match not found' });
+  }
+
+  gameEngine.emitMatchPlayUpdate(match.tournamentId, match.round);
+  res.json({ success: true });
+});
+
 // Clear tournament data endpoint
 app.post('/api/tournament/:id/clear', (req, res) => {
   try {
@@ -356,8 +1082,11 @@ app.post('/api/tournament/:id/clear', (req, res) => {
       return res.status(404).json({ error: 'Tournament not found' });
     }
 
-    // Clear team sidegames for this tournament
+    // Clear team sidegames, match play, contests and the ledger for this tournament
     teamSidegameService.clearTournamentSidegames(tournamentId);
+    matchPlayService.clearTournamentMatches(tournamentId);
+    contestService.clearTournamentContests(tournamentId);
+    ledgerService.clearTournamentLedger(tournamentId);
 
     // Emit leaderboard update with empty data
     io.emit('message', {
@@ -389,7 +1118,12 @@ app.post('/api/tournament/:id/manual-score', (req, res) => {
       return res.status(400).json({ error: 'Missing required fields: playerId, hole, strokes' });
     }
 
-    const player = activeTournament.players.find(p => p.id === playerId);
+    const tournament = scoringService.getTournament(req.params.id);
+    if (!tournament) {
+      return res.status(404).json({ error: 'Tournament not found' });
+    }
+
+    const player = tournament.players.find(p => p.id === playerId);
     if (!player) {
       return res.status(404).json({ error: 'Player not found' });
     }
@@ -403,117 +1137,23 @@ app.post('/api/tournament/:id/manual-score', (req, res) => {
       rawTranscription: `Manual entry: ${player.name} hole ${hole} ${strokes === null ? 'deleted' : strokes + ' strokes'}`
     };
 
-    const scoreEntry = scoringService.processScoringUpdate(activeTournament.id, scoringUpdate);
+    // The games follow once the score itself has gone out to all clients
+    const scoreEntry = gameEngine.batch(() => {
+      const entry = scoringService.processScoringUpdate(tournament.id, scoringUpdate);
+      if (entry) {
+        const updateType = scoringUpdate.action === 'delete' ? 'score_deletion' : 'scoring_update';
+        io.emit('message', {
+          type: updateType as any,
+          data: { scoreEntry: entry, update: scoringUpdate },
+          timestamp: Date.now()
+        });
+      }
+      return entry;
+    });
     if (!scoreEntry) {
       return res.status(400).json({ error: 'Failed to process score update' });
     }
 
-    // Emit updates to all clients
-    const updateType = scoringUpdate.action === 'delete' ? 'score_deletion' : 'scoring_update';
-    io.emit('message', {
-      type: updateType as any,
-      data: { scoreEntry, update: scoringUpdate },
-      timestamp: Date.now()
-    });
-
-    // Emit leaderboard update
-    const leaderboard = scoringService.generateLeaderboard(activeTournament.id);
-    io.emit('message', {
-      type: 'leaderboard_update',
-      data: { leaderboard },
-      timestamp: Date.now()
-    });
-
-    // Process team sidegame matches if any exist
-    const currentSidegame = teamSidegameService.getSidegameByRound(activeTournament.id, activeTournament.currentRound);
-    if (currentSidegame && scoreEntry) {
-      console.log(`DEBUG: Processing team sidegame for ${currentSidegame.gameType}, hole ${scoreEntry.hole}, player ${player.name}`);
-
-      // For all-vs-all matches, we need to collect all scores for this hole from all players
-      // For sum-match, we can process individual scores as they come in
-
-      if (currentSidegame.gameType === 'all-vs-all') {
-        // For all-vs-all, collect all players' scores for this hole
-        const holeScores = activeTournament.scores.filter(s =>
-          s.hole === scoreEntry.hole && s.round === activeTournament.currentRound
-        );
-
-        console.log(`DEBUG: Found ${holeScores.length} scores for hole ${scoreEntry.hole} in all-vs-all`);
-
-        if (holeScores.length > 1) { // Only process if we have multiple scores
-          const holeResults: { [playerName: string]: number } = {};
-
-          holeScores.forEach(score => {
-            const scorePlayer = activeTournament.players.find(p => p.id === score.playerId);
-            if (scorePlayer) {
-              const stablefordPoints = scoringService.calculateStablefordPoints(
-                score.strokes,
-                score.par,
-                scorePlayer.receivedStrokes || 0,
-                score.hole
-              );
-              holeResults[scorePlayer.name] = stablefordPoints;
-              console.log(`DEBUG: Player ${scorePlayer.name} has ${stablefordPoints} Stableford points on hole ${score.hole}`);
-            }
-          });
-
-          console.log(`DEBUG: Processing all-vs-all match with ${Object.keys(holeResults).length} players:`, Object.keys(holeResults));
-
-          const teamMatch = teamSidegameService.processHoleMatch(currentSidegame.id, scoreEntry.hole, holeResults);
-          if (teamMatch) {
-            console.log(`DEBUG: Created team match for hole ${scoreEntry.hole}:`, teamMatch);
-
-            // Emit team match update
-            io.emit('message', {
-              type: 'team_match_update',
-              data: { teamMatch, sidegameId: currentSidegame.id },
-              timestamp: Date.now()
-            });
-
-            // Emit updated team leaderboard
-            const teamLeaderboard = teamSidegameService.generateTeamLeaderboard(currentSidegame.id);
-            io.emit('message', {
-              type: 'team_leaderboard_update',
-              data: { leaderboard: teamLeaderboard, sidegameId: currentSidegame.id },
-              timestamp: Date.now()
-            });
-          } else {
-            console.log(`DEBUG: No team match created for hole ${scoreEntry.hole}`);
-          }
-        } else {
-          console.log(`DEBUG: Not enough scores (${holeScores.length}) for all-vs-all match on hole ${scoreEntry.hole}`);
-        }
-      } else {
-        // For sum-match, use strokes vs par (lower is better) - process individual scores
-        const holeValue = scoreEntry.strokes - scoreEntry.par;
-        const holeResults: { [playerName: string]: number } = {
-          [player.name]: holeValue
-        };
-
-        console.log(`DEBUG: Processing sum-match for player ${player.name}, hole ${scoreEntry.hole}, value ${holeValue}`);
-
-        const teamMatch = teamSidegameService.processHoleMatch(currentSidegame.id, scoreEntry.hole, holeResults);
-        if (teamMatch) {
-          console.log(`DEBUG: Created team match for sum-match hole ${scoreEntry.hole}`);
-
-          // Emit team match update
-          io.emit('message', {
-            type: 'team_match_update',
-            data: { teamMatch, sidegameId: currentSidegame.id },
-            timestamp: Date.now()
-          });
-
-          // Emit updated team leaderboard
-          const teamLeaderboard = teamSidegameService.generateTeamLeaderboard(currentSidegame.id);
-          io.emit('message', {
-            type: 'team_leaderboard_update',
-            data: { leaderboard: teamLeaderboard, sidegameId: currentSidegame.id },
-            timestamp: Date.now()
-          });
-        }
-      }
-    }
-
     res.json({
       success: true,
       scoreEntry,
@@ -525,14 +1165,75 @@ app.post('/api/tournament/:id/manual-score', (req, res) => {
   }
 });
 
-io.on('connection', (socket) => {
-  console.log('Client connected:', socket.id);
+// A round of the tournament from a route parameter: an integer from 1 to its number of rounds
+function parseRound(tournament: Tournament, value: string): number | null {
+  const round = Number(value);
+  return Number.isInteger(round) && round >= 1 && round <= tournament.totalRounds ? round : null;
+}
 
-  socket.emit('message', {
+// Push a fresh leaderboard when the active tournament's data changed outside of scoring. Roster,
+// handicap and settings changes can move sidegame results too, so the ledger follows.
+function emitLeaderboardUpdate(tournamentId: string) {
+  ledgerService.syncTournament(tournamentId);
+  if (scoringService.getActiveTournament()?.id !== tournamentId) return;
+
+  io.emit('message', {
+    type: 'leaderboard_update',
+    data: { leaderboard: scoringService.generateLeaderboard(tournamentId) },
+    timestamp: Date.now()
+  } as WebSocketMessage);
+}
+
+// Team changes move players' points between teams, so the team standings and the ledger follow
+function emitTeamsUpdate(tournamentId: string) {
+  io.emit('message', {
+    type: 'teams_update',
+    data: { tournamentId },
+    timestamp: Date.now()
+  } as WebSocketMessage);
+
+  ledgerService.syncTournament(tournamentId);
+}
+
+// Push Wolf points as soon as the wolf has chosen, before the hole is decided
+function emitWolfChoice(sidegameId: string, hole: number) {
+  const wolf = teamSidegameService.getWolf(sidegameId);
+  if (!wolf) return;
+
+  io.emit('message', {
+    type: 'team_match_update',
+    data: { wolf, holes: [hole], sidegameId },
+    timestamp: Date.now()
+  } as WebSocketMessage);
+}
+
+// Tell clients to reload tournament data after the active tournament changes
+function emitActiveTournamentChanged() {
+  const activeTournament = scoringService.getActiveTournament();
+  io.emit('message', {
+    type: 'active_tournament_changed',
+    data: { tournamentId: activeTournament?.id || null },
+    timestamp: Date.now()
+  } as WebSocketMessage);
+
+  io.emit('message', {
     type: 'leaderboard_update',
-    data: { leaderboard: scoringService.generateLeaderboard(activeTournament.id) },
+    data: { leaderboard: activeTournament ? scoringService.generateLeaderboard(activeTournament.id) : [] },
     timestamp: Date.now()
   } as WebSocketMessage);
+}
+
+io.on('connection', (socket) => {
+  console.log('Client connected:', socket.id);
+
+  const activeTournament = scoringService.getActiveTournament();
+  if (activeTournament) {
+    socket.emit('message', {
+      type: 'leaderboard_update',
+      data: { leaderboard: scoringService.generateLeaderboard(activeTournament.id) },
+      timestamp: Date.now()
+    } as WebSocketMessage);
+  }
 
   socket.on('disconnect', () => {
     console.log('Client disconnected:', socket.id);
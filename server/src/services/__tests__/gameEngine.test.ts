@@ -0,0 +1,39 @@
+import { WebSocketMessage } from '../../types';
+import { GameEngine } from '../gameEngine';
+import { MatchPlayService } from '../matchPlay';
+import { createServices } from './setup';
+
+describe('GameEngine', () => {
+  it('clears an all-vs-all hole once a deleted score leaves it below two scores', () => {
+    const { scoringService, teamService, teamSidegameService, contestService, ledgerService, tournament, playerId } = createServices(['A', 'B']);
+    teamService.createTeam(tournament.id, { name: 'Red', color: '#ff0000', playerIds: [playerId('A')] });
+    teamService.createTeam(tournament.id, { name: 'Blue', color: '#0000ff', playerIds: [playerId('B')] });
+    const sidegame = teamSidegameService.createSidegame(tournament.id, 1, 'all-vs-all');
+
+    const messages: WebSocketMessage[] = [];
+    new GameEngine(scoringService, teamSidegameService, new MatchPlayService(scoringService), contestService, ledgerService, message => messages.push(message));
+
+    scoringService.processScoringUpdate(tournament.id, { player: 'A', hole: 1, strokes: 3, action: 'score', rawTranscription: '' });
+    scoringService.processScoringUpdate(tournament.id, { player: 'B', hole: 1, strokes: 5, action: 'score', rawTranscription: '' });
+    expect(teamSidegameService.getSidegame(sidegame.id)?.matches.map(m => m.hole)).toEqual([1]);
+
+    messages.length = 0;
+    scoringService.processScoringUpdate(tournament.id, { player: 'B', hole: 1, strokes: null, action: 'delete', rawTranscription: '' });
+
+    expect(teamSidegameService.getSidegame(sidegame.id)?.matches).toEqual([]);
+    expect(messages.map(m => m.type)).toContain('team_leaderboard_update');
+  });
+
+  it('publishes the leaderboard only for the active tournament', () => {
+    const { scoringService, teamSidegameService, contestService, ledgerService, tournament } = createServices(['A', 'B']);
+    const messages: WebSocketMessage[] = [];
+    new GameEngine(scoringService, teamSidegameService, new MatchPlayService(scoringService), contestService, ledgerService, message => messages.push(message));
+
+    scoringService.processScoringUpdate(tournament.id, { player: 'A', hole: 1, strokes: 4, action: 'score', rawTranscription: '' });
+    expect(messages.map(m => m.type)).not.toContain('leaderboard_update');
+
+    scoringService.setActiveTournament(tournament.id);
+    scoringService.processScoringUpdate(tournament.id, { player: 'A', hole: 2, strokes: 4, action: 'score', rawTranscription: '' });
+    expect(messages.map(m => m.type)).toContain('leaderboard_update');
+  });
+});
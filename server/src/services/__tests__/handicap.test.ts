@@ -0,0 +1,65 @@
+import {
+  calculateCourseHandicap,
+  calculateMaxHoleScore,
+  calculatePlayingHandicap,
+  calculateScoreDifferential,
+  getMixedTeeAdjustment,
+  HANDICAP_ALLOWANCES,
+} from '../handicap';
+
+describe('calculateCourseHandicap', () => {
+  it('scales the handicap index by slope and adds course rating minus par', () => {
+    // 18.4 × 133 ÷ 113 + (72.7 - 72) = 22.36
+    expect(calculateCourseHandicap(18.4, 133, 72.7, 72)).toBe(22);
+    expect(calculateCourseHandicap(10, 113, 72, 72)).toBe(10);
+  });
+
+  it('gives a scratch player on an easy course a plus handicap', () => {
+    expect(calculateCourseHandicap(0, 113, 69.4, 72)).toBe(-3);
+  });
+});
+
+describe('getMixedTeeAdjustment', () => {
+  it('gives players on a tee with a higher par the difference', () => {
+    expect(getMixedTeeAdjustment(74, 72)).toBe(2);
+    expect(getMixedTeeAdjustment(72, 72)).toBe(0);
+  });
+});
+
+describe('calculatePlayingHandicap', () => {
+  it('uses the full course handicap without an allowance', () => {
+    expect(calculatePlayingHandicap(17, undefined)).toBe(17);
+  });
+
+  it('applies the mixed-tee adjustment before the allowance', () => {
+    // Course handicap 10 on a tee playing 3 over the base par, at the 50% foursomes allowance
+    expect(calculatePlayingHandicap(10, HANDICAP_ALLOWANCES['foursomes'], getMixedTeeAdjustment(75, 72))).toBe(7);
+    // 85% four-ball: (20 + 2) × 0.85 = 18.7
+    expect(calculatePlayingHandicap(20, HANDICAP_ALLOWANCES['four-ball'], 2)).toBe(19);
+  });
+
+  it('never gives negative strokes', () => {
+    expect(calculatePlayingHandicap(1, HANDICAP_ALLOWANCES['individual-stroke-play'], -3)).toBe(0);
+  });
+});
+
+describe('calculateMaxHoleScore', () => {
+  it('caps a hole at net double bogey by default', () => {
+    expect(calculateMaxHoleScore(4, 0, 1)).toBe(6);
+    // 20 strokes: two on stroke index 1 and 2, one elsewhere
+    expect(calculateMaxHoleScore(4, 20, 2)).toBe(8);
+    expect(calculateMaxHoleScore(4, 20, 3)).toBe(7);
+  });
+
+  it('caps a hole at par plus X when configured', () => {
+    expect(calculateMaxHoleScore(4, 20, 1, { method: 'par-plus', overPar: 2 })).toBe(6);
+    expect(calculateMaxHoleScore(5, 0, 1, { method: 'par-plus' })).toBe(8);
+  });
+});
+
+describe('calculateScoreDifferential', () => {
+  it('scales the adjusted gross score over the course rating by 113 over slope', () => {
+    expect(calculateScoreDifferential(85, 72.7, 133)).toBe(10.5);
+    expect(calculateScoreDifferential(70, 72, 113)).toBe(-2);
+  });
+});
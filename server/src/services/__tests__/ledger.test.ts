@@ -0,0 +1,78 @@
+import fs from 'fs';
+import { createServices } from './setup';
+
+describe('LedgerService', () => {
+  it('shares a team amount between the team players so every posting sums to zero', () => {
+    const { scoringService, teamService, teamSidegameService, ledgerService, tournament, playerId } = createServices(['A', 'B', 'C', 'D', 'E']);
+    teamService.createTeam(tournament.id, { name: 'Red', color: '#ff0000', playerIds: ['A', 'B', 'C'].map(playerId), round: 1 });
+    teamService.createTeam(tournament.id, { name: 'Blue', color: '#0000ff', playerIds: ['D', 'E'].map(playerId), round: 1 });
+    teamSidegameService.createSidegame(tournament.id, 1, 'sum-match', { stake: 1 });
+
+    ['A', 'B', 'C'].forEach(player => scoringService.processScoringUpdate(tournament.id, { player, hole: 1, strokes: 3, action: 'score', rawTranscription: '' }));
+    ['D', 'E'].forEach(player => scoringService.processScoringUpdate(tournament.id, { player, hole: 1, strokes: 5, action: 'score', rawTranscription: '' }));
+    teamSidegameService.processHoleMatch(teamSidegameService.getSidegameByRound(tournament.id, 1)!.id, 1, {});
+    ledgerService.syncTournament(tournament.id);
+
+    const entries = ledgerService.getEntries(tournament.id);
+    expect(entries.reduce((sum, entry) => sum + entry.amount, 0)).toBeCloseTo(0, 5);
+    expect(entries.find(entry => entry.playerName === 'D')?.amount).toBe(-1);
+
+    const settlement = ledgerService.getSettlement(tournament.id);
+    const paid = settlement.transfers.reduce((sum, transfer) => sum + transfer.amount, 0);
+    expect(paid).toBeCloseTo(2, 5);
+  });
+
+  it('leaves the ledger file alone when a sync changes nothing', () => {
+    const { scoringService, teamService, teamSidegameService, ledgerService, tournament, playerId } = createServices(['A', 'B']);
+    teamService.createTeam(tournament.id, { name: 'Red', color: '#ff0000', playerIds: [playerId('A')], round: 1 });
+    teamService.createTeam(tournament.id, { name: 'Blue', color: '#0000ff', playerIds: [playerId('B')], round: 1 });
+    const sidegame = teamSidegameService.createSidegame(tournament.id, 1, 'sum-match', { stake: 1 });
+    scoringService.processScoringUpdate(tournament.id, { player: 'A', hole: 1, strokes: 3, action: 'score', rawTranscription: '' });
+    scoringService.processScoringUpdate(tournament.id, { player: 'B', hole: 1, strokes: 4, action: 'score', rawTranscription: '' });
+    teamSidegameService.processHoleMatch(sidegame.id, 1, {});
+    ledgerService.syncTournament(tournament.id);
+
+    const ids = ledgerService.getEntries(tournament.id).map(entry => entry.id);
+    const write = jest.spyOn(fs, 'writeFileSync');
+    ledgerService.syncTournament(tournament.id);
+
+    expect(write).not.toHaveBeenCalled();
+    expect(ledgerService.getEntries(tournament.id).map(entry => entry.id)).toEqual(ids);
+  });
+
+  it('drops the entries of a deleted contest', () => {
+    const { contestService, ledgerService, tournament, playerId } = createServices(['A', 'B', 'C']);
+    const contest = contestService.createContest(tournament.id, 1, { type: 'closest-to-pin', hole: 4, prize: 5 })!;
+    contestService.recordResult(contest.id, playerId('A'), 2);
+    ledgerService.syncTournament(tournament.id);
+    expect(ledgerService.getEntries(tournament.id).map(entry => [entry.playerName, entry.amount])).toEqual([['A', 10], ['B', -5], ['C', -5]]);
+
+    contestService.deleteContest(contest.id);
+    ledgerService.syncTournament(tournament.id);
+
+    expect(ledgerService.getEntries(tournament.id)).toEqual([]);
+  });
+
+  it('settles a Nassau side against side when one side has lost a player', () => {
+    const { scoringService, teamSidegameService, ledgerService, tournament, playerId } = createServices(['A', 'B', 'C', 'D']);
+    teamSidegameService.createSidegame(tournament.id, 1, 'nassau', {
+      pairs: [{ playerIds: [playerId('A'), playerId('B')] }, { playerIds: [playerId('C'), playerId('D')] }],
+      nassau: { basis: 'gross', stake: 1, presses: { enabled: false, trigger: 2, onPresses: true, overall: false } },
+    });
+
+    // A birdies the front nine, which is the only bet decided
+    for (let hole = 1; hole <= 9; hole++) {
+      ['A', 'B', 'C', 'D'].forEach(player =>
+        scoringService.processScoringUpdate(tournament.id, { player, hole, strokes: player === 'A' ? 3 : 4, action: 'score', rawTranscription: '' }));
+    }
+    const amounts = () => Object.fromEntries(ledgerService.getEntries(tournament.id).map(entry => [entry.playerName, entry.amount]));
+
+    ledgerService.syncTournament(tournament.id);
+    expect(amounts()).toEqual({ A: 1, B: 1, C: -1, D: -1 });
+
+    // C now carries the side's whole loss
+    scoringService.removePlayer(tournament.id, playerId('D'));
+    ledgerService.syncTournament(tournament.id);
+    expect(amounts()).toEqual({ A: 1, B: 1, C: -2 });
+  });
+});
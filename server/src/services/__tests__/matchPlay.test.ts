@@ -0,0 +1,51 @@
+import { ScoringUpdate } from '../../types';
+import { describeMatchResult, MatchPlayService } from '../matchPlay';
+import { createServices } from './setup';
+
+const score = (player: string, hole: number, strokes: number): ScoringUpdate => ({ player, hole, strokes, action: 'score', rawTranscription: '' });
+
+describe('describeMatchResult', () => {
+  it('reports a match under way', () => {
+    expect(describeMatchResult(0, 0)).toEqual({ state: 'not-started', result: 'Not started' });
+    expect(describeMatchResult(0, 5)).toEqual({ state: 'in-progress', result: 'AS thru 5' });
+    expect(describeMatchResult(2, 11)).toEqual({ state: 'in-progress', result: '2 UP thru 11' });
+  });
+
+  it('reports dormie when the lead equals the holes left', () => {
+    expect(describeMatchResult(3, 15)).toEqual({ state: 'dormie', result: 'Dormie 3 UP' });
+  });
+
+  it('reports a decided match', () => {
+    expect(describeMatchResult(4, 15)).toEqual({ state: 'complete', result: '4&3' });
+    expect(describeMatchResult(1, 18)).toEqual({ state: 'complete', result: '1 UP' });
+    expect(describeMatchResult(0, 18)).toEqual({ state: 'complete', result: 'Halved' });
+  });
+});
+
+describe('MatchPlayService', () => {
+  it('gives the higher handicap the difference by stroke index in a net match', () => {
+    const { scoringService, tournament, playerId } = createServices([{ name: 'A', handicap: 2 }, { name: 'B', handicap: 0 }]);
+    const matchPlayService = new MatchPlayService(scoringService);
+    const match = matchPlayService.createMatch(tournament.id, 1, { playerIds: [playerId('A'), playerId('B')], scoring: 'net' })!;
+
+    // A's two strokes fall on holes 1 and 2; B wins hole 3
+    [1, 2, 3].forEach(hole => {
+      scoringService.processScoringUpdate(tournament.id, score('A', hole, 4));
+      scoringService.processScoringUpdate(tournament.id, score('B', hole, hole === 3 ? 3 : 4));
+    });
+
+    const status = matchPlayService.getMatchStatus(match.id)!;
+    expect(status.holes.map(h => h.winnerId)).toEqual([playerId('A'), playerId('A'), playerId('B')]);
+    expect(status).toMatchObject({ leaderId: playerId('A'), lead: 1, result: '1 UP thru 3' });
+  });
+
+  it('ends a conceded match in favour of the other player', () => {
+    const { scoringService, tournament, playerId } = createServices(['A', 'B']);
+    const matchPlayService = new MatchPlayService(scoringService);
+    const match = matchPlayService.createMatch(tournament.id, 1, { playerIds: [playerId('A'), playerId('B')], scoring: 'gross' })!;
+
+    matchPlayService.concede(match.id, { playerId: playerId('A') });
+
+    expect(matchPlayService.getMatchStatus(match.id)).toMatchObject({ state: 'complete', winnerId: playerId('B'), result: 'B wins, conceded' });
+  });
+});
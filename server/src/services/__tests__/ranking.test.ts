@@ -0,0 +1,40 @@
+import { ScoringUpdate, Tiebreak } from '../../types';
+import { createServices } from './setup';
+
+const score = (player: string, hole: number, strokes: number): ScoringUpdate => ({ player, hole, strokes, action: 'score', rawTranscription: '' });
+
+describe('rankLeaderboard', () => {
+  // A bogeys hole 1, B bogeys hole 18 and C pars every hole, so A and B are level at +1
+  function positions(tiebreak?: Tiebreak): { [player: string]: string | undefined } {
+    const { scoringService, tournament } = createServices(['A', 'B', 'C']);
+    scoringService.updateSettings(tournament.id, { tiebreak });
+    for (let hole = 1; hole <= 18; hole++) {
+      scoringService.processScoringUpdate(tournament.id, score('A', hole, hole === 1 ? 5 : 4));
+      scoringService.processScoringUpdate(tournament.id, score('B', hole, hole === 18 ? 5 : 4));
+      scoringService.processScoringUpdate(tournament.id, score('C', hole, 4));
+    }
+    return Object.fromEntries(scoringService.generateLeaderboard(tournament.id).map(entry => [entry.playerName, entry.positionLabel]));
+  }
+
+  it('shares the position of level players without a tiebreak', () => {
+    expect(positions()).toEqual({ C: '1', A: 'T2', B: 'T2' });
+  });
+
+  it('separates level players by countback over the back nine', () => {
+    expect(positions({ rules: ['back-9'] })).toEqual({ C: '1', A: '2', B: '3' });
+  });
+
+  it('moves down the chain past rules that cannot separate the players', () => {
+    // There is no previous round in round 1
+    expect(positions({ rules: ['previous-round', 'back-1'] })).toEqual({ C: '1', A: '2', B: '3' });
+  });
+
+  it('leaves unfinished rounds level', () => {
+    const { scoringService, tournament } = createServices(['A', 'B']);
+    scoringService.updateSettings(tournament.id, { tiebreak: { rules: ['back-9'] } });
+    [score('A', 1, 5), score('A', 2, 4), score('B', 1, 4), score('B', 2, 5)]
+      .forEach(update => scoringService.processScoringUpdate(tournament.id, update));
+
+    expect(scoringService.generateLeaderboard(tournament.id).map(entry => entry.positionLabel)).toEqual(['T1', 'T1']);
+  });
+});
@@ -0,0 +1,79 @@
+import { parseScoringRules } from '../ruleParser';
+
+const players = ['Jordan Spieth', 'Erik Qvist', 'Daniel'];
+
+// The parsed updates without the transcription they came from
+function parse(transcription: string, playerNames: string[] = players, currentScores?: { [playerName: string]: { [hole: number]: number } }) {
+  return parseScoringRules(transcription, playerNames, currentScores).map(({ rawTranscription, ...update }) => update);
+}
+
+describe('parseScoringRules', () => {
+  it('scores a run of holes from a starting hole', () => {
+    expect(parse('Erik from hole 6, 4 5 3 4')).toEqual([
+      { player: 'Erik Qvist', hole: 6, strokes: 4, action: 'score' },
+      { player: 'Erik Qvist', hole: 7, strokes: 5, action: 'score' },
+      { player: 'Erik Qvist', hole: 8, strokes: 3, action: 'score' },
+      { player: 'Erik Qvist', hole: 9, strokes: 4, action: 'score' },
+    ]);
+  });
+
+  it('parses the run without a name, for the only player or no player', () => {
+    expect(parse('from hole 6, 4 5 3 4', ['Erik Qvist']).map(u => [u.player, u.hole, u.strokes])).toEqual([
+      ['Erik Qvist', 6, 4], ['Erik Qvist', 7, 5], ['Erik Qvist', 8, 3], ['Erik Qvist', 9, 4],
+    ]);
+    expect(parse('from hole 6, 4 5 3 4').map(u => [u.player, u.hole, u.strokes])).toEqual([
+      ['', 6, 4], ['', 7, 5], ['', 8, 3], ['', 9, 4],
+    ]);
+  });
+
+  it('scores terms and number words over consecutive holes', () => {
+    expect(parse('Jordan from hole 1, birdie par bogey')).toEqual([
+      { player: 'Jordan Spieth', hole: 1, strokes: null, action: 'birdie' },
+      { player: 'Jordan Spieth', hole: 2, strokes: null, action: 'par' },
+      { player: 'Jordan Spieth', hole: 3, strokes: null, action: 'bogey' },
+    ]);
+    expect(parse('Erik. Starting at hole ten, four five three').map(u => [u.hole, u.strokes])).toEqual([[10, 4], [11, 5], [12, 3]]);
+  });
+
+  it('keeps each score on the hole spoken after it', () => {
+    expect(parse('Jordan scored 4 on hole 3 and 5 on hole 4')).toEqual([
+      { player: 'Jordan Spieth', hole: 3, strokes: 4, action: 'score' },
+      { player: 'Jordan Spieth', hole: 4, strokes: 5, action: 'score' },
+    ]);
+    expect(parse('Jordan par on hole 3, bogey on hole 12')).toEqual([
+      { player: 'Jordan Spieth', hole: 3, strokes: null, action: 'par' },
+      { player: 'Jordan Spieth', hole: 12, strokes: null, action: 'bogey' },
+    ]);
+  });
+
+  it('starts a new run at a second starting hole', () => {
+    expect(parse('Erik from hole 6, 4 5, from hole 12, 3').map(u => [u.hole, u.strokes])).toEqual([[6, 4], [7, 5], [12, 3]]);
+  });
+
+  it('shares scores between names spoken together and a hole across the sentence', () => {
+    expect(parse('Erik and Daniel par on 3').map(u => [u.player, u.hole, u.action])).toEqual([
+      ['Erik Qvist', 3, 'par'], ['Daniel', 3, 'par'],
+    ]);
+    expect(parse('Hole 3: Erik par, Daniel double bogey').map(u => [u.player, u.hole, u.action])).toEqual([
+      ['Erik Qvist', 3, 'par'], ['Daniel', 3, 'double_bogey'],
+    ]);
+  });
+
+  it("continues from the player's next unscored hole", () => {
+    expect(parse('Jordan five four', players, { 'Jordan Spieth': { 1: 4, 2: 5 } }).map(u => [u.hole, u.strokes])).toEqual([[3, 5], [4, 4]]);
+  });
+
+  it('parses deletions', () => {
+    expect(parse("Remove Jordan's score on hole 5")).toEqual([{ player: 'Jordan Spieth', hole: 5, strokes: null, action: 'delete' }]);
+    expect(parse("Jordan didn't play hole 9")).toEqual([{ player: 'Jordan Spieth', hole: 9, strokes: null, action: 'delete' }]);
+  });
+
+  it('parses wolf choices and contests', () => {
+    expect(parse('Erik is wolf and takes Daniel on hole 4')).toEqual([
+      { player: 'Erik Qvist', hole: 4, strokes: null, action: 'wolf', partner: 'Daniel' },
+    ]);
+    expect(parse('Daniel closest on 4, two and a half metres')).toEqual([
+      { player: 'Daniel', hole: 4, strokes: null, action: 'contest', contest: 'closest-to-pin', measurement: 2.5 },
+    ]);
+  });
+});
@@ -0,0 +1,59 @@
+import { Aggregation, ScoringUpdate, TournamentSettings } from '../../types';
+import { createServices } from './setup';
+
+const score = (player: string, hole: number, strokes: number): ScoringUpdate => ({ player, hole, strokes, action: 'score', rawTranscription: '' });
+
+describe('ScoringService', () => {
+  describe('aggregation', () => {
+    // Round 1 level par, round 2 18 over, round 3 left after 9 holes at 9 under; round 4 is next
+    function countedRounds(aggregation: Aggregation): number[] {
+      const { scoringService, tournament } = createServices(['A'], 4);
+      [[1, 18, 4], [2, 18, 5], [3, 9, 3]].forEach(([round, holes, strokes]) => {
+        scoringService.setCurrentRound(tournament.id, round);
+        for (let hole = 1; hole <= holes; hole++) {
+          scoringService.processScoringUpdate(tournament.id, score('A', hole, strokes));
+        }
+      });
+      scoringService.setCurrentRound(tournament.id, 4);
+      scoringService.updateSettings(tournament.id, { aggregation });
+
+      const [entry] = scoringService.generateLeaderboard(tournament.id, undefined, 'cumulative');
+      return entry.totals!.rounds.filter(round => round.counted).map(round => round.round);
+    }
+
+    it('counts the best completed rounds, with a DNF round only filling in', () => {
+      expect(countedRounds({ rule: 'best', count: 2 })).toEqual([1, 2]);
+      expect(countedRounds({ rule: 'best', count: 3 })).toEqual([1, 2, 3]);
+    });
+
+    it('drops DNF rounds before the worst completed rounds', () => {
+      expect(countedRounds({ rule: 'drop-worst', count: 1 })).toEqual([1, 2]);
+      expect(countedRounds({ rule: 'drop-worst', count: 2 })).toEqual([1]);
+    });
+  });
+
+  describe('getPlayerScorecard', () => {
+    // A scratch player with a 12 on hole 1 and pars elsewhere
+    function scorecard(settings: TournamentSettings = {}) {
+      const { scoringService, tournament, playerId } = createServices([{ name: 'A', handicap: 0 }]);
+      scoringService.updateSettings(tournament.id, settings);
+      for (let hole = 1; hole <= 18; hole++) {
+        scoringService.processScoringUpdate(tournament.id, score('A', hole, hole === 1 ? 12 : 4));
+      }
+      return scoringService.getPlayerScorecard(tournament.id, playerId('A'))!;
+    }
+
+    it('caps the adjusted gross score at net double bogey and reports the differential', () => {
+      const card = scorecard();
+      expect(card.adjustedScores[0]).toEqual({ hole: 1, strokes: 12, maxScore: 6, adjustedStrokes: 6 });
+      expect(card.adjustedGrossScore).toBe(74);
+      expect(card.scoreDifferential).toBe(2);
+    });
+
+    it('caps at par plus X when the tournament says so', () => {
+      const card = scorecard({ maxHoleScore: { method: 'par-plus', overPar: 3 } });
+      expect(card.adjustedGrossScore).toBe(75);
+      expect(card.scoreDifferential).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CourseService } from '../course';
+import { ScoringService } from '../scoring';
+import { TeamService } from '../team';
+import { TeamSidegameService } from '../teamSidegame';
+import { ContestService } from '../contest';
+import { LedgerService } from '../ledger';
+import { PlayerInput } from '../../types';
+
+const originalCwd = process.cwd();
+const tempDirs: string[] = [];
+
+// Every test starts back in the original directory, and the data directories it made are removed
+afterEach(() => {
+  process.chdir(originalCwd);
+  tempDirs.splice(0).forEach(dir => fs.rmSync(dir, { recursive: true, force: true }));
+  jest.restoreAllMocks();
+});
+
+// Services over an empty data directory, with a tournament on an 18-hole par 4 course
+export function createServices(players: PlayerInput[], totalRounds: number = 1) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scorechat-test-'));
+  tempDirs.push(dir);
+  process.chdir(dir);
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+
+  const courseService = new CourseService();
+  const scoringService = new ScoringService(courseService);
+  const teamService = new TeamService(scoringService);
+  const teamSidegameService = new TeamSidegameService(scoringService, teamService);
+  const contestService = new ContestService(scoringService);
+  const ledgerService = new LedgerService(scoringService, teamSidegameService, contestService);
+
+  const course = courseService.createCourse({
+    name: 'Test Links',
+    holes: Array.from({ length: 18 }, (_, index) => ({ number: index + 1, par: 4, strokeIndex: index + 1 })),
+    tees: [{ name: 'Yellow', courseRating: 72, slopeRating: 113 }],
+  });
+  const tournament = scoringService.createTournament('Test', course.id, players, totalRounds)!;
+  const playerId = (name: string) => tournament.players.find(p => p.name === name)!.id;
+
+  return { scoringService, teamService, teamSidegameService, contestService, ledgerService, tournament, playerId };
+}
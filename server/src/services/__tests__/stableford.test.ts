@@ -0,0 +1,51 @@
+import { calculateStablefordPoints } from '../handicap';
+import { ScoringUpdate } from '../../types';
+import { createServices } from './setup';
+
+const score = (player: string, hole: number, strokes: number): ScoringUpdate => ({ player, hole, strokes, action: 'score', rawTranscription: '' });
+
+describe('calculateStablefordPoints', () => {
+  it('scores against the par adjusted by the strokes received on the hole', () => {
+    // Par 4, stroke index 1: one stroke at 18 received, two at 19
+    expect(calculateStablefordPoints(4, 4, 0, 1)).toBe(2);
+    expect(calculateStablefordPoints(5, 4, 18, 1)).toBe(2);
+    expect(calculateStablefordPoints(5, 4, 19, 1)).toBe(3);
+    expect(calculateStablefordPoints(4, 4, 18, 1)).toBe(3);
+    expect(calculateStablefordPoints(2, 4, 0, 1)).toBe(4);
+    expect(calculateStablefordPoints(1, 4, 0, 1)).toBe(4);
+    expect(calculateStablefordPoints(6, 4, 18, 1)).toBe(1);
+    expect(calculateStablefordPoints(8, 4, 18, 1)).toBe(0);
+  });
+
+  it('gives strokes only on holes within the received strokes by stroke index', () => {
+    expect(calculateStablefordPoints(5, 4, 5, 5)).toBe(2);
+    expect(calculateStablefordPoints(5, 4, 5, 6)).toBe(1);
+  });
+});
+
+describe('ScoringService round handicaps', () => {
+  // A's Stableford points in a round, from the leaderboard
+  const points = (scoringService: ReturnType<typeof createServices>['scoringService'], tournamentId: string, round: number) =>
+    scoringService.generateLeaderboard(tournamentId, round)[0].totalStablefordPoints;
+
+  it('keeps the handicap a played round was scored with when the handicap changes', () => {
+    const { scoringService, tournament, playerId } = createServices([{ name: 'A', handicap: 18 }], 2);
+    scoringService.processScoringUpdate(tournament.id, score('A', 1, 5));
+
+    scoringService.updatePlayer(tournament.id, playerId('A'), { handicap: 0 });
+    scoringService.setCurrentRound(tournament.id, 2);
+    scoringService.processScoringUpdate(tournament.id, score('A', 1, 5));
+
+    expect(points(scoringService, tournament.id, 1)).toBe(2);
+    expect(points(scoringService, tournament.id, 2)).toBe(1);
+  });
+
+  it('rescores played rounds from the given round', () => {
+    const { scoringService, tournament, playerId } = createServices([{ name: 'A', handicap: 18 }]);
+    scoringService.processScoringUpdate(tournament.id, score('A', 1, 5));
+
+    scoringService.updatePlayer(tournament.id, playerId('A'), { handicap: 0, fromRound: 1 });
+
+    expect(points(scoringService, tournament.id, 1)).toBe(1);
+  });
+});
@@ -0,0 +1,25 @@
+import fs from 'fs';
+import { createServices } from './setup';
+
+describe('TeamService.seedTeams', () => {
+  it('seeds teams from teams-config.json and reports the players left off a team', () => {
+    const { teamService, tournament, playerId } = createServices(['Anna', 'Bo', 'Cilla']);
+    fs.writeFileSync('teams-config.json', JSON.stringify({
+      teams: { green: { name: 'Green Team', color: '#22c55e', players: ['Anna', 'Bo'] } },
+    }));
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const teams = teamService.seedTeams(tournament.id);
+
+    expect(teams.map(team => [team.name, team.playerIds])).toEqual([['Green Team', [playerId('Anna'), playerId('Bo')]]]);
+    expect(warn).toHaveBeenCalledWith('Players on no team in teams-config.json: Cilla');
+  });
+
+  it('seeds nothing from an invalid config', () => {
+    const { teamService, tournament } = createServices(['Anna']);
+    fs.writeFileSync('teams-config.json', JSON.stringify({ teams: { green: { name: 'Green Team', players: 'Anna' } } }));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(teamService.seedTeams(tournament.id)).toEqual([]);
+  });
+});
@@ -0,0 +1,51 @@
+import { ScoringUpdate } from '../../types';
+import { TeamCompetitionService } from '../teamCompetition';
+import { createServices } from './setup';
+
+const score = (player: string, hole: number, strokes: number): ScoringUpdate => ({ player, hole, strokes, action: 'score', rawTranscription: '' });
+
+describe('TeamCompetitionService', () => {
+  // Red (A) and Blue (B) play a sum-match session each round; A is a shot better per hole in round 1
+  function playRounds(round2Holes: number) {
+    const services = createServices(['A', 'B'], 2);
+    const { scoringService, teamService, teamSidegameService, tournament, playerId } = services;
+    teamService.createTeam(tournament.id, { name: 'Red', color: '#ff0000', playerIds: [playerId('A')] });
+    teamService.createTeam(tournament.id, { name: 'Blue', color: '#0000ff', playerIds: [playerId('B')] });
+    teamSidegameService.createSidegame(tournament.id, 1, 'sum-match');
+    teamSidegameService.createSidegame(tournament.id, 2, 'sum-match', { sessionPoints: { win: 2, halve: 1 } });
+
+    for (let hole = 1; hole <= 18; hole++) {
+      scoringService.processScoringUpdate(tournament.id, score('A', hole, 3));
+      scoringService.processScoringUpdate(tournament.id, score('B', hole, 4));
+    }
+    scoringService.setCurrentRound(tournament.id, 2);
+    for (let hole = 1; hole <= round2Holes; hole++) {
+      scoringService.processScoringUpdate(tournament.id, score('A', hole, 4));
+      scoringService.processScoringUpdate(tournament.id, score('B', hole, 4));
+    }
+
+    const standings = new TeamCompetitionService(scoringService, teamService, teamSidegameService).getStandings(tournament.id)!;
+    return {
+      ...standings,
+      byTeam: Object.fromEntries(standings.standings.map(s => [s.teamName, s])),
+    };
+  }
+
+  it('awards each session its win and halve points', () => {
+    const { byTeam, pointsAvailable, pointsPlayed } = playRounds(18);
+
+    expect(byTeam.Red).toMatchObject({ points: 2, sessionsWon: 1, roundPoints: { 1: 1, 2: 1 }, position: 1 });
+    expect(byTeam.Blue).toMatchObject({ points: 1, sessionsWon: 0, roundPoints: { 1: 0, 2: 1 }, position: 2 });
+    expect(pointsAvailable).toBe(3);
+    expect(pointsPlayed).toBe(3);
+  });
+
+  it('only projects the points of a session still being played', () => {
+    const { byTeam, sessions, pointsPlayed } = playRounds(9);
+
+    expect(sessions[1].complete).toBe(false);
+    expect(byTeam.Red).toMatchObject({ points: 1, projectedPoints: 2 });
+    expect(byTeam.Blue).toMatchObject({ points: 0, projectedPoints: 1 });
+    expect(pointsPlayed).toBe(1);
+  });
+});
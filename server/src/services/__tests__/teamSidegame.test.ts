@@ -0,0 +1,164 @@
+import { ScoringUpdate } from '../../types';
+import { createServices } from './setup';
+
+const score = (player: string, hole: number, strokes: number): ScoringUpdate => ({ player, hole, strokes, action: 'score', rawTranscription: '' });
+
+describe('TeamSidegameService', () => {
+  describe('processWolfChoice', () => {
+    it("records a choice without a hole on the speaker's next hole as wolf", () => {
+      const { scoringService, teamSidegameService, tournament, playerId } = createServices(['A', 'B', 'C', 'D']);
+      const sidegame = teamSidegameService.createSidegame(tournament.id, 1, 'wolf', {
+        wolf: { playerIds: ['A', 'B', 'C', 'D'].map(playerId), basis: 'gross', points: { team: 1, loneWolfWin: 4, loneWolfLoss: 1 } },
+      });
+
+      // D is the wolf on holes 1 and 5, C on hole 4
+      ['A', 'B', 'C', 'D'].forEach(player => scoringService.processScoringUpdate(tournament.id, score(player, 1, 4)));
+      const dChoice = teamSidegameService.processWolfChoice(tournament.id, 1, { player: 'D', hole: null, strokes: null, action: 'wolf', partner: 'A', rawTranscription: '' });
+      const cChoice = teamSidegameService.processWolfChoice(tournament.id, 1, { player: 'C', hole: null, strokes: null, action: 'wolf', partner: null, rawTranscription: '' });
+
+      expect(dChoice?.choice).toMatchObject({ hole: 5, wolfId: playerId('D'), partnerId: playerId('A') });
+      expect(cChoice?.choice).toMatchObject({ hole: 4, wolfId: playerId('C'), partnerId: null });
+      expect(dChoice?.sidegame.id).toBe(sidegame.id);
+    });
+  });
+
+  describe('getSkins', () => {
+    it('validates net skins with a net par and counts only the listed players', () => {
+      const { scoringService, teamSidegameService, tournament, playerId } = createServices([
+        { name: 'A', handicap: 18 },
+        { name: 'B', handicap: 0 },
+        { name: 'C', handicap: 0 },
+      ]);
+      const sidegame = teamSidegameService.createSidegame(tournament.id, 1, 'skins', {
+        skins: { basis: 'net', ties: 'carry', validation: true, playerIds: [playerId('A'), playerId('B')] },
+      });
+
+      // A wins hole 1 with a net 3 and validates it with a gross bogey, a net par, on hole 2
+      [score('A', 1, 4), score('B', 1, 4), score('A', 2, 5), score('B', 2, 4)]
+        .forEach(update => scoringService.processScoringUpdate(tournament.id, update));
+
+      const skins = teamSidegameService.getSkins(sidegame.id)!;
+      expect(skins.holes[0]).toMatchObject({ status: 'won', winnerIds: [playerId('A')] });
+      expect(skins.players.map(p => p.playerId).sort()).toEqual([playerId('A'), playerId('B')].sort());
+    });
+  });
+
+  describe('getSkins ties', () => {
+    // A and B tie hole 1, A wins hole 2 and everyone ties hole 3
+    function skins(ties: 'carry' | 'split' | 'void') {
+      const { scoringService, teamSidegameService, tournament } = createServices(['A', 'B', 'C']);
+      const sidegame = teamSidegameService.createSidegame(tournament.id, 1, 'skins', { skins: { basis: 'gross', ties, validation: false } });
+      [[4, 4, 5], [3, 4, 4], [4, 4, 4]].forEach((strokes, index) => {
+        ['A', 'B', 'C'].forEach((player, i) => scoringService.processScoringUpdate(tournament.id, score(player, index + 1, strokes[i])));
+      });
+
+      const result = teamSidegameService.getSkins(sidegame.id)!;
+      return {
+        statuses: result.holes.slice(0, 3).map(h => h.status),
+        totals: Object.fromEntries(result.players.map(p => [p.playerName, p.skins])),
+        carryover: result.carryover,
+      };
+    }
+
+    it('carries tied skins to the next hole', () => {
+      expect(skins('carry')).toEqual({ statuses: ['carried', 'won', 'carried'], totals: { A: 2, B: 0, C: 0 }, carryover: 1 });
+    });
+
+    it('splits tied skins among the tied players', () => {
+      const { statuses, totals, carryover } = skins('split');
+      expect(statuses).toEqual(['split', 'won', 'split']);
+      expect(totals.A).toBeCloseTo(1.5 + 1 / 3);
+      expect(totals.B).toBeCloseTo(0.5 + 1 / 3);
+      expect(totals.C).toBeCloseTo(1 / 3);
+      expect(carryover).toBe(0);
+    });
+
+    it('voids tied skins', () => {
+      expect(skins('void')).toEqual({ statuses: ['void', 'won', 'void'], totals: { A: 1, B: 0, C: 0 }, carryover: 0 });
+    });
+  });
+
+  describe('getNassau presses', () => {
+    // B wins holes 1 to 4 and the rest of the front nine is halved
+    function nassau(presses: { onPresses: boolean; maxPresses?: number }) {
+      const { scoringService, teamSidegameService, tournament, playerId } = createServices(['A', 'B']);
+      const sidegame = teamSidegameService.createSidegame(tournament.id, 1, 'nassau', {
+        nassau: { playerIds: [playerId('A'), playerId('B')], basis: 'gross', stake: 1, presses: { enabled: true, trigger: 2, overall: false, ...presses } },
+      });
+      for (let hole = 1; hole <= 9; hole++) {
+        scoringService.processScoringUpdate(tournament.id, score('A', hole, 4));
+        scoringService.processScoringUpdate(tournament.id, score('B', hole, hole <= 4 ? 3 : 4));
+      }
+
+      const result = teamSidegameService.getNassau(sidegame.id)!;
+      return {
+        bets: result.bets.filter(bet => bet.type !== 'back' && bet.type !== 'overall').map(bet => `${bet.name} from ${bet.startHole}: ${bet.result}`),
+        amounts: Object.fromEntries(result.settlement.map(entry => [entry.playerName, entry.amount])),
+      };
+    }
+
+    it('presses two down, and presses the press when it goes two down', () => {
+      expect(nassau({ onPresses: true })).toEqual({
+        bets: ['Front 9 from 1: 4&3', 'Front 9 press 1 from 3: 2&1', 'Front 9 press 2 from 5: Halved'],
+        amounts: { A: -2, B: 2 },
+      });
+    });
+
+    it('stops pressing at the press limit, or when presses are not pressed', () => {
+      expect(nassau({ onPresses: true, maxPresses: 1 }).bets).toEqual(['Front 9 from 1: 4&3', 'Front 9 press 1 from 3: 2&1']);
+      expect(nassau({ onPresses: false }).bets).toEqual(['Front 9 from 1: 4&3', 'Front 9 press 1 from 3: 2&1']);
+    });
+  });
+
+  describe('processHoleMatch', () => {
+    it('records a sum-match hole only once two teams have all their scores', () => {
+      const { scoringService, teamService, teamSidegameService, tournament, playerId } = createServices(['A', 'B', 'C']);
+      teamService.createTeam(tournament.id, { name: 'Red', color: '#ff0000', playerIds: [playerId('A'), playerId('B')] });
+      teamService.createTeam(tournament.id, { name: 'Blue', color: '#0000ff', playerIds: [playerId('C')] });
+      const sidegame = teamSidegameService.createSidegame(tournament.id, 1, 'sum-match');
+
+      // Red still waits for B
+      [score('A', 1, 3), score('C', 1, 5)].forEach(update => scoringService.processScoringUpdate(tournament.id, update));
+      expect(teamSidegameService.processHoleMatch(sidegame.id, 1, {})).toBeNull();
+      expect(teamSidegameService.getSidegame(sidegame.id)?.matches).toEqual([]);
+
+      scoringService.processScoringUpdate(tournament.id, score('B', 1, 4));
+      expect(teamSidegameService.processHoleMatch(sidegame.id, 1, {})?.teamPoints).toEqual({
+        [teamService.getTeams(tournament.id)[0].id]: 1,
+        [teamService.getTeams(tournament.id)[1].id]: -1,
+      });
+    });
+
+    it('gives tie points to teams sharing any position', () => {
+      const { scoringService, teamService, teamSidegameService, tournament, playerId } = createServices(['A', 'B', 'C', 'D']);
+      const teams = ['A', 'B', 'C', 'D'].map(name =>
+        teamService.createTeam(tournament.id, { name, color: '#ff0000', playerIds: [playerId(name)] })!);
+      const sidegame = teamSidegameService.createSidegame(tournament.id, 1, 'sum-match', {
+        sumMatch: { basis: 'gross', points: { win: 2, tie: 1, loss: 0 }, normalize: false },
+      });
+
+      // B and C share second place
+      [score('A', 1, 3), score('B', 1, 4), score('C', 1, 4), score('D', 1, 5)]
+        .forEach(update => scoringService.processScoringUpdate(tournament.id, update));
+
+      expect(teamSidegameService.processHoleMatch(sidegame.id, 1, {})?.teamPoints).toEqual({
+        [teams[0].id]: 2,
+        [teams[1].id]: 1,
+        [teams[2].id]: 1,
+        [teams[3].id]: 0,
+      });
+    });
+
+    it('matches all-vs-all players by id, so similar names stay apart', () => {
+      const { teamService, teamSidegameService, tournament, playerId } = createServices(['Erik', 'Erik Qvist']);
+      const red = teamService.createTeam(tournament.id, { name: 'Red', color: '#ff0000', playerIds: [playerId('Erik')] })!;
+      const blue = teamService.createTeam(tournament.id, { name: 'Blue', color: '#0000ff', playerIds: [playerId('Erik Qvist')] })!;
+      const sidegame = teamSidegameService.createSidegame(tournament.id, 1, 'all-vs-all', {
+        groupings: [[playerId('Erik'), playerId('Erik Qvist')]],
+      });
+
+      const match = teamSidegameService.processHoleMatch(sidegame.id, 1, { [playerId('Erik')]: 1, [playerId('Erik Qvist')]: 3 });
+      expect(match?.teamPoints).toEqual({ [red.id]: 0, [blue.id]: 1 });
+    });
+  });
+});
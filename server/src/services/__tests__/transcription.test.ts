@@ -0,0 +1,125 @@
+import OpenAI from 'openai';
+import { TranscriptionService } from '../transcription';
+import {
+  createTranscriptionProvider,
+  MockTranscriptionProvider,
+  OpenAITranscriptionProvider,
+  WhisperCppTranscriptionProvider,
+} from '../transcriptionProviders';
+
+// The chat completion the LLM parser gets back; no request leaves the machine
+const createCompletion = jest.fn();
+jest.mock('openai', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({ chat: { completions: { create: createCompletion } } })),
+}));
+
+const ENV_KEYS = ['OPENAI_API_KEY', 'TRANSCRIPTION_PROVIDER', 'WHISPER_CPP_MODEL', 'MOCK_TRANSCRIPTION', 'SCORE_PARSER'];
+const originalEnv = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+
+const players = ['Erik Qvist', 'Daniel'];
+const llmAnswer = (updates: object[]) => ({ choices: [{ message: { content: JSON.stringify(updates) } }] });
+
+// A service transcribing every recording as "Erik par on hole 3" with the given parser mode
+function createService(scoreParser: string, apiKey?: string): TranscriptionService {
+  process.env.TRANSCRIPTION_PROVIDER = 'mock';
+  process.env.MOCK_TRANSCRIPTION = 'Erik par on hole 3';
+  process.env.SCORE_PARSER = scoreParser;
+  if (apiKey) {
+    process.env.OPENAI_API_KEY = apiKey;
+  }
+  return new TranscriptionService();
+}
+
+// Runs a recording through the mock provider and the score parser
+async function transcribeAndParse(service: TranscriptionService) {
+  const transcription = await service.transcribeAudio(Buffer.from('audio'), players);
+  return (await service.parseTranscriptionToScore(transcription, players))
+    .map(({ player, hole, strokes, action }) => ({ player, hole, strokes, action }));
+}
+
+beforeEach(() => {
+  ENV_KEYS.forEach(key => delete process.env[key]);
+  createCompletion.mockReset();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  ENV_KEYS.forEach(key => {
+    if (originalEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = originalEnv[key];
+  });
+  jest.restoreAllMocks();
+});
+
+describe('createTranscriptionProvider', () => {
+  const openai = new OpenAI({ apiKey: 'sk-test' });
+
+  it('uses OpenAI with a client and the mock without one', () => {
+    expect(createTranscriptionProvider(openai)).toBeInstanceOf(OpenAITranscriptionProvider);
+    expect(createTranscriptionProvider(null)).toBeInstanceOf(MockTranscriptionProvider);
+  });
+
+  it('uses whisper.cpp when asked and given a model', () => {
+    process.env.TRANSCRIPTION_PROVIDER = 'whisper-cpp';
+    expect(createTranscriptionProvider(openai)).toBeInstanceOf(MockTranscriptionProvider);
+
+    process.env.WHISPER_CPP_MODEL = '/models/ggml-base.en.bin';
+    expect(createTranscriptionProvider(openai)).toBeInstanceOf(WhisperCppTranscriptionProvider);
+  });
+
+  it('falls back to the mock for the mock, an unknown provider or OpenAI without a client', () => {
+    process.env.TRANSCRIPTION_PROVIDER = 'mock';
+    expect(createTranscriptionProvider(openai)).toBeInstanceOf(MockTranscriptionProvider);
+    process.env.TRANSCRIPTION_PROVIDER = 'azure';
+    expect(createTranscriptionProvider(openai)).toBeInstanceOf(MockTranscriptionProvider);
+    process.env.TRANSCRIPTION_PROVIDER = 'openai';
+    expect(createTranscriptionProvider(null)).toBeInstanceOf(MockTranscriptionProvider);
+  });
+
+  it('returns the configured text from the mock provider', async () => {
+    await expect(new MockTranscriptionProvider('Daniel bogey').transcribe()).resolves.toBe('Daniel bogey');
+  });
+});
+
+describe('TranscriptionService score parser modes', () => {
+  const par = { player: 'Erik Qvist', hole: 3, strokes: null, action: 'par' };
+
+  it('rules: parses with the rule parser without asking the LLM', async () => {
+    const service = createService('rules', 'sk-test');
+    expect(await transcribeAndParse(service)).toEqual([par]);
+    expect(createCompletion).not.toHaveBeenCalled();
+  });
+
+  it('fallback: uses the rule parser without an API key', async () => {
+    expect(await transcribeAndParse(createService('fallback'))).toEqual([par]);
+  });
+
+  it('fallback: uses the LLM, and the rule parser when the LLM fails', async () => {
+    const service = createService('fallback', 'sk-test');
+    createCompletion.mockResolvedValueOnce(llmAnswer([{ player: 'Erik Qvist', hole: 3, strokes: 5, action: 'score' }]));
+    expect(await transcribeAndParse(service)).toEqual([{ player: 'Erik Qvist', hole: 3, strokes: 5, action: 'score' }]);
+
+    createCompletion.mockRejectedValueOnce(new Error('network down'));
+    expect(await transcribeAndParse(service)).toEqual([par]);
+  });
+
+  it('llm: returns no updates when the LLM fails or there is no API key', async () => {
+    const service = createService('llm', 'sk-test');
+    createCompletion.mockRejectedValueOnce(new Error('network down'));
+    expect(await transcribeAndParse(service)).toEqual([]);
+
+    delete process.env.OPENAI_API_KEY;
+    expect(await transcribeAndParse(createService('llm'))).toEqual([]);
+  });
+
+  it('cross-check: keeps the LLM updates and logs where the rule parser disagrees', async () => {
+    const service = createService('cross-check', 'sk-test');
+    createCompletion.mockResolvedValueOnce(llmAnswer([{ player: 'Erik Qvist', hole: 3, strokes: null, action: 'bogey' }]));
+
+    expect(await transcribeAndParse(service)).toEqual([{ player: 'Erik Qvist', hole: 3, strokes: null, action: 'bogey' }]);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Erik Qvist hole 3: bogey vs par'));
+  });
+});
@@ -0,0 +1,222 @@
+import { Contest, ContestInput, ContestResult, ContestStatus, ContestType, ScoringUpdate } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import fs from 'fs';
+import path from 'path';
+import { ScoringService } from './scoring';
+
+const CONTEST_NAMES: { [type in ContestType]: string } = {
+  'closest-to-pin': 'Closest to the pin',
+  'longest-drive': 'Longest drive',
+  'longest-putt': 'Longest putt',
+  'hole-in-one': 'Hole-in-one pot',
+};
+
+export class ContestService {
+  private contests: Map<string, Contest> = new Map();
+  private dataPath: string;
+  private saveInProgress = false;
+
+  constructor(private scoringService: ScoringService) {
+    this.dataPath = path.join(process.cwd(), 'tournament-data');
+    if (!fs.existsSync(this.dataPath)) {
+      fs.mkdirSync(this.dataPath, { recursive: true });
+    }
+  }
+
+  createContest(tournamentId: string, round: number, input: ContestInput): Contest | null {
+    if (!this.scoringService.getTournament(tournamentId)) return null;
+
+    const contest: Contest = {
+      id: uuidv4(),
+      tournamentId,
+      round,
+      hole: input.hole,
+      type: input.type,
+      name: input.name || (input.hole ? `${CONTEST_NAMES[input.type]} ${input.hole}` : CONTEST_NAMES[input.type]),
+      prize: input.prize,
+      results: [],
+      createdAt: new Date().toISOString(),
+    };
+
+    this.contests.set(contest.id, contest);
+    this.autoSave();
+    return contest;
+  }
+
+  getContest(id: string): Contest | undefined {
+    return this.contests.get(id);
+  }
+
+  getContestsByRound(tournamentId: string, round: number): Contest[] {
+    return this.getContestsByTournament(tournamentId).filter(c => c.round === round);
+  }
+
+  getContestsByTournament(tournamentId: string): Contest[] {
+    return Array.from(this.contests.values())
+      .filter(c => c.tournamentId === tournamentId)
+      .sort((a, b) => a.round - b.round || (a.hole || 0) - (b.hole || 0));
+  }
+
+  deleteContest(id: string): boolean {
+    if (!this.contests.delete(id)) return false;
+    this.autoSave();
+    return true;
+  }
+
+  // Records a player's result, replacing their earlier one
+  recordResult(contestId: string, playerId: string, measurement?: number | null, rawTranscription?: string): Contest | null {
+    const contest = this.contests.get(contestId);
+    if (!contest) return null;
+
+    const player = this.scoringService.getTournament(contest.tournamentId)?.players.find(p => p.id === playerId);
+    if (!player) return null;
+
+    const result: ContestResult = {
+      playerId,
+      playerName: player.name,
+      measurement: measurement ?? undefined,
+      rawTranscription,
+      timestamp: new Date().toISOString(),
+    };
+    contest.results = [...contest.results.filter(r => r.playerId !== playerId), result];
+
+    this.autoSave();
+    return contest;
+  }
+
+  removeResult(contestId: string, playerId: string): Contest | null {
+    const contest = this.contests.get(contestId);
+    if (!contest || !contest.results.some(r => r.playerId === playerId)) return null;
+
+    contest.results = contest.results.filter(r => r.playerId !== playerId);
+    this.autoSave();
+    return contest;
+  }
+
+  // Spoken result such as "Henrik closest on 4, two metres"; the contest is found by hole and type
+  processContestUpdate(tournamentId: string, round: number, update: ScoringUpdate): Contest | null {
+    const tournament = this.scoringService.getTournament(tournamentId);
+    if (!tournament) return null;
+
+    const player = this.scoringService.findPlayerByName(tournament, update.player);
+    if (!player) return null;
+
+    const candidates = this.getContestsByRound(tournamentId, round).filter(c =>
+      (!update.hole || c.hole === update.hole) && (!update.contest || c.type === update.contest)
+    );
+    if (candidates.length !== 1) {
+      console.log(`No single contest matches ${update.contest || 'contest'} on hole ${update.hole}, found ${candidates.length}`);
+      return null;
+    }
+
+    return this.recordResult(candidates[0].id, player.id, update.measurement, update.rawTranscription);
+  }
+
+  // Closest to the pin goes to the shortest measurement, the long contests to the longest; without
+  // measurements the latest result leads. Hole-in-one pots go to every ace on the contest's holes.
+  getContestStatus(contestId: string): ContestStatus | null {
+    const contest = this.contests.get(contestId);
+    if (!contest) return null;
+
+    const tournament = this.scoringService.getTournament(contest.tournamentId);
+    if (!tournament) return null;
+
+    const participants = tournament.players.filter(p => !p.withdrawnAt);
+    let winnerIds: string[] = [];
+    let winningMeasurement: number | undefined;
+
+    if (contest.type === 'hole-in-one') {
+      const aces = tournament.scores.filter(s =>
+        s.round === contest.round && s.strokes === 1 && s.playerId && (!contest.hole || s.hole === contest.hole)
+      );
+      winnerIds = [...new Set([...aces.map(s => s.playerId!), ...contest.results.map(r => r.playerId)])];
+    } else {
+      const measured = contest.results.filter(r => r.measurement !== undefined);
+      if (measured.length > 0) {
+        const best = contest.type === 'closest-to-pin'
+          ? Math.min(...measured.map(r => r.measurement!))
+          : Math.max(...measured.map(r => r.measurement!));
+        winnerIds = [measured.find(r => r.measurement === best)!.playerId];
+        winningMeasurement = best;
+      } else if (contest.results.length > 0) {
+        winnerIds = [contest.results[contest.results.length - 1].playerId];
+      }
+    }
+
+    return {
+      ...contest,
+      winnerIds,
+      winnerNames: winnerIds.map(id => tournament.players.find(p => p.id === id)?.name || id),
+      winningMeasurement,
+      pot: (contest.prize || 0) * (contest.type === 'hole-in-one' ? participants.length : Math.max(participants.length - 1, 0)),
+    };
+  }
+
+  getRoundStatuses(tournamentId: string, round: number): ContestStatus[] {
+    return this.getContestsByRound(tournamentId, round)
+      .map(contest => this.getContestStatus(contest.id))
+      .filter((status): status is ContestStatus => status !== null);
+  }
+
+  // Persistence methods
+  private saveContests(): void {
+    if (this.saveInProgress) {
+      console.log('Contest save already in progress, skipping...');
+      return;
+    }
+
+    this.saveInProgress = true;
+    try {
+      const contestsObject = Object.fromEntries(this.contests);
+      const dataFile = path.join(this.dataPath, 'contests.json');
+      const tempFile = dataFile + '.tmp';
+
+      fs.writeFileSync(tempFile, JSON.stringify(contestsObject, null, 2));
+      fs.renameSync(tempFile, dataFile);
+
+      console.log('Contest data saved successfully');
+    } catch (error) {
+      console.error('Failed to save contest data:', error);
+      const tempFile = path.join(this.dataPath, 'contests.json.tmp');
+      if (fs.existsSync(tempFile)) {
+        fs.unlinkSync(tempFile);
+      }
+    } finally {
+      this.saveInProgress = false;
+    }
+  }
+
+  loadContests(): void {
+    try {
+      const dataFile = path.join(this.dataPath, 'contests.json');
+      if (fs.existsSync(dataFile)) {
+        const data = fs.readFileSync(dataFile, 'utf8');
+        const contestsObject = JSON.parse(data);
+        this.contests = new Map(Object.entries(contestsObject));
+        console.log(`Loaded ${this.contests.size} contests from storage`);
+      } else {
+        console.log('No existing contest data found');
+      }
+    } catch (error) {
+      console.error('Failed to load contest data:', error);
+    }
+  }
+
+  private autoSave(): void {
+    this.saveContests();
+  }
+
+  // Clear all contests for a specific tournament
+  clearTournamentContests(tournamentId: string): void {
+    const contestsToDelete = this.getContestsByTournament(tournamentId);
+
+    contestsToDelete.forEach(contest => {
+      this.contests.delete(contest.id);
+    });
+
+    if (contestsToDelete.length > 0) {
+      this.autoSave();
+      console.log(`Cleared ${contestsToDelete.length} contests for tournament: ${tournamentId}`);
+    }
+  }
+}
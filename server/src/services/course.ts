@@ -0,0 +1,132 @@
+import { Course, CourseInput } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import fs from 'fs';
+import path from 'path';
+
+// Seeded into an empty catalog so existing tournaments keep their layout
+const DEFAULT_COURSE: CourseInput = {
+  name: 'El Saler',
+  holes: [4,4,5,3,5,4,4,4,3,4,5,3,4,4,5,4,3,4].map((par, index) => ({
+    number: index + 1,
+    par,
+    strokeIndex: [8,14,4,16,2,6,12,10,18,11,3,17,13,9,1,5,15,7][index],
+  })),
+  tees: [
+    { name: 'Yellow', courseRating: 72.7, slopeRating: 133 },
+  ],
+};
+
+export class CourseService {
+  private courses: Map<string, Course> = new Map();
+  private dataPath: string;
+  private saveInProgress = false;
+
+  constructor() {
+    this.dataPath = path.join(process.cwd(), 'tournament-data');
+    if (!fs.existsSync(this.dataPath)) {
+      fs.mkdirSync(this.dataPath, { recursive: true });
+    }
+  }
+
+  getCourses(): Course[] {
+    return Array.from(this.courses.values());
+  }
+
+  getCourse(id: string): Course | undefined {
+    return this.courses.get(id);
+  }
+
+  findCourseByName(name: string): Course | undefined {
+    return this.getCourses().find(course => course.name.toLowerCase() === name.toLowerCase());
+  }
+
+  createCourse(input: CourseInput): Course {
+    const course: Course = {
+      id: uuidv4(),
+      ...this.normalizeCourseInput(input),
+      createdAt: new Date().toISOString(),
+    };
+
+    this.courses.set(course.id, course);
+    this.autoSave();
+    return course;
+  }
+
+  updateCourse(id: string, input: CourseInput): Course | null {
+    const existing = this.courses.get(id);
+    if (!existing) return null;
+
+    const course: Course = {
+      ...existing,
+      ...this.normalizeCourseInput(input),
+      updatedAt: new Date().toISOString(),
+    };
+
+    this.courses.set(id, course);
+    this.autoSave();
+    return course;
+  }
+
+  deleteCourse(id: string): boolean {
+    if (!this.courses.delete(id)) return false;
+    this.autoSave();
+    return true;
+  }
+
+  private normalizeCourseInput(input: CourseInput): Pick<Course, 'name' | 'holes' | 'tees'> {
+    return {
+      name: input.name,
+      holes: [...input.holes].sort((a, b) => a.number - b.number),
+      tees: input.tees.map(tee => ({ ...tee, id: tee.id || uuidv4() })),
+    };
+  }
+
+  // Persistence methods
+  private saveCourses(): void {
+    if (this.saveInProgress) {
+      console.log('Course save already in progress, skipping...');
+      return;
+    }
+
+    this.saveInProgress = true;
+    try {
+      const coursesObject = Object.fromEntries(this.courses);
+      const dataFile = path.join(this.dataPath, 'courses.json');
+      const tempFile = dataFile + '.tmp';
+
+      fs.writeFileSync(tempFile, JSON.stringify(coursesObject, null, 2));
+      fs.renameSync(tempFile, dataFile);
+
+      console.log('Course data saved successfully');
+    } catch (error) {
+      console.error('Failed to save course data:', error);
+      const tempFile = path.join(this.dataPath, 'courses.json.tmp');
+      if (fs.existsSync(tempFile)) {
+        fs.unlinkSync(tempFile);
+      }
+    } finally {
+      this.saveInProgress = false;
+    }
+  }
+
+  loadCourses(): void {
+    try {
+      const dataFile = path.join(this.dataPath, 'courses.json');
+      if (fs.existsSync(dataFile)) {
+        const data = fs.readFileSync(dataFile, 'utf8');
+        const coursesObject = JSON.parse(data);
+        this.courses = new Map(Object.entries(coursesObject));
+        console.log(`Loaded ${this.courses.size} courses from storage`);
+      } else {
+        console.log('No existing course data found, seeding default course');
+        this.createCourse(DEFAULT_COURSE);
+      }
+    } catch (error) {
+      console.error('Failed to load course data:', error);
+    }
+  }
+
+  private autoSave(): void {
+    this.saveCourses();
+  }
+}
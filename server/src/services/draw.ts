@@ -0,0 +1,248 @@
+import { DrawnGroup, DrawnTeam, GroupingDraw, GroupingDrawInput, TeamDraw, TeamDrawInput, Tournament } from '../types';
+import { ScoringService } from './scoring';
+import { TeamService } from './team';
+import { TeamSidegameService } from './teamSidegame';
+
+// Names and colors for drawn teams beyond the ones the tournament already has
+const DEFAULT_TEAMS = [
+  { name: 'Green Team', color: '#22c55e' },
+  { name: 'Blue Team', color: '#3b82f6' },
+  { name: 'Red Team', color: '#ef4444' },
+  { name: 'Yellow Team', color: '#eab308' },
+  { name: 'Purple Team', color: '#a855f7' },
+  { name: 'Orange Team', color: '#f97316' },
+];
+
+// Random starting groupings tried before keeping the best
+const GROUPING_RESTARTS = 50;
+
+// Mulberry32: a small seeded generator, so the same seed always gives the same draw
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+export class DrawService {
+  constructor(
+    private scoringService: ScoringService,
+    private teamService: TeamService,
+    private teamSidegameService: TeamSidegameService
+  ) {}
+
+  // Teams balanced by playing handicap: a snake draft from the lowest handicap, then swaps between
+  // teams while they bring the team averages closer. Committing puts the players on the teams.
+  drawTeams(tournamentId: string, input: TeamDrawInput): TeamDraw | null {
+    const tournament = this.scoringService.getTournament(tournamentId);
+    if (!tournament) return null;
+
+    const seed = input.seed ?? Math.floor(Math.random() * 2 ** 31);
+    const random = createRandom(seed);
+    const round = input.round ?? tournament.currentRound;
+    const currentTeams = this.teamService.getTeams(tournamentId, input.round);
+    const teamCount = input.teamCount ?? Math.max(currentTeams.length, 2);
+
+    const players = tournament.players.filter(p => !p.withdrawnAt);
+    const handicaps: { [playerId: string]: number } = {};
+    players.forEach(player => {
+      handicaps[player.id] = this.scoringService.getPlayingHandicap(tournament, player, round);
+    });
+
+    // Shuffled first so equal handicaps land in random order; the sort is stable
+    const ordered = shuffle(players.map(p => p.id), random).sort((a, b) => handicaps[a] - handicaps[b]);
+    const teams: string[][] = Array.from({ length: teamCount }, () => []);
+    ordered.forEach((playerId, index) => {
+      const position = index % teamCount;
+      const lap = Math.floor(index / teamCount);
+      teams[lap % 2 === 0 ? position : teamCount - 1 - position].push(playerId);
+    });
+    this.balanceTeams(teams, handicaps);
+
+    const drawn: DrawnTeam[] = teams.map((playerIds, index) => {
+      const template = currentTeams[index] || DEFAULT_TEAMS[index];
+      const handicapTotal = playerIds.reduce((sum, id) => sum + handicaps[id], 0);
+      return {
+        name: template.name,
+        color: template.color,
+        playerIds,
+        handicapTotal,
+        handicapAverage: playerIds.length > 0 ? roundTo(handicapTotal / playerIds.length, 2) : 0,
+      };
+    });
+
+    if (input.commit) {
+      this.teamService.replaceTeams(tournamentId, input.round, drawn);
+    }
+
+    const averages = drawn.map(team => team.handicapAverage);
+    return {
+      tournamentId,
+      round: input.round,
+      seed,
+      teams: drawn,
+      spread: roundTo(Math.max(...averages) - Math.min(...averages), 2),
+      committed: input.commit,
+    };
+  }
+
+  // Groupings for an all-vs-all round that mix the field: every pair of players grouped together in
+  // another round costs 2 per time and every pair of teammates 1, since teammates don't play each other.
+  // The cheapest of several seeded starts, each improved by swapping players between groups, wins.
+  drawGroupings(tournamentId: string, round: number, input: GroupingDrawInput): GroupingDraw | null {
+    const tournament = this.scoringService.getTournament(tournamentId);
+    if (!tournament) return null;
+
+    const seed = input.seed ?? Math.floor(Math.random() * 2 ** 31);
+    const random = createRandom(seed);
+    const players = tournament.players.filter(p => !p.withdrawnAt);
+    const groupCount = Math.max(Math.ceil(players.length / input.groupSize), 1);
+
+    const history = this.getPairingHistory(tournament, round);
+    const teamOf: { [playerId: string]: string | undefined } = {};
+    players.forEach(player => {
+      teamOf[player.id] = this.teamService.getPlayerTeam(tournamentId, player.id, round)?.id;
+    });
+
+    const isTeammates = (a: string, b: string) => teamOf[a] !== undefined && teamOf[a] === teamOf[b];
+    const pairCost = (a: string, b: string) => (isTeammates(a, b) ? 1 : 0) + 2 * (history.get(pairKey(a, b)) || 0);
+    const costOf = (group: string[]) => {
+      let cost = 0;
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) {
+          cost += pairCost(group[i], group[j]);
+        }
+      }
+      return cost;
+    };
+
+    let best: string[][] = [];
+    let bestCost = Infinity;
+    for (let restart = 0; restart < GROUPING_RESTARTS && bestCost > 0; restart++) {
+      // Dealt round the groups, so sizes differ by at most one
+      const groups: string[][] = Array.from({ length: groupCount }, () => []);
+      shuffle(players.map(p => p.id), random).forEach((playerId, index) => groups[index % groupCount].push(playerId));
+
+      this.improveGroups(groups, costOf);
+      const cost = groups.reduce((sum, group) => sum + costOf(group), 0);
+      if (cost < bestCost) {
+        best = groups;
+        bestCost = cost;
+      }
+    }
+
+    const nameOf = (playerId: string) => players.find(p => p.id === playerId)?.name || playerId;
+    const groups: DrawnGroup[] = best.map(playerIds => ({ playerIds, playerNames: playerIds.map(nameOf) }));
+    const pairs = best.flatMap(group => group.flatMap((a, i) => group.slice(i + 1).map(b => [a, b])));
+
+    return {
+      tournamentId,
+      round,
+      seed,
+      groups,
+      groupings: groups.map(group => group.playerIds),
+      repeatPairings: pairs.filter(([a, b]) => history.has(pairKey(a, b))).length,
+      teammatePairings: pairs.filter(([a, b]) => isTeammates(a, b)).length,
+    };
+  }
+
+  private balanceTeams(teams: string[][], handicaps: { [playerId: string]: number }): void {
+    const average = (team: string[]) => team.length > 0 ? team.reduce((sum, id) => sum + handicaps[id], 0) / team.length : 0;
+    const imbalance = () => {
+      const averages = teams.map(average);
+      const mean = averages.reduce((sum, value) => sum + value, 0) / averages.length;
+      return averages.reduce((sum, value) => sum + (value - mean) ** 2, 0);
+    };
+
+    let current = imbalance();
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (let a = 0; a < teams.length; a++) {
+        for (let b = a + 1; b < teams.length; b++) {
+          for (let i = 0; i < teams[a].length; i++) {
+            for (let j = 0; j < teams[b].length; j++) {
+              [teams[a][i], teams[b][j]] = [teams[b][j], teams[a][i]];
+              const swapped = imbalance();
+              if (swapped < current - 1e-9) {
+                current = swapped;
+                improved = true;
+              } else {
+                [teams[a][i], teams[b][j]] = [teams[b][j], teams[a][i]];
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+
+  private improveGroups(groups: string[][], costOf: (group: string[]) => number): void {
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (let a = 0; a < groups.length; a++) {
+        for (let b = a + 1; b < groups.length; b++) {
+          for (let i = 0; i < groups[a].length; i++) {
+            for (let j = 0; j < groups[b].length; j++) {
+              const before = costOf(groups[a]) + costOf(groups[b]);
+              [groups[a][i], groups[b][j]] = [groups[b][j], groups[a][i]];
+              if (costOf(groups[a]) + costOf(groups[b]) < before) {
+                improved = true;
+              } else {
+                [groups[a][i], groups[b][j]] = [groups[b][j], groups[a][i]];
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+
+  // How often each pair of players has been grouped together in the tournament's other rounds:
+  // all-vs-all groupings and Wolf fourballs
+  private getPairingHistory(tournament: Tournament, round: number): Map<string, number> {
+    const history = new Map<string, number>();
+    const addGroup = (playerIds: string[]) => {
+      for (let i = 0; i < playerIds.length; i++) {
+        for (let j = i + 1; j < playerIds.length; j++) {
+          const key = pairKey(playerIds[i], playerIds[j]);
+          history.set(key, (history.get(key) || 0) + 1);
+        }
+      }
+    };
+
+    this.teamSidegameService.getSidegamesByTournament(tournament.id)
+      .filter(sidegame => sidegame.round !== round)
+      .forEach(sidegame => {
+        sidegame.groupings?.forEach(addGroup);
+        if (sidegame.wolf) {
+          addGroup(sidegame.wolf.playerIds);
+        }
+      });
+
+    return history;
+  }
+}
@@ -0,0 +1,237 @@
+import {
+  ContestStatus,
+  LeaderboardEntry,
+  MatchPlayStatus,
+  NassauResult,
+  PairLeaderboardEntry,
+  ScoreEntry,
+  SkinsResult,
+  TeamLeaderboardEntry,
+  TeamMatch,
+  WebSocketMessage,
+  WolfResult,
+} from '../types';
+import { ContestService } from './contest';
+import { LedgerService } from './ledger';
+import { MatchPlayService } from './matchPlay';
+import { ScoringService } from './scoring';
+import { TeamSidegameService, isPairsFormat } from './teamSidegame';
+
+// A game played on the scores: recomputes the changed holes of a round and returns the messages to push
+export interface ScoredGame {
+  name: string;
+  update(tournamentId: string, round: number, holes: number[]): WebSocketMessage[];
+}
+
+// Payloads of the messages the engine publishes, by message type
+interface GameMessageData {
+  leaderboard_update: { leaderboard: LeaderboardEntry[] };
+  match_play_update: { tournamentId: string; round: number; matches: MatchPlayStatus[] };
+  contest_update: { tournamentId: string; round: number; contests: ContestStatus[] };
+  team_match_update: { sidegameId: string } & (
+    | { skins: SkinsResult; holes: number[] }
+    | { nassau: NassauResult }
+    | { wolf: WolfResult; holes: number[] }
+    | { teamMatch: TeamMatch }
+  );
+  team_leaderboard_update: { sidegameId: string; leaderboard: TeamLeaderboardEntry[]; pairs?: PairLeaderboardEntry[] };
+}
+
+function createMessage<T extends keyof GameMessageData>(type: T, data: GameMessageData[T]): WebSocketMessage {
+  return { type, data, timestamp: Date.now() };
+}
+
+// Follows every score change in ScoringService, whether it came from voice, manual entry or a pair's
+// side score, and plays it through the leaderboard, every registered game and the ledger
+export class GameEngine {
+  private games: ScoredGame[] = [];
+  private pending: Map<string, { tournamentId: string; round: number; holes: Set<number> }> = new Map();
+  private batchDepth = 0;
+
+  constructor(
+    private scoringService: ScoringService,
+    private teamSidegameService: TeamSidegameService,
+    private matchPlayService: MatchPlayService,
+    private contestService: ContestService,
+    private ledgerService: LedgerService,
+    private publish: (message: WebSocketMessage) => void
+  ) {
+    this.register({ name: 'match-play', update: (tournamentId, round) => [this.getMatchPlayMessage(tournamentId, round)] });
+    this.register({ name: 'skins', update: (tournamentId, round, holes) => this.getSkinsMessages(tournamentId, round, holes) });
+    this.register({ name: 'nassau', update: (tournamentId, round) => this.getNassauMessages(tournamentId, round) });
+    this.register({ name: 'wolf', update: (tournamentId, round, holes) => this.getWolfMessages(tournamentId, round, holes) });
+    this.register({ name: 'contests', update: (tournamentId, round) => [this.getContestMessage(tournamentId, round)] });
+    this.register({ name: 'team-sidegame', update: (tournamentId, round, holes) => this.getTeamSidegameMessages(tournamentId, round, holes) });
+
+    scoringService.onScoreChange((tournamentId, scoreEntry) => this.handleScoreChange(tournamentId, scoreEntry));
+  }
+
+  register(game: ScoredGame): void {
+    this.games = [...this.games.filter(g => g.name !== game.name), game];
+  }
+
+  // Score changes made inside the batch, such as every score of one voice note, are played through the
+  // games once at the end
+  batch<T>(work: () => T): T {
+    this.batchDepth++;
+    try {
+      return work();
+    } finally {
+      this.batchDepth--;
+      if (this.batchDepth === 0) {
+        this.flush();
+      }
+    }
+  }
+
+  emitMatchPlayUpdate(tournamentId: string, round: number): void {
+    this.publish(this.getMatchPlayMessage(tournamentId, round));
+  }
+
+  emitContestUpdate(tournamentId: string, round: number): void {
+    this.publish(this.getContestMessage(tournamentId, round));
+  }
+
+  private handleScoreChange(tournamentId: string, scoreEntry: ScoreEntry): void {
+    const key = `${tournamentId}:${scoreEntry.round}`;
+    const pending = this.pending.get(key) || { tournamentId, round: scoreEntry.round, holes: new Set<number>() };
+    pending.holes.add(scoreEntry.hole);
+    this.pending.set(key, pending);
+
+    if (this.batchDepth === 0) {
+      this.flush();
+    }
+  }
+
+  private flush(): void {
+    const changes = Array.from(this.pending.values());
+    this.pending.clear();
+
+    changes.forEach(({ tournamentId, round, holes }) => {
+      // Clients show the active tournament's leaderboard, so other tournaments' scores must not replace it
+      if (this.scoringService.getActiveTournament()?.id === tournamentId) {
+        this.publish(createMessage('leaderboard_update', { leaderboard: this.scoringService.generateLeaderboard(tournamentId) }));
+      }
+
+      const changedHoles = Array.from(holes).sort((a, b) => a - b);
+      this.games.forEach(game => {
+        try {
+          game.update(tournamentId, round, changedHoles).forEach(message => this.publish(message));
+        } catch (error) {
+          console.error(`Failed to update ${game.name} for round ${round}:`, error);
+        }
+      });
+    });
+
+    new Set(changes.map(change => change.tournamentId)).forEach(tournamentId => {
+      this.ledgerService.syncTournament(tournamentId);
+    });
+  }
+
+  private getMatchPlayMessage(tournamentId: string, round: number): WebSocketMessage {
+    return createMessage('match_play_update', { tournamentId, round, matches: this.matchPlayService.getRoundStatuses(tournamentId, round) });
+  }
+
+  // Hole-in-one pots change with scores as well as with recorded results
+  private getContestMessage(tournamentId: string, round: number): WebSocketMessage {
+    return createMessage('contest_update', { tournamentId, round, contests: this.contestService.getRoundStatuses(tournamentId, round) });
+  }
+
+  // Skins once a changed hole is decided; with validation a score also decides the previous hole
+  private getSkinsMessages(tournamentId: string, round: number, changedHoles: number[]): WebSocketMessage[] {
+    return this.teamSidegameService.getSidegamesByRound(tournamentId, round)
+      .filter(sidegame => sidegame.gameType === 'skins')
+      .flatMap(sidegame => {
+        const skins = this.teamSidegameService.getSkins(sidegame.id);
+        const decidedHoles = (skins?.holes || [])
+          .filter(h => h.status !== 'pending' && (changedHoles.includes(h.hole) || changedHoles.includes(h.hole + 1)))
+          .map(h => h.hole);
+        if (!skins || decidedHoles.length === 0) return [];
+
+        return [createMessage('team_match_update', { skins, holes: decidedHoles, sidegameId: sidegame.id })];
+      });
+  }
+
+  // Nassau bets and presses are replayed from the scores, so the full result goes out
+  private getNassauMessages(tournamentId: string, round: number): WebSocketMessage[] {
+    return this.teamSidegameService.getSidegamesByRound(tournamentId, round)
+      .filter(sidegame => sidegame.gameType === 'nassau')
+      .flatMap(sidegame => {
+        const nassau = this.teamSidegameService.getNassau(sidegame.id);
+        return nassau ? [createMessage('team_match_update', { nassau, sidegameId: sidegame.id })] : [];
+      });
+  }
+
+  // Wolf points once a changed hole is decided
+  private getWolfMessages(tournamentId: string, round: number, changedHoles: number[]): WebSocketMessage[] {
+    return this.teamSidegameService.getSidegamesByRound(tournamentId, round)
+      .filter(sidegame => sidegame.gameType === 'wolf')
+      .flatMap(sidegame => {
+        const wolf = this.teamSidegameService.getWolf(sidegame.id);
+        const holes = (wolf?.holes || [])
+          .filter(h => changedHoles.includes(h.hole) && h.status !== 'pending')
+          .map(h => h.hole);
+        if (!wolf || holes.length === 0) return [];
+
+        return [createMessage('team_match_update', { wolf, holes, sidegameId: sidegame.id })];
+      });
+  }
+
+  // The round's team sidegame: pairs formats are recomputed from the scores, sum-match and all-vs-all
+  // record a match for every changed hole
+  private getTeamSidegameMessages(tournamentId: string, round: number, changedHoles: number[]): WebSocketMessage[] {
+    const tournament = this.scoringService.getTournament(tournamentId);
+    const sidegame = this.teamSidegameService.getSidegameByRound(tournamentId, round);
+    if (!tournament || !sidegame) return [];
+
+    if (isPairsFormat(sidegame.gameType)) {
+      return [createMessage('team_leaderboard_update', {
+        leaderboard: this.teamSidegameService.generateTeamLeaderboard(sidegame.id),
+        pairs: this.teamSidegameService.getPairsLeaderboard(sidegame.id),
+        sidegameId: sidegame.id,
+      })];
+    }
+
+    const messages: WebSocketMessage[] = [];
+    let cleared = false;
+    changedHoles.forEach(hole => {
+      const holeScores = tournament.scores.filter(s => s.round === round && s.hole === hole && s.playerId);
+      // Players only meet in all-vs-all once two of them have scored, so a hole back below two has no result
+      if (sidegame.gameType === 'all-vs-all' && holeScores.length < 2) {
+        cleared = this.teamSidegameService.clearHoleMatch(sidegame.id, hole) || cleared;
+        return;
+      }
+
+      // Hole results by player: Stableford points in all-vs-all, and in sum-match the game's basis
+      const basis = sidegame.gameType === 'all-vs-all' ? 'stableford' : sidegame.sumMatch?.basis ?? 'gross';
+      const holeResults: { [playerId: string]: number } = {};
+      holeScores.forEach(score => {
+        const player = tournament.players.find(p => p.id === score.playerId);
+        if (!player) return;
+
+        const handicap = basis === 'gross'
+          ? 0
+          : this.scoringService.getPlayingHandicap(tournament, player, round, sidegame.handicapAllowance);
+        holeResults[player.id] = basis === 'stableford'
+          ? this.scoringService.calculateStablefordPoints(tournament, score.strokes, score.par, handicap, hole)
+          : this.scoringService.calculateNetToPar(tournament, score.strokes, score.par, handicap, hole);
+      });
+
+      const teamMatch = this.teamSidegameService.processHoleMatch(sidegame.id, hole, holeResults);
+      if (teamMatch) {
+        messages.push(createMessage('team_match_update', { teamMatch, sidegameId: sidegame.id }));
+      } else {
+        // A sum-match hole waits for two complete teams, so a deleted score can take its result away
+        cleared = this.teamSidegameService.clearHoleMatch(sidegame.id, hole) || cleared;
+      }
+    });
+
+    if (messages.length > 0 || cleared) {
+      messages.push(createMessage('team_leaderboard_update', {
+        leaderboard: this.teamSidegameService.generateTeamLeaderboard(sidegame.id),
+        sidegameId: sidegame.id,
+      }));
+    }
+    return messages;
+  }
+}
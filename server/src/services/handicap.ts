@@ -0,0 +1,81 @@
+// Handicap and per-hole scoring helpers shared by ScoringService and TeamSidegameService
+import { HandicapAllowance, MaxHoleScore } from '../types';
+
+export function getTotalPar(par: number[]): number {
+  return par.reduce((sum, holePar) => sum + holePar, 0);
+}
+
+// Course handicap: (Handicap Index × Slope Rating ÷ 113) + (Course Rating - Par)
+export function calculateCourseHandicap(handicapIndex: number, slopeRating: number, courseRating: number, totalPar: number): number {
+  return Math.round((handicapIndex * slopeRating / 113) + (courseRating - totalPar));
+}
+
+// Recommended WHS allowances for common formats
+export const HANDICAP_ALLOWANCES: { [format: string]: HandicapAllowance } = {
+  'individual-stroke-play': { percentage: 95 },
+  'individual-stableford': { percentage: 95 },
+  'individual-match-play': { percentage: 100 },
+  'four-ball': { percentage: 85 },
+  'foursomes': { percentage: 50, pairPercentages: [50, 50] },
+  'greensomes': { percentage: 60, pairPercentages: [60, 40] },
+};
+
+// Playing handicap: course handicap plus any mixed-tee adjustment, scaled by the format allowance
+export function calculatePlayingHandicap(courseHandicap: number, allowance: HandicapAllowance | undefined, mixedTeeAdjustment: number = 0): number {
+  const percentage = allowance ? allowance.percentage : 100;
+  return Math.max(0, Math.round((courseHandicap + mixedTeeAdjustment) * percentage / 100)); // Cannot receive negative strokes
+}
+
+// One-ball pair handicap: lower and higher handicap weighted by the pair percentages,
+// or the allowance percentage of the combined handicap
+export function calculatePairHandicap(handicapA: number, handicapB: number, allowance: HandicapAllowance): number {
+  const [lower, higher] = [handicapA, handicapB].sort((a, b) => a - b);
+  if (allowance.pairPercentages) {
+    const [lowerPercentage, higherPercentage] = allowance.pairPercentages;
+    return Math.max(0, Math.round((lower * lowerPercentage + higher * higherPercentage) / 100));
+  }
+  return Math.max(0, Math.round((lower + higher) * allowance.percentage / 100));
+}
+
+// WHS mixed tees: players on a tee with a higher par than the base tee receive the difference
+// as extra strokes. Course rating differences are already included through the (Course Rating - Par) term.
+export function getMixedTeeAdjustment(teePar: number, basePar: number): number {
+  return teePar - basePar;
+}
+
+// Handicap strokes received on a hole, allocated by stroke index (1 = hardest hole)
+export function getStrokesReceivedOnHole(receivedStrokes: number, strokeIndex: number): number {
+  return Math.floor(receivedStrokes / 18) + (strokeIndex <= (receivedStrokes % 18) ? 1 : 0);
+}
+
+// Net score relative to par on a hole, e.g. -1 for a net birdie
+export function calculateNetToPar(strokes: number, par: number, receivedStrokes: number, strokeIndex: number): number {
+  return strokes - getStrokesReceivedOnHole(receivedStrokes, strokeIndex) - par;
+}
+
+// Maximum hole score for adjusted gross score: net double bogey (par + 2 + strokes received) or par + X
+export function calculateMaxHoleScore(par: number, receivedStrokes: number, strokeIndex: number, maxHoleScore?: MaxHoleScore): number {
+  if (maxHoleScore?.method === 'par-plus') {
+    return par + (maxHoleScore.overPar ?? 3);
+  }
+  return par + 2 + getStrokesReceivedOnHole(receivedStrokes, strokeIndex);
+}
+
+// Score differential: (113 ÷ Slope Rating) × (Adjusted Gross Score - Course Rating), rounded to one decimal
+export function calculateScoreDifferential(adjustedGrossScore: number, courseRating: number, slopeRating: number): number {
+  return Math.round((113 / slopeRating) * (adjustedGrossScore - courseRating) * 10) / 10;
+}
+
+export function calculateStablefordPoints(strokes: number, par: number, receivedStrokes: number, strokeIndex: number): number {
+  // Adjusted par for this player on this hole
+  const adjustedPar = par + getStrokesReceivedOnHole(receivedStrokes, strokeIndex);
+
+  // Calculate stableford points based on score vs adjusted par
+  const scoreDiff = strokes - adjustedPar;
+
+  if (scoreDiff <= -2) return 4; // Eagle or better (2+ under adjusted par)
+  if (scoreDiff === -1) return 3; // Birdie (1 under adjusted par)
+  if (scoreDiff === 0) return 2;  // Par (equal to adjusted par)
+  if (scoreDiff === 1) return 1;  // Bogey (1 over adjusted par)
+  return 0; // Double bogey or worse (2+ over adjusted par)
+}
@@ -0,0 +1,361 @@
+import { ContestStatus, LedgerEntry, Settlement, SettlementTransfer, TeamSidegame } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import fs from 'fs';
+import path from 'path';
+import { ContestService } from './contest';
+import { ScoringService } from './scoring';
+import { TeamSidegameService } from './teamSidegame';
+
+const GAME_NAMES: { [gameType in TeamSidegame['gameType']]: string } = {
+  'all-vs-all': 'All vs All',
+  'sum-match': 'Sum Match',
+  'four-ball': 'Four-Ball',
+  'foursomes': 'Foursomes',
+  'greensomes': 'Greensomes',
+  'skins': 'Skins',
+  'nassau': 'Nassau',
+  'wolf': 'Wolf',
+};
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Rounds every amount to cents. The cents lost to rounding go back a cent at a time to the amounts
+// rounded furthest the other way, so a posting that sums to zero still does.
+function balanceAmounts(amounts: { [playerId: string]: number }): { [playerId: string]: number } {
+  const rounded = Object.fromEntries(Object.entries(amounts).map(([playerId, amount]) => [playerId, roundAmount(amount)]));
+  const exactTotal = Object.values(amounts).reduce((sum, amount) => sum + amount, 0);
+  const roundedTotal = Object.values(rounded).reduce((sum, amount) => sum + amount, 0);
+  const cents = Math.round((exactTotal - roundedTotal) * 100);
+  const direction = Math.sign(cents);
+
+  Object.keys(rounded)
+    .sort((a, b) => direction * ((amounts[b] - rounded[b]) - (amounts[a] - rounded[a])) || a.localeCompare(b))
+    .slice(0, Math.abs(cents))
+    .forEach(playerId => {
+      rounded[playerId] = roundAmount(rounded[playerId] + direction / 100);
+    });
+  return rounded;
+}
+
+// Each side settles its points difference with every other side at the stake:
+// stake × (sides × own points - total points), which sums to zero over all sides
+function settlePoints(points: { [sideId: string]: number }, stake: number): { [sideId: string]: number } {
+  const sideIds = Object.keys(points);
+  const total = sideIds.reduce((sum, id) => sum + points[id], 0);
+  const amounts: { [sideId: string]: number } = {};
+  sideIds.forEach(id => {
+    amounts[id] = stake * (sideIds.length * points[id] - total);
+  });
+  return amounts;
+}
+
+export class LedgerService {
+  private entries: Map<string, LedgerEntry> = new Map();
+  private dataPath: string;
+  private saveInProgress = false;
+
+  constructor(
+    private scoringService: ScoringService,
+    private teamSidegameService: TeamSidegameService,
+    private contestService: ContestService
+  ) {
+    this.dataPath = path.join(process.cwd(), 'tournament-data');
+    if (!fs.existsSync(this.dataPath)) {
+      fs.mkdirSync(this.dataPath, { recursive: true });
+    }
+  }
+
+  getEntries(tournamentId: string): LedgerEntry[] {
+    return Array.from(this.entries.values())
+      .filter(entry => entry.tournamentId === tournamentId)
+      .sort((a, b) => a.round - b.round || a.description.localeCompare(b.description));
+  }
+
+  // Re-posts the entries of every staked sidegame and prized contest from the current results, and drops
+  // those of sidegames and contests that no longer exist
+  syncTournament(tournamentId: string): void {
+    const tournament = this.scoringService.getTournament(tournamentId);
+    if (!tournament) return;
+
+    const sidegames = this.teamSidegameService.getSidegamesByTournament(tournamentId);
+    const contests = this.contestService.getContestsByTournament(tournamentId);
+    const liveSourceIds = new Set([...sidegames, ...contests].map(source => source.id));
+    const orphaned = this.getEntries(tournamentId).filter(entry => !liveSourceIds.has(entry.sourceId));
+    orphaned.forEach(entry => this.entries.delete(entry.id));
+
+    let changed = orphaned.length > 0;
+
+    sidegames.forEach(sidegame => {
+      const staked = sidegame.stake !== undefined || sidegame.gameType === 'nassau';
+      const amounts = staked ? this.getSidegameAmounts(sidegame) : {};
+      const description = `${GAME_NAMES[sidegame.gameType]} round ${sidegame.round}`;
+      changed = this.postEntries(tournamentId, 'sidegame', sidegame.id, sidegame.round, description, amounts) || changed;
+    });
+
+    contests.forEach(contest => {
+      const status = this.contestService.getContestStatus(contest.id);
+      const amounts = status && contest.prize ? this.getContestAmounts(status, contest.prize) : {};
+      const description = `${contest.name} round ${contest.round}`;
+      changed = this.postEntries(tournamentId, 'contest', contest.id, contest.round, description, amounts) || changed;
+    });
+
+    if (changed) {
+      this.autoSave();
+    }
+  }
+
+  // Replaces the source's entries when they changed; returns whether anything was removed or posted
+  private postEntries(
+    tournamentId: string,
+    source: LedgerEntry['source'],
+    sourceId: string,
+    round: number,
+    description: string,
+    amounts: { [playerId: string]: number }
+  ): boolean {
+    const previous = Array.from(this.entries.values()).filter(entry => entry.sourceId === sourceId);
+    const tournament = this.scoringService.getTournament(tournamentId);
+
+    let posted = Object.entries(balanceAmounts(amounts))
+      .filter(([, amount]) => amount !== 0)
+      .map(([playerId, amount]) => ({
+        playerId,
+        playerName: tournament?.players.find(p => p.id === playerId)?.name || playerId,
+        amount,
+      }));
+    if (Math.abs(posted.reduce((sum, entry) => sum + entry.amount, 0)) > 0.001) {
+      console.error(`Ledger entries for ${description} don't sum to zero - not posted`);
+      posted = [];
+    }
+
+    const describe = (entries: Pick<LedgerEntry, 'playerId' | 'playerName' | 'amount'>[]) => entries
+      .map(entry => `${entry.playerId}|${entry.playerName}|${entry.amount}`)
+      .sort()
+      .join('\n');
+    if (previous.every(entry => entry.round === round && entry.description === description) && describe(previous) === describe(posted)) {
+      return false;
+    }
+
+    previous.forEach(entry => this.entries.delete(entry.id));
+    posted.forEach(({ playerId, playerName, amount }) => {
+      const entry: LedgerEntry = {
+        id: uuidv4(),
+        tournamentId,
+        source,
+        sourceId,
+        round,
+        playerId,
+        playerName,
+        amount,
+        description,
+        createdAt: new Date().toISOString(),
+      };
+      this.entries.set(entry.id, entry);
+    });
+
+    return true;
+  }
+
+  // Every player puts the prize in and the winners share it, so a single winner collects
+  // the prize from each other player and a hole-in-one pot is split between the aces
+  private getContestAmounts(status: ContestStatus, prize: number): { [playerId: string]: number } {
+    const tournament = this.scoringService.getTournament(status.tournamentId);
+    if (!tournament || status.winnerIds.length === 0) return {};
+
+    const participants = tournament.players.filter(p => !p.withdrawnAt || status.winnerIds.includes(p.id));
+    const amounts: { [playerId: string]: number } = {};
+    participants.forEach(player => {
+      amounts[player.id] = -prize;
+    });
+
+    const share = prize * participants.length / status.winnerIds.length;
+    status.winnerIds.forEach(id => {
+      amounts[id] = (amounts[id] || 0) + share;
+    });
+    return amounts;
+  }
+
+  // Amount per player from the sidegame's results so far
+  private getSidegameAmounts(sidegame: TeamSidegame): { [playerId: string]: number } {
+    const stake = sidegame.stake || 0;
+
+    switch (sidegame.gameType) {
+      case 'skins': {
+        const skins = this.teamSidegameService.getSkins(sidegame.id);
+        const points = Object.fromEntries((skins?.players || []).map(p => [p.playerId, p.skins]));
+        return settlePoints(points, stake);
+      }
+      case 'wolf': {
+        const wolf = this.teamSidegameService.getWolf(sidegame.id);
+        const points = Object.fromEntries((wolf?.players || []).map(p => [p.playerId, p.points]));
+        return settlePoints(points, stake);
+      }
+      case 'nassau':
+        return this.getNassauAmounts(sidegame);
+      default:
+        return this.getTeamAmounts(sidegame, stake);
+    }
+  }
+
+  // Team games: each team collects or pays its difference with every other team, shared equally
+  // between its players
+  // Nassau bets are settled side against side, each worth the Nassau stake per player of a full side, and a
+  // side's result is shared by its players still in the tournament, so the amounts sum to zero when sides differ
+  private getNassauAmounts(sidegame: TeamSidegame): { [playerId: string]: number } {
+    const tournament = this.scoringService.getTournament(sidegame.tournamentId);
+    const nassau = this.teamSidegameService.getNassau(sidegame.id);
+    if (!tournament || !nassau) return {};
+
+    const members: { [sideId: string]: string[] } = {};
+    nassau.sides.forEach(side => {
+      const playerIds = side.playerIds.filter(playerId => tournament.players.some(p => p.id === playerId));
+      if (playerIds.length > 0) {
+        members[side.id] = playerIds;
+      }
+    });
+
+    const betsWon = Object.fromEntries(Object.keys(members).map(sideId =>
+      [sideId, nassau.bets.filter(bet => bet.complete && bet.leaderSideId === sideId).length]));
+    const sideSize = Math.max(...nassau.sides.map(side => side.playerIds.length));
+    const sideAmounts = settlePoints(betsWon, nassau.stake * sideSize);
+
+    const amounts: { [playerId: string]: number } = {};
+    Object.entries(sideAmounts).forEach(([sideId, amount]) => {
+      members[sideId].forEach(playerId => {
+        amounts[playerId] = amount / members[sideId].length;
+      });
+    });
+    return amounts;
+  }
+
+  private getTeamAmounts(sidegame: TeamSidegame, stake: number): { [playerId: string]: number } {
+    const tournament = this.scoringService.getTournament(sidegame.tournamentId);
+    if (!tournament) return {};
+
+    const members: { [teamId: string]: string[] } = {};
+    this.teamSidegameService.getSidegameTeams(sidegame).forEach(team => {
+      const playerIds = team.playerIds.filter(playerId => tournament.players.some(p => p.id === playerId));
+      if (playerIds.length > 0) {
+        members[team.id] = playerIds;
+      }
+    });
+
+    // Teams without players can't pay or collect, so they are left out of the settlement
+    const leaderboard = this.teamSidegameService.generateTeamLeaderboard(sidegame.id).filter(team => members[team.teamId]);
+    const teamAmounts = settlePoints(Object.fromEntries(leaderboard.map(team => [team.teamId, team.totalPoints])), stake);
+
+    const amounts: { [playerId: string]: number } = {};
+    Object.entries(teamAmounts).forEach(([teamId, amount]) => {
+      members[teamId].forEach(playerId => {
+        amounts[playerId] = amount / members[teamId].length;
+      });
+    });
+    return amounts;
+  }
+
+  // Net balances and a minimal set of transfers: the largest debtor pays the largest creditor until all are square
+  getSettlement(tournamentId: string): Settlement {
+    const entries = this.getEntries(tournamentId);
+    const balances = new Map<string, { playerId: string; playerName: string; balance: number }>();
+
+    entries.forEach(entry => {
+      const balance = balances.get(entry.playerId) || { playerId: entry.playerId, playerName: entry.playerName, balance: 0 };
+      balance.balance = roundAmount(balance.balance + entry.amount);
+      balances.set(entry.playerId, balance);
+    });
+
+    const sorted = Array.from(balances.values()).sort((a, b) => b.balance - a.balance);
+    const creditors = sorted.filter(b => b.balance > 0).map(b => ({ ...b }));
+    const debtors = sorted
+      .filter(b => b.balance < 0)
+      .map(b => ({ ...b, balance: -b.balance }))
+      .sort((a, b) => b.balance - a.balance);
+
+    const transfers: SettlementTransfer[] = [];
+    let c = 0;
+    let d = 0;
+    while (c < creditors.length && d < debtors.length) {
+      const amount = roundAmount(Math.min(creditors[c].balance, debtors[d].balance));
+      if (amount > 0) {
+        transfers.push({
+          fromPlayerId: debtors[d].playerId,
+          fromPlayerName: debtors[d].playerName,
+          toPlayerId: creditors[c].playerId,
+          toPlayerName: creditors[c].playerName,
+          amount,
+        });
+      }
+
+      creditors[c].balance = roundAmount(creditors[c].balance - amount);
+      debtors[d].balance = roundAmount(debtors[d].balance - amount);
+      if (creditors[c].balance <= 0) c++;
+      if (debtors[d].balance <= 0) d++;
+    }
+
+    return { tournamentId, balances: sorted, transfers, entries };
+  }
+
+  // Persistence methods
+  private saveLedger(): void {
+    if (this.saveInProgress) {
+      console.log('Ledger save already in progress, skipping...');
+      return;
+    }
+
+    this.saveInProgress = true;
+    try {
+      const entriesObject = Object.fromEntries(this.entries);
+      const dataFile = path.join(this.dataPath, 'ledger.json');
+      const tempFile = dataFile + '.tmp';
+
+      fs.writeFileSync(tempFile, JSON.stringify(entriesObject, null, 2));
+      fs.renameSync(tempFile, dataFile);
+
+      console.log('Ledger data saved successfully');
+    } catch (error) {
+      console.error('Failed to save ledger data:', error);
+      const tempFile = path.join(this.dataPath, 'ledger.json.tmp');
+      if (fs.existsSync(tempFile)) {
+        fs.unlinkSync(tempFile);
+      }
+    } finally {
+      this.saveInProgress = false;
+    }
+  }
+
+  loadLedger(): void {
+    try {
+      const dataFile = path.join(this.dataPath, 'ledger.json');
+      if (fs.existsSync(dataFile)) {
+        const data = fs.readFileSync(dataFile, 'utf8');
+        const entriesObject = JSON.parse(data);
+        this.entries = new Map(Object.entries(entriesObject));
+        console.log(`Loaded ${this.entries.size} ledger entries from storage`);
+      } else {
+        console.log('No existing ledger data found');
+      }
+    } catch (error) {
+      console.error('Failed to load ledger data:', error);
+    }
+  }
+
+  private autoSave(): void {
+    this.saveLedger();
+  }
+
+  // Clear all ledger entries for a specific tournament
+  clearTournamentLedger(tournamentId: string): void {
+    const entriesToDelete = this.getEntries(tournamentId);
+
+    entriesToDelete.forEach(entry => {
+      this.entries.delete(entry.id);
+    });
+
+    if (entriesToDelete.length > 0) {
+      this.autoSave();
+      console.log(`Cleared ${entriesToDelete.length} ledger entries for tournament: ${tournamentId}`);
+    }
+  }
+}
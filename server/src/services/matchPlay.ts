@@ -0,0 +1,279 @@
+import { MatchPlayMatch, MatchPlayInput, MatchPlayConcession, MatchPlayHoleResult, MatchPlayStatus, Player, Tournament } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import fs from 'fs';
+import path from 'path';
+import { getStrokesReceivedOnHole, HANDICAP_ALLOWANCES } from './handicap';
+import { ScoringService } from './scoring';
+
+// Match state and result text from the current lead (holes up) after a number of decided holes
+export function describeMatchResult(lead: number, holesPlayed: number, totalHoles: number = 18): Pick<MatchPlayStatus, 'state' | 'result'> {
+  const holesRemaining = totalHoles - holesPlayed;
+
+  if (holesPlayed === 0) {
+    return { state: 'not-started', result: 'Not started' };
+  }
+  if (lead > holesRemaining || holesRemaining === 0) {
+    const result = lead === 0 ? 'Halved' : holesRemaining === 0 ? `${lead} UP` : `${lead}&${holesRemaining}`;
+    return { state: 'complete', result };
+  }
+  if (lead === 0) {
+    return { state: 'in-progress', result: `AS thru ${holesPlayed}` };
+  }
+  if (lead === holesRemaining) {
+    return { state: 'dormie', result: `Dormie ${lead} UP` };
+  }
+  return { state: 'in-progress', result: `${lead} UP thru ${holesPlayed}` };
+}
+
+export class MatchPlayService {
+  private matches: Map<string, MatchPlayMatch> = new Map();
+  private dataPath: string;
+  private saveInProgress = false;
+
+  constructor(private scoringService: ScoringService) {
+    this.dataPath = path.join(process.cwd(), 'tournament-data');
+    if (!fs.existsSync(this.dataPath)) {
+      fs.mkdirSync(this.dataPath, { recursive: true });
+    }
+  }
+
+  createMatch(tournamentId: string, round: number, input: MatchPlayInput): MatchPlayMatch | null {
+    const tournament = this.scoringService.getTournament(tournamentId);
+    if (!tournament) return null;
+
+    // Both players must be in the tournament and not already paired this round
+    const [playerA, playerB] = input.playerIds;
+    if (!input.playerIds.every(id => tournament.players.some(p => p.id === id))) return null;
+    if (this.getMatchesByRound(tournamentId, round).some(m => m.playerIds.includes(playerA) || m.playerIds.includes(playerB))) {
+      return null;
+    }
+
+    const match: MatchPlayMatch = {
+      id: uuidv4(),
+      tournamentId,
+      round,
+      playerIds: [playerA, playerB],
+      scoring: input.scoring,
+      handicapAllowance: input.handicapAllowance,
+      holeConcessions: [],
+      createdAt: new Date().toISOString(),
+    };
+
+    this.matches.set(match.id, match);
+    this.autoSave();
+    return match;
+  }
+
+  getMatch(id: string): MatchPlayMatch | undefined {
+    return this.matches.get(id);
+  }
+
+  getMatchesByRound(tournamentId: string, round: number): MatchPlayMatch[] {
+    return Array.from(this.matches.values()).filter(m => m.tournamentId === tournamentId && m.round === round);
+  }
+
+  getMatchesByTournament(tournamentId: string): MatchPlayMatch[] {
+    return Array.from(this.matches.values())
+      .filter(m => m.tournamentId === tournamentId)
+      .sort((a, b) => a.round - b.round);
+  }
+
+  deleteMatch(id: string): boolean {
+    if (!this.matches.delete(id)) return false;
+    this.autoSave();
+    return true;
+  }
+
+  // Concede a single hole, or the whole match when no hole is given
+  concede(matchId: string, concession: MatchPlayConcession): MatchPlayMatch | null {
+    const match = this.matches.get(matchId);
+    if (!match || !match.playerIds.includes(concession.playerId)) return null;
+
+    if (concession.hole === undefined) {
+      match.concededBy = concession.playerId;
+    } else {
+      match.holeConcessions = [
+        ...match.holeConcessions.filter(c => c.hole !== concession.hole),
+        { hole: concession.hole, playerId: concession.playerId },
+      ];
+    }
+
+    this.autoSave();
+    return match;
+  }
+
+  getMatchStatus(matchId: string): MatchPlayStatus | null {
+    const match = this.matches.get(matchId);
+    if (!match) return null;
+
+    const tournament = this.scoringService.getTournament(match.tournamentId);
+    if (!tournament) return null;
+
+    const players = match.playerIds.map(id => tournament.players.find(p => p.id === id));
+    if (!players[0] || !players[1]) return null;
+    const [playerA, playerB] = players as [Player, Player];
+
+    // The higher handicap receives the difference, allocated by stroke index
+    const allowance = match.handicapAllowance || HANDICAP_ALLOWANCES['individual-match-play'];
+    const handicapA = this.scoringService.getPlayingHandicap(tournament, playerA, match.round, allowance);
+    const handicapB = this.scoringService.getPlayingHandicap(tournament, playerB, match.round, allowance);
+    const difference = match.scoring === 'net' ? Math.abs(handicapA - handicapB) : 0;
+
+    const holes: MatchPlayHoleResult[] = [];
+    let lead = 0; // Positive when player A is up
+    let holesPlayed = 0;
+
+    for (let hole = 1; hole <= 18; hole++) {
+      // Stop once the match is decided
+      if (Math.abs(lead) > 18 - holesPlayed) break;
+
+      const result = this.getHoleResult(tournament, match, hole, playerA, playerB, {
+        [playerA.id]: handicapA > handicapB ? getStrokesReceivedOnHole(difference, tournament.strokeIndex[hole - 1]) : 0,
+        [playerB.id]: handicapB > handicapA ? getStrokesReceivedOnHole(difference, tournament.strokeIndex[hole - 1]) : 0,
+      });
+      if (!result) continue;
+
+      holes.push(result);
+      holesPlayed++;
+      if (result.winnerId === playerA.id) lead++;
+      if (result.winnerId === playerB.id) lead--;
+    }
+
+    const holesRemaining = 18 - holesPlayed;
+    const leaderId = lead > 0 ? playerA.id : lead < 0 ? playerB.id : null;
+    const status: MatchPlayStatus = {
+      matchId: match.id,
+      round: match.round,
+      players: [
+        { id: playerA.id, name: playerA.name, playingHandicap: handicapA },
+        { id: playerB.id, name: playerB.name, playingHandicap: handicapB },
+      ],
+      holes,
+      holesPlayed,
+      holesRemaining,
+      leaderId,
+      lead: Math.abs(lead),
+      state: 'in-progress',
+      winnerId: null,
+      result: '',
+    };
+
+    return this.describeStatus(status, match.concededBy);
+  }
+
+  getRoundStatuses(tournamentId: string, round: number): MatchPlayStatus[] {
+    return this.getMatchesByRound(tournamentId, round)
+      .map(match => this.getMatchStatus(match.id))
+      .filter((status): status is MatchPlayStatus => status !== null);
+  }
+
+  private getHoleResult(
+    tournament: Tournament,
+    match: MatchPlayMatch,
+    hole: number,
+    playerA: Player,
+    playerB: Player,
+    strokesReceived: { [playerId: string]: number }
+  ): MatchPlayHoleResult | null {
+    const strokesFor = (player: Player) =>
+      tournament.scores.find(s => s.playerId === player.id && s.round === match.round && s.hole === hole)?.strokes ?? null;
+    const strokes = { [playerA.id]: strokesFor(playerA), [playerB.id]: strokesFor(playerB) };
+
+    const concession = match.holeConcessions.find(c => c.hole === hole);
+    if (concession) {
+      return {
+        hole,
+        strokes,
+        strokesReceived,
+        winnerId: concession.playerId === playerA.id ? playerB.id : playerA.id,
+        conceded: true,
+      };
+    }
+
+    const strokesA = strokes[playerA.id];
+    const strokesB = strokes[playerB.id];
+    if (strokesA === null || strokesB === null) return null;
+
+    const netA = strokesA - strokesReceived[playerA.id];
+    const netB = strokesB - strokesReceived[playerB.id];
+    return {
+      hole,
+      strokes,
+      strokesReceived,
+      winnerId: netA < netB ? playerA.id : netB < netA ? playerB.id : null,
+      conceded: false,
+    };
+  }
+
+  private describeStatus(status: MatchPlayStatus, concededBy?: string): MatchPlayStatus {
+    if (concededBy) {
+      const winner = status.players.find(p => p.id !== concededBy)!;
+      return { ...status, state: 'complete', winnerId: winner.id, result: `${winner.name} wins, conceded` };
+    }
+
+    const { state, result } = describeMatchResult(status.lead, status.holesPlayed);
+    return { ...status, state, result, winnerId: state === 'complete' ? status.leaderId : null };
+  }
+
+  // Persistence methods
+  private saveMatches(): void {
+    if (this.saveInProgress) {
+      console.log('Match play save already in progress, skipping...');
+      return;
+    }
+
+    this.saveInProgress = true;
+    try {
+      const matchesObject = Object.fromEntries(this.matches);
+      const dataFile = path.join(this.dataPath, 'matchplay.json');
+      const tempFile = dataFile + '.tmp';
+
+      fs.writeFileSync(tempFile, JSON.stringify(matchesObject, null, 2));
+      fs.renameSync(tempFile, dataFile);
+
+      console.log('Match play data saved successfully');
+    } catch (error) {
+      console.error('Failed to save match play data:', error);
+      const tempFile = path.join(this.dataPath, 'matchplay.json.tmp');
+      if (fs.existsSync(tempFile)) {
+        fs.unlinkSync(tempFile);
+      }
+    } finally {
+      this.saveInProgress = false;
+    }
+  }
+
+  loadMatches(): void {
+    try {
+      const dataFile = path.join(this.dataPath, 'matchplay.json');
+      if (fs.existsSync(dataFile)) {
+        const data = fs.readFileSync(dataFile, 'utf8');
+        const matchesObject = JSON.parse(data);
+        this.matches = new Map(Object.entries(matchesObject));
+        console.log(`Loaded ${this.matches.size} match play matches from storage`);
+      } else {
+        console.log('No existing match play data found');
+      }
+    } catch (error) {
+      console.error('Failed to load match play data:', error);
+    }
+  }
+
+  private autoSave(): void {
+    this.saveMatches();
+  }
+
+  // Clear all matches for a specific tournament
+  clearTournamentMatches(tournamentId: string): void {
+    const matchesToDelete = this.getMatchesByTournament(tournamentId);
+
+    matchesToDelete.forEach(match => {
+      this.matches.delete(match.id);
+    });
+
+    if (matchesToDelete.length > 0) {
+      this.autoSave();
+      console.log(`Cleared ${matchesToDelete.length} match play matches for tournament: ${tournamentId}`);
+    }
+  }
+}
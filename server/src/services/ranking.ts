@@ -0,0 +1,144 @@
+// Leaderboard positions with shared ties and countback, used by ScoringService
+import { LeaderboardEntry, LeaderboardView, ScoringBasis, Tiebreak, TiebreakRule } from '../types';
+
+export interface RankedEntry {
+  entry: LeaderboardEntry;
+  position: number;
+  label: string;
+}
+
+// Holes (1-based) compared by each countback rule
+const COUNTBACK_HOLES: { [rule in Exclude<TiebreakRule, 'previous-round'>]: number[] } = {
+  'back-9': [10, 11, 12, 13, 14, 15, 16, 17, 18],
+  'back-6': [13, 14, 15, 16, 17, 18],
+  'back-3': [16, 17, 18],
+  'back-1': [18],
+};
+
+// Score relative to par for a basis; Stableford is points vs 2 per hole so lower is always better
+function getRankingValue(entry: LeaderboardEntry, basis: ScoringBasis, view: LeaderboardView): number {
+  if (view === 'cumulative' && entry.totals) {
+    switch (basis) {
+      case 'net':
+        return entry.totals.netToPar;
+      case 'stableford':
+        return -entry.totals.stablefordVsPar;
+      default:
+        return entry.totals.grossToPar;
+    }
+  }
+
+  switch (basis) {
+    case 'net':
+      return entry.netScore || 0;
+    case 'stableford':
+      return -(entry.stablefordVsPar || 0);
+    default:
+      return entry.currentScore;
+  }
+}
+
+function getHoleValues(entry: LeaderboardEntry, basis: ScoringBasis): (number | null)[] {
+  switch (basis) {
+    case 'net':
+      return entry.netScores || [];
+    case 'stableford':
+      return (entry.stablefordPoints || []).map(points => points === null ? null : -points);
+    default:
+      return entry.holeScores || [];
+  }
+}
+
+function getPreviousRoundValue(entry: LeaderboardEntry, round: number, basis: ScoringBasis): number | null {
+  const previousRound = entry.roundScores?.find(r => r.round === round - 1);
+  if (!previousRound || previousRound.roundStrokes === 0) return null;
+
+  switch (basis) {
+    case 'net':
+      return previousRound.roundNetScore;
+    case 'stableford':
+      return -previousRound.roundStablefordPoints;
+    default:
+      return previousRound.roundStrokes;
+  }
+}
+
+// Negative when a wins the tiebreak, 0 when the chain cannot separate the players
+function compareTiebreak(a: LeaderboardEntry, b: LeaderboardEntry, round: number, basis: ScoringBasis, tiebreak: Tiebreak): number {
+  // Countback only decides final results
+  if (a.holesCompleted < 18 || b.holesCompleted < 18) return 0;
+
+  const tiebreakBasis = tiebreak.basis || basis;
+  for (const rule of tiebreak.rules) {
+    if (rule === 'previous-round') {
+      const aValue = getPreviousRoundValue(a, round, tiebreakBasis);
+      const bValue = getPreviousRoundValue(b, round, tiebreakBasis);
+      if (aValue !== null && bValue !== null && aValue !== bValue) {
+        return aValue - bValue;
+      }
+      continue;
+    }
+
+    const aHoles = getHoleValues(a, tiebreakBasis);
+    const bHoles = getHoleValues(b, tiebreakBasis);
+    const sumHoles = (values: (number | null)[]) =>
+      COUNTBACK_HOLES[rule].reduce((sum, hole) => sum + (values[hole - 1] || 0), 0);
+    const difference = sumHoles(aHoles) - sumHoles(bHoles);
+    if (difference !== 0) return difference;
+  }
+
+  return 0;
+}
+
+function hasDnf(entry: LeaderboardEntry): boolean {
+  return !!entry.totals?.rounds.some(round => round.counted && round.status === 'dnf');
+}
+
+function compareEntries(
+  a: LeaderboardEntry,
+  b: LeaderboardEntry,
+  round: number,
+  basis: ScoringBasis,
+  view: LeaderboardView,
+  tiebreak?: Tiebreak
+): number {
+  // Withdrawn players are listed last
+  if (a.withdrawn !== b.withdrawn) {
+    return a.withdrawn ? 1 : -1;
+  }
+  // An unfinished earlier round drops a player below everyone with a full record
+  if (view === 'cumulative' && hasDnf(a) !== hasDnf(b)) {
+    return hasDnf(a) ? 1 : -1;
+  }
+  const difference = getRankingValue(a, basis, view) - getRankingValue(b, basis, view);
+  if (difference !== 0) return difference;
+  return tiebreak ? compareTiebreak(a, b, round, basis, tiebreak) : 0;
+}
+
+// Ranks entries on one basis; players still level after the tiebreak chain share a position ("T3")
+export function rankLeaderboard(
+  entries: LeaderboardEntry[],
+  round: number,
+  basis: ScoringBasis,
+  view: LeaderboardView,
+  tiebreak?: Tiebreak
+): RankedEntry[] {
+  const holesCompleted = (entry: LeaderboardEntry) =>
+    view === 'cumulative' && entry.totals ? entry.totals.holesCompleted : entry.holesCompleted;
+  const sorted = [...entries].sort((a, b) =>
+    // More holes completed is listed first within a tie
+    compareEntries(a, b, round, basis, view, tiebreak) || holesCompleted(b) - holesCompleted(a)
+  );
+
+  const positions: number[] = [];
+  sorted.forEach((entry, index) => {
+    const tiedWithPrevious = index > 0 && compareEntries(sorted[index - 1], entry, round, basis, view, tiebreak) === 0;
+    positions.push(tiedWithPrevious ? positions[index - 1] : index + 1);
+  });
+
+  return sorted.map((entry, index) => {
+    const position = positions[index];
+    const shared = positions.filter(p => p === position).length > 1;
+    return { entry, position, label: shared ? `T${position}` : `${position}` };
+  });
+}
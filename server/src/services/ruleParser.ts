@@ -0,0 +1,383 @@
+import { ScoringUpdate } from '../types';
+
+// A deterministic parser for the spoken scoring patterns the LLM prompt documents: works offline,
+// as the fallback when the LLM fails and as a cross-check on its output
+
+type ContestType = NonNullable<ScoringUpdate['contest']>;
+type ScoreAction = 'eagle' | 'birdie' | 'par' | 'bogey' | 'double_bogey';
+
+type Token =
+  | { type: 'player'; name: string }
+  | { type: 'number'; value: number }
+  | { type: 'word'; text: string };
+
+// A score as spoken: strokes, or a term the par of the hole turns into strokes
+type ScoreValue = { strokes: number } | { action: ScoreAction };
+
+// Scores spoken for one hole or a run of holes: "from hole 6, 4 5 3 4" or "4 on hole 3"
+interface ScoreGroup {
+  values: ScoreValue[];
+  hole?: number;
+  holeAfterValues: boolean;
+}
+
+// One or more players sharing the scores and holes spoken after their names
+interface Clause {
+  players: string[];
+  groups: ScoreGroup[];
+}
+
+const NUMBER_WORDS: { [word: string]: number } = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17, eighteen: 18,
+  nineteen: 19, twenty: 20,
+};
+
+const ORDINAL_WORDS: { [word: string]: number } = {
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10,
+  eleventh: 11, twelfth: 12, thirteenth: 13, fourteenth: 14, fifteenth: 15, sixteenth: 16, seventeenth: 17, eighteenth: 18,
+};
+
+const SCORE_WORDS: { [word: string]: ScoreAction } = {
+  eagle: 'eagle',
+  birdie: 'birdie',
+  par: 'par',
+  bogey: 'bogey',
+};
+
+const DELETE_PATTERN = /\b(remove|delete|erase|undo|scratch)\b|\bdid(?:n'?t| not) play\b/;
+const START_WORDS = ['from', 'starting', 'start', 'beginning'];
+const MAX_STROKES = 15;
+
+export type ParsedScores = { [playerName: string]: { [hole: number]: number } };
+
+export function parseScoringRules(transcription: string, playerNames: string[] = [], currentScores?: ParsedScores): ScoringUpdate[] {
+  const updates: ScoringUpdate[] = [];
+  const aliases = buildAliases(playerNames);
+  const nextHoles = getNextHoles(playerNames, currentScores);
+  // With a single player in the tournament, scores without a name can only be theirs
+  let lastPlayers: string[] = playerNames.length === 1 ? [...playerNames] : [];
+
+  splitSentences(transcription).forEach(sentence => {
+    const tokens = tokenize(sentence, aliases);
+    const players = tokens.flatMap(t => t.type === 'player' ? [t.name] : []);
+    const add = (update: Omit<ScoringUpdate, 'rawTranscription'>) => updates.push({ ...update, rawTranscription: transcription });
+
+    if (/\bwolf\b/.test(sentence)) {
+      const wolf = parseWolf(sentence, tokens, players);
+      if (wolf) add(wolf);
+    } else if (getContestType(sentence)) {
+      const contest = parseContest(sentence, tokens, players);
+      if (contest) add(contest);
+    } else if (DELETE_PATTERN.test(sentence)) {
+      const hole = findHoles(tokens)[0] ?? tokens.find((t): t is Extract<Token, { type: 'number' }> => t.type === 'number')?.value ?? null;
+      (players.length > 0 ? players : ['']).forEach(player => add({ player, hole, strokes: null, action: 'delete' }));
+    } else {
+      const clauses = parseScoreClauses(tokens, lastPlayers);
+      resolveScores(clauses, findHoles(tokens), nextHoles).forEach(add);
+      const spokenFor = clauses.length > 0 ? clauses[clauses.length - 1].players.filter(Boolean) : [];
+      if (spokenFor.length > 0) {
+        lastPlayers = spokenFor;
+      }
+    }
+
+    if (players.length > 0) {
+      lastPlayers = [players[players.length - 1]];
+    }
+  });
+
+  return updates;
+}
+
+// Updates that don't agree between two parses of the same transcription, one line per difference
+export function compareScoringUpdates(primary: ScoringUpdate[], check: ScoringUpdate[]): string[] {
+  const describe = (update: ScoringUpdate) => update.action === 'score' ? `${update.strokes}` : update.action;
+  const keyed = (updates: ScoringUpdate[]) => new Map(updates
+    .filter(u => u.action !== 'wolf' && u.action !== 'contest')
+    .map(u => [`${u.player.toLowerCase()}|${u.hole ?? '?'}`, u]));
+
+  const primaryUpdates = keyed(primary);
+  const checkUpdates = keyed(check);
+  const differences: string[] = [];
+
+  new Set([...primaryUpdates.keys(), ...checkUpdates.keys()]).forEach(key => {
+    const a = primaryUpdates.get(key);
+    const b = checkUpdates.get(key);
+    const update = (a || b)!;
+    const label = `${update.player || 'unknown player'} hole ${update.hole ?? '?'}`;
+    if (!a || !b) {
+      differences.push(`${label}: only in ${a ? 'primary' : 'check'} parse (${describe(update)})`);
+    } else if (describe(a) !== describe(b)) {
+      differences.push(`${label}: ${describe(a)} vs ${describe(b)}`);
+    }
+  });
+
+  return differences;
+}
+
+// Full names, and first and last names that belong to one player only
+function buildAliases(playerNames: string[]): Map<string, string> {
+  const aliases = new Map<string, string>();
+  const counts = new Map<string, number>();
+  const partsOf = (name: string) => normalize(name).split(' ').filter(Boolean);
+
+  playerNames.forEach(name => {
+    const parts = partsOf(name);
+    new Set([parts[0], parts[parts.length - 1]]).forEach(part => counts.set(part, (counts.get(part) || 0) + 1));
+  });
+
+  playerNames.forEach(name => {
+    const parts = partsOf(name);
+    [parts[0], parts[parts.length - 1]]
+      .filter(part => counts.get(part) === 1)
+      .forEach(part => aliases.set(part, name));
+  });
+  playerNames.forEach(name => aliases.set(partsOf(name).join(' '), name));
+
+  return aliases;
+}
+
+// The first hole without a score, where a player's scores carry on when no hole is spoken
+function getNextHoles(playerNames: string[], currentScores?: ParsedScores): { [playerName: string]: number } {
+  const nextHoles: { [playerName: string]: number } = {};
+  if (!currentScores) return nextHoles;
+
+  playerNames.forEach(name => {
+    const scores = currentScores[name] || {};
+    for (let hole = 1; hole <= 18; hole++) {
+      if (scores[hole] === undefined || scores[hole] === null) {
+        nextHoles[name] = hole;
+        break;
+      }
+    }
+  });
+  return nextHoles;
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[’`]/g, "'")
+    .replace(/'s\b/g, '')
+    .replace(/hole-in-one/g, 'hole in one')
+    .replace(/(\d)\s*-\s*(?=\d)/g, '$1 ')
+    .replace(/(\d),(?=\d)/g, '$1 ')
+    .replace(/[^a-z0-9.' ]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Sentences on full stops and other breaks, but not on decimal points
+function splitSentences(transcription: string): string[] {
+  return transcription
+    .split(/(?<!\d)[.!?;]+|[.!?;]+(?!\d)/)
+    .map(normalize)
+    .filter(Boolean);
+}
+
+function tokenize(sentence: string, aliases: Map<string, string>): Token[] {
+  const words = sentence.split(' ').filter(Boolean);
+  const tokens: Token[] = [];
+
+  for (let i = 0; i < words.length; i++) {
+    // Longest player name first, e.g. "erik qvist" before "erik"
+    let matched = false;
+    for (let length = 3; length >= 1 && !matched; length--) {
+      const name = aliases.get(words.slice(i, i + length).join(' '));
+      if (name) {
+        tokens.push({ type: 'player', name });
+        i += length - 1;
+        matched = true;
+      }
+    }
+    if (matched) continue;
+
+    const word = words[i].replace(/'/g, '');
+    const ordinal = word.match(/^(\d+)(st|nd|rd|th)$/);
+    if (/^\d+(\.\d+)?$/.test(word)) {
+      tokens.push({ type: 'number', value: parseFloat(word) });
+    } else if (ordinal) {
+      tokens.push({ type: 'number', value: parseInt(ordinal[1]) });
+    } else if (NUMBER_WORDS[word] !== undefined || ORDINAL_WORDS[word] !== undefined) {
+      tokens.push({ type: 'number', value: NUMBER_WORDS[word] ?? ORDINAL_WORDS[word] });
+    } else {
+      tokens.push({ type: 'word', text: word });
+    }
+  }
+
+  return tokens;
+}
+
+const isWord = (token: Token | undefined, ...texts: string[]) => token?.type === 'word' && texts.includes(token.text);
+
+// A hole spoken as "hole 6", "on 6", "at the 6th" or "from hole 6": the hole and the tokens it takes up
+function readHole(tokens: Token[], index: number): { hole: number; length: number } | null {
+  let i = index;
+  if (isWord(tokens[i], ...START_WORDS, 'on', 'at')) {
+    i++;
+    if (isWord(tokens[i], 'at', 'on', 'with')) i++;
+  }
+  if (isWord(tokens[i], 'the')) i++;
+  const holeWord = isWord(tokens[i], 'hole');
+  if (holeWord) i++;
+
+  const number = tokens[i];
+  // "hole in one" is a score, and a bare number needs "on", "at" or "from" before it to be a hole
+  if (number?.type !== 'number' || !Number.isInteger(number.value) || number.value < 1 || number.value > 18) return null;
+  if (!holeWord && i === index) return null;
+
+  return { hole: number.value, length: i - index + 1 };
+}
+
+function findHoles(tokens: Token[]): number[] {
+  const holes: number[] = [];
+  tokens.forEach((_, index) => {
+    const hole = readHole(tokens, index);
+    if (hole && !holes.includes(hole.hole)) holes.push(hole.hole);
+  });
+  return holes;
+}
+
+function readScore(tokens: Token[], index: number): { value: ScoreValue; length: number } | null {
+  const token = tokens[index];
+  if (isWord(token, 'hole') && isWord(tokens[index + 1], 'in') && tokens[index + 2]?.type === 'number') {
+    return { value: { strokes: 1 }, length: 3 };
+  }
+  if (isWord(token, 'ace')) return { value: { strokes: 1 }, length: 1 };
+  if (isWord(token, 'double')) {
+    return { value: { action: 'double_bogey' }, length: isWord(tokens[index + 1], 'bogey') ? 2 : 1 };
+  }
+  if (token?.type === 'word' && SCORE_WORDS[token.text]) {
+    return { value: { action: SCORE_WORDS[token.text] }, length: 1 };
+  }
+  if (token?.type === 'number' && Number.isInteger(token.value) && token.value >= 1 && token.value <= MAX_STROKES) {
+    return { value: { strokes: token.value }, length: 1 };
+  }
+  return null;
+}
+
+// Splits a sentence into each player's scores. Names spoken together share what follows them
+// ("Erik and Daniel par on 3"), and scores before any name go to the name that follows.
+// A hole before scores starts a run of holes, a hole after them closes it, so
+// "4 on hole 3 and 5 on hole 4" is two groups.
+function parseScoreClauses(tokens: Token[], lastPlayers: string[]): Clause[] {
+  const clauses: Clause[] = [];
+  const newGroup = (hole?: number): ScoreGroup => ({ values: [], hole, holeAfterValues: false });
+  const hasValues = (clause: Clause) => clause.groups.some(group => group.values.length > 0);
+  let clause: Clause = { players: [], groups: [newGroup()] };
+  const lastGroup = () => clause.groups[clause.groups.length - 1];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token.type === 'player') {
+      if (clause.players.length > 0 && hasValues(clause)) {
+        clauses.push(clause);
+        clause = { players: [], groups: [newGroup()] };
+      }
+      if (!clause.players.includes(token.name)) clause.players.push(token.name);
+      continue;
+    }
+
+    const hole = readHole(tokens, i);
+    if (hole) {
+      const group = lastGroup();
+      if (group.values.length === 0) {
+        group.hole = hole.hole;
+      } else if (group.hole === undefined) {
+        group.hole = hole.hole;
+        group.holeAfterValues = true;
+      } else {
+        clause.groups.push(newGroup(hole.hole));
+      }
+      i += hole.length - 1;
+      continue;
+    }
+
+    const score = readScore(tokens, i);
+    if (score) {
+      if (lastGroup().holeAfterValues) {
+        clause.groups.push(newGroup());
+      }
+      lastGroup().values.push(score.value);
+      i += score.length - 1;
+    }
+  }
+
+  if (hasValues(clause) && clause.players.length === 0) {
+    // Scores without a name in the sentence belong to the player spoken about last, and are left
+    // without a player when there is none
+    clause.players = lastPlayers.length > 0 ? lastPlayers : [''];
+  }
+  if (clause.players.length > 0 && hasValues(clause)) {
+    clauses.push(clause);
+  }
+  return clauses;
+}
+
+// Holes for every group of scores: its own hole, the sentence's only hole, or where the group before
+// it or the player's scores left off. Several scores run on over consecutive holes from the first.
+function resolveScores(clauses: Clause[], sentenceHoles: number[], nextHoles: { [playerName: string]: number }): Omit<ScoringUpdate, 'rawTranscription'>[] {
+  const sharedHole = sentenceHoles.length === 1 ? sentenceHoles[0] : undefined;
+
+  return clauses.flatMap(clause => clause.players.flatMap(player => {
+    let nextHole: number | undefined = sharedHole ?? nextHoles[player];
+
+    return clause.groups.flatMap(group => {
+      const startHole = group.hole ?? nextHole;
+      if (startHole !== undefined) {
+        nextHole = startHole + group.values.length;
+      }
+
+      return group.values
+        .map((value, index) => ({ value, hole: startHole !== undefined ? startHole + index : null }))
+        .filter(({ hole }) => hole === null || hole <= 18)
+        .map(({ value, hole }) => 'strokes' in value
+          ? { player, hole, strokes: value.strokes, action: 'score' as const }
+          : { player, hole, strokes: null, action: value.action });
+    });
+  }));
+}
+
+// "Erik is wolf and takes Daniel", "Tiger goes lone wolf on hole 7"
+function parseWolf(sentence: string, tokens: Token[], players: string[]): Omit<ScoringUpdate, 'rawTranscription'> | null {
+  if (players.length === 0) return null;
+
+  const alone = /\b(lone|alone|himself|herself|blind)\b/.test(sentence);
+  const partner = alone ? null : players.find(player => player !== players[0]);
+  if (partner === undefined) return null;
+
+  return { player: players[0], hole: findHoles(tokens)[0] ?? null, strokes: null, action: 'wolf', partner };
+}
+
+function getContestType(sentence: string): ContestType | null {
+  if (/\b(closest|nearest)\b/.test(sentence)) return 'closest-to-pin';
+  if (/\b(longest|long) drive\b/.test(sentence)) return 'longest-drive';
+  if (/\b(longest|long) putt\b/.test(sentence)) return 'longest-putt';
+  return null;
+}
+
+// "Henrik closest on 4, two metres", "Longest drive on 12 goes to Fredrik"
+function parseContest(sentence: string, tokens: Token[], players: string[]): Omit<ScoringUpdate, 'rawTranscription'> | null {
+  const contest = getContestType(sentence);
+  if (!contest || players.length === 0) return null;
+
+  let measurement: number | null = null;
+  tokens.forEach((token, index) => {
+    if (token.type !== 'number' || measurement !== null) return;
+
+    let value = token.value;
+    let next = index + 1;
+    if (isWord(tokens[next], 'and') && isWord(tokens[next + 1], 'a') && isWord(tokens[next + 2], 'half')) {
+      value += 0.5;
+      next += 3;
+    }
+    if (isWord(tokens[next], 'metres', 'meters', 'metre', 'meter', 'm')) {
+      measurement = value;
+    } else if (isWord(tokens[next], 'centimetres', 'centimeters', 'centimetre', 'centimeter', 'cm')) {
+      measurement = value / 100;
+    }
+  });
+
+  return { player: players[0], hole: findHoles(tokens)[0] ?? null, strokes: null, action: 'contest', contest, measurement };
+}
@@ -1,16 +1,22 @@
-import { Tournament, Player, ScoreEntry, ScoringUpdate, LeaderboardEntry } from '../types';
+import { Tournament, TournamentSummary, TournamentSettings, HandicapAllowance, Player, PlayerInput, PlayerUpdate, RoundHandicap, ScoreEntry, ScoringUpdate, LeaderboardEntry, LeaderboardTotals, Aggregation, LeaderboardView, RoundTotal, SidegamePair, TeeSet } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 import fs from 'fs';
 import path from 'path';
+import { CourseService } from './course';
+import { rankLeaderboard, RankedEntry } from './ranking';
+import { calculateCourseHandicap, calculateMaxHoleScore, calculateNetToPar, calculateScoreDifferential, calculatePlayingHandicap, calculateStablefordPoints, getMixedTeeAdjustment, getTotalPar } from './handicap';
+
+// Called for every score entered, changed or deleted; deleted scores come with 0 strokes
+export type ScoreChangeListener = (tournamentId: string, scoreEntry: ScoreEntry) => void;
 
 export class ScoringService {
   private tournaments: Map<string, Tournament> = new Map();
-  private standardPar = [4,4,5,3,5,4,4,4,3,4,5,3,4,4,5,4,3,4];
-  private standardIndex = [8,14,4,16,2,6,12,10,18,11,3,17,13,9,1,5,15,7];
+  private activeTournamentId: string | null = null;
+  private scoreChangeListeners: ScoreChangeListener[] = [];
   private dataPath: string;
   private saveInProgress = false;
 
-  constructor() {
+  constructor(private courseService: CourseService) {
     // Create data directory if it doesn't exist
     this.dataPath = path.join(process.cwd(), 'tournament-data');
     if (!fs.existsSync(this.dataPath)) {
@@ -18,56 +24,307 @@ export class ScoringService {
     }
   }
 
-  createTournament(name: string, course: string, playerNames: string[], totalRounds: number = 1): Tournament {
-    // Parse course rating and slope from course string (e.g., "El Saler 74.3 138")
-    const courseMatch = course.match(/^(.+?)\s+([\d.]+)\s+([\d.]+)$/);
-    const courseName = courseMatch ? courseMatch[1] : course;
-    const courseRating = courseMatch ? parseFloat(courseMatch[2]) : 72.0;
-    const slopeRating = courseMatch ? parseFloat(courseMatch[3]) : 113;
+  createTournament(name: string, courseId: string, players: PlayerInput[], totalRounds: number = 1, teeId?: string): Tournament | null {
+    const course = this.courseService.getCourse(courseId);
+    if (!course) return null;
+
+    // Course and slope rating come from the selected tee set (first tee by default)
+    const tee = teeId ? course.tees.find(t => t.id === teeId) : course.tees[0];
+    if (!tee) return null;
 
     const tournament: Tournament = {
       id: uuidv4(),
       name,
-      course: courseName,
-      courseRating,
-      slopeRating,
-      par: this.standardPar,
-      players: playerNames.map(name => this.parsePlayerInfo(name, courseRating, slopeRating)),
+      courseId: course.id,
+      course: course.name,
+      teeId: tee.id,
+      tees: course.tees,
+      courseRating: tee.courseRating,
+      slopeRating: tee.slopeRating,
+      par: course.holes.map(hole => hole.par),
+      strokeIndex: course.holes.map(hole => hole.strokeIndex),
+      players: [],
       scores: [],
       createdAt: new Date().toISOString(),
       totalRounds,
       currentRound: 1,
     };
 
+    tournament.players = players.map(player => this.parsePlayerInfo(tournament, player));
+
     this.tournaments.set(tournament.id, tournament);
     this.autoSave();
     return tournament;
   }
 
-  private parsePlayerInfo(playerString: string, courseRating: number, slopeRating: number): Player {
-    // Parse player name and handicap (e.g., "Christer Smedshammar 4.9")
-    const match = playerString.match(/^(.+?)\s+([\d.]+)$/);
-    const name = match ? match[1] : playerString;
-    const handicap = match ? parseFloat(match[2]) : 0;
-
-    // Calculate course handicap: (Handicap Index × Slope Rating ÷ 113) + (Course Rating - Par)
-    const totalPar = this.standardPar.reduce((sum, par) => sum + par, 0);
-    const courseHandicap = Math.round((handicap * slopeRating / 113) + (courseRating - totalPar));
-    const receivedStrokes = Math.max(0, courseHandicap); // Cannot receive negative strokes
+  private parsePlayerInfo(tournament: Tournament, playerInput: PlayerInput): Player {
+    let name: string;
+    let handicap: number;
+    let teeId: string | undefined;
+    let nickname: string | undefined;
+
+    if (typeof playerInput === 'string') {
+      // Parse player name and handicap (e.g., "Christer Smedshammar 4.9")
+      const match = playerInput.match(/^(.+?)\s+([\d.]+)$/);
+      name = match ? match[1] : playerInput;
+      handicap = match ? parseFloat(match[2]) : 0;
+    } else {
+      name = playerInput.name;
+      handicap = playerInput.handicap ?? 0;
+      teeId = playerInput.teeId;
+      nickname = playerInput.nickname || undefined;
+    }
 
-    return {
+    const player: Player = {
       id: uuidv4(),
       name,
+      nickname,
       currentHole: 1,
       handicap,
-      receivedStrokes,
+      teeId: teeId || tournament.teeId,
+    };
+
+    this.applyHandicap(tournament, player);
+    return player;
+  }
+
+  getPlayerTee(tournament: Tournament, player: Player): TeeSet | undefined {
+    return tournament.tees.find(t => t.id === (player.teeId || tournament.teeId));
+  }
+
+  // Recalculates course handicap and received strokes from the player's handicap index and tee
+  private applyHandicap(tournament: Tournament, player: Player): void {
+    const basePar = getTotalPar(tournament.par);
+    const tee = this.getPlayerTee(tournament, player);
+    const courseRating = tee ? tee.courseRating : tournament.courseRating;
+    const slopeRating = tee ? tee.slopeRating : tournament.slopeRating;
+    const teePar = tee?.par ?? basePar;
+
+    const courseHandicap = calculateCourseHandicap(player.handicap || 0, slopeRating, courseRating, teePar);
+
+    player.courseHandicap = courseHandicap;
+    player.receivedStrokes = calculatePlayingHandicap(
+      courseHandicap,
+      tournament.settings?.handicapAllowance,
+      getMixedTeeAdjustment(teePar, basePar)
+    );
+  }
+
+  // Strokes received in a round under a format's allowance; the tournament allowance applies when none is given
+  getPlayingHandicap(tournament: Tournament, player: Player, round: number, allowance?: HandicapAllowance): number {
+    const roundHandicap = this.getRoundHandicap(tournament, player, round);
+    if (!allowance || roundHandicap.courseHandicap === undefined) {
+      return roundHandicap.receivedStrokes;
+    }
+
+    const basePar = getTotalPar(tournament.par);
+    const tee = tournament.tees.find(t => t.id === roundHandicap.teeId);
+    return calculatePlayingHandicap(roundHandicap.courseHandicap, allowance, getMixedTeeAdjustment(tee?.par ?? basePar, basePar));
+  }
+
+  // Handicap a round is scored with: its snapshot once played, otherwise the player's current handicap
+  getRoundHandicap(tournament: Tournament, player: Player, round: number): RoundHandicap {
+    return player.roundHandicaps?.find(rh => rh.round === round) || this.createRoundHandicap(tournament, player, round);
+  }
+
+  getReceivedStrokes(tournament: Tournament, player: Player, round: number): number {
+    return this.getRoundHandicap(tournament, player, round).receivedStrokes;
+  }
+
+  private createRoundHandicap(tournament: Tournament, player: Player, round: number): RoundHandicap {
+    const tee = this.getPlayerTee(tournament, player);
+    return {
+      round,
+      handicap: player.handicap,
+      teeId: tee?.id,
+      courseRating: tee ? tee.courseRating : tournament.courseRating,
+      slopeRating: tee ? tee.slopeRating : tournament.slopeRating,
+      courseHandicap: player.courseHandicap,
+      receivedStrokes: player.receivedStrokes || 0,
     };
   }
 
+  private snapshotRoundHandicap(tournament: Tournament, player: Player, round: number): void {
+    if (player.roundHandicaps?.some(rh => rh.round === round)) return;
+
+    player.roundHandicaps = [...(player.roundHandicaps || []), this.createRoundHandicap(tournament, player, round)]
+      .sort((a, b) => a.round - b.round);
+  }
+
+  findPlayerByName(tournament: Tournament, name: string): Player | undefined {
+    if (!name) return undefined;
+    const search = name.toLowerCase();
+
+    return tournament.players.find(p => p.nickname?.toLowerCase() === search) ||
+      tournament.players.find(p =>
+        p.name.toLowerCase().includes(search) ||
+        search.includes(p.name.toLowerCase())
+      );
+  }
+
+  addPlayer(tournamentId: string, playerInput: PlayerInput): Player | null {
+    const tournament = this.tournaments.get(tournamentId);
+    if (!tournament) return null;
+
+    const player = this.parsePlayerInfo(tournament, playerInput);
+    tournament.players.push(player);
+    this.autoSave();
+    return player;
+  }
+
+  updatePlayer(tournamentId: string, playerId: string, update: PlayerUpdate): Player | null {
+    const tournament = this.tournaments.get(tournamentId);
+    const player = tournament?.players.find(p => p.id === playerId);
+    if (!tournament || !player) return null;
+
+    if (update.name !== undefined) {
+      player.name = update.name;
+    }
+    if (update.nickname !== undefined) {
+      player.nickname = update.nickname || undefined;
+    }
+
+    const handicapChanged = (update.handicap !== undefined && update.handicap !== player.handicap) ||
+      (update.teeId !== undefined && update.teeId !== (player.teeId || tournament.teeId));
+
+    if (handicapChanged) {
+      const previous = player.roundHandicaps || [];
+      const unchanged = (round: number) => previous.find(rh => rh.round === round) || this.createRoundHandicap(tournament, player, round);
+      const fromRound = update.fromRound;
+
+      // Rounds before fromRound keep the handicap they had, even if not played yet
+      const kept: RoundHandicap[] = fromRound
+        ? Array.from({ length: fromRound - 1 }, (_, i) => unchanged(i + 1))
+        : previous;
+
+      if (update.handicap !== undefined) {
+        player.handicap = update.handicap;
+      }
+      if (update.teeId !== undefined) {
+        player.teeId = update.teeId;
+      }
+      this.applyHandicap(tournament, player);
+
+      // Played rounds from fromRound onwards are rescored with the new handicap; without fromRound
+      // the change only affects rounds that have not been played yet
+      const rescored = fromRound
+        ? previous.filter(rh => rh.round >= fromRound).map(rh => this.createRoundHandicap(tournament, player, rh.round))
+        : [];
+
+      player.roundHandicaps = [...kept, ...rescored];
+    }
+
+    this.autoSave();
+    return player;
+  }
+
+  setPlayerWithdrawn(tournamentId: string, playerId: string, withdrawn: boolean): Player | null {
+    const tournament = this.tournaments.get(tournamentId);
+    const player = tournament?.players.find(p => p.id === playerId);
+    if (!player) return null;
+
+    player.withdrawnAt = withdrawn ? new Date().toISOString() : undefined;
+    this.autoSave();
+    return player;
+  }
+
+  removePlayer(tournamentId: string, playerId: string): boolean {
+    const tournament = this.tournaments.get(tournamentId);
+    if (!tournament || !tournament.players.some(p => p.id === playerId)) return false;
+
+    tournament.players = tournament.players.filter(p => p.id !== playerId);
+    tournament.scores = tournament.scores.filter(s => s.playerId !== playerId);
+    this.autoSave();
+    return true;
+  }
+
+  updateSettings(tournamentId: string, settings: TournamentSettings): Tournament | null {
+    const tournament = this.tournaments.get(tournamentId);
+    if (!tournament) return null;
+
+    tournament.settings = { ...tournament.settings, ...settings };
+
+    // A new allowance applies to rounds not played yet; played rounds keep their snapshots
+    if (settings.handicapAllowance) {
+      tournament.players.forEach(player => this.applyHandicap(tournament, player));
+    }
+
+    this.autoSave();
+    return tournament;
+  }
+
+  getTournaments(): Tournament[] {
+    return Array.from(this.tournaments.values());
+  }
+
   getTournament(id: string): Tournament | undefined {
     return this.tournaments.get(id);
   }
 
+  getTournamentSummaries(): TournamentSummary[] {
+    return this.getTournaments()
+      .map(tournament => ({
+        id: tournament.id,
+        name: tournament.name,
+        course: tournament.course,
+        playerCount: tournament.players.length,
+        totalRounds: tournament.totalRounds,
+        currentRound: tournament.currentRound,
+        createdAt: tournament.createdAt,
+        archivedAt: tournament.archivedAt,
+        active: tournament.id === this.activeTournamentId,
+      }))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  getActiveTournament(): Tournament | undefined {
+    return this.activeTournamentId ? this.tournaments.get(this.activeTournamentId) : undefined;
+  }
+
+  setActiveTournament(id: string): boolean {
+    const tournament = this.tournaments.get(id);
+    if (!tournament || tournament.archivedAt) return false;
+
+    this.activeTournamentId = id;
+    this.saveActiveTournament();
+    return true;
+  }
+
+  archiveTournament(id: string): boolean {
+    const tournament = this.tournaments.get(id);
+    if (!tournament) return false;
+
+    tournament.archivedAt = new Date().toISOString();
+    if (this.activeTournamentId === id) {
+      this.activeTournamentId = null;
+      this.saveActiveTournament();
+    }
+
+    this.autoSave();
+    return true;
+  }
+
+  restoreTournament(id: string): boolean {
+    const tournament = this.tournaments.get(id);
+    if (!tournament || !tournament.archivedAt) return false;
+
+    delete tournament.archivedAt;
+    this.autoSave();
+    return true;
+  }
+
+  deleteTournament(id: string): boolean {
+    if (!this.tournaments.delete(id)) return false;
+
+    if (this.activeTournamentId === id) {
+      this.activeTournamentId = null;
+      this.saveActiveTournament();
+    }
+
+    this.autoSave();
+    return true;
+  }
+
   setCurrentRound(tournamentId: string, round: number): boolean {
     const tournament = this.tournaments.get(tournamentId);
     if (!tournament || round < 1 || round > tournament.totalRounds) {
@@ -88,6 +345,14 @@ export class ScoringService {
     return true;
   }
 
+  onScoreChange(listener: ScoreChangeListener): void {
+    this.scoreChangeListeners.push(listener);
+  }
+
+  private notifyScoreChange(tournamentId: string, scoreEntry: ScoreEntry): void {
+    this.scoreChangeListeners.forEach(listener => listener(tournamentId, scoreEntry));
+  }
+
   processScoringUpdate(tournamentId: string, update: ScoringUpdate): ScoreEntry | null {
     const tournament = this.tournaments.get(tournamentId);
     if (!tournament) return null;
@@ -97,12 +362,14 @@ export class ScoringService {
       return this.deleteScore(tournamentId, update);
     }
 
-    let player = tournament.players.find(p =>
-      p.name.toLowerCase().includes(update.player.toLowerCase()) ||
-      update.player.toLowerCase().includes(p.name.toLowerCase())
-    );
+    let player = this.findPlayerByName(tournament, update.player);
 
     if (!player && update.player) {
+      if (tournament.settings?.autoCreatePlayers === false) {
+        console.log(`Rejected score for unknown player: ${update.player}`);
+        return null;
+      }
+
       player = {
         id: uuidv4(),
         name: update.player,
@@ -113,6 +380,11 @@ export class ScoringService {
 
     if (!player) return null;
 
+    if (player.withdrawnAt) {
+      console.log(`Rejected score for withdrawn player: ${player.name}`);
+      return null;
+    }
+
     const hole = update.hole || player.currentHole;
     const par = tournament.par[hole - 1];
     let strokes = update.strokes;
@@ -158,11 +430,57 @@ export class ScoringService {
       tournament.scores.push(scoreEntry);
     }
 
+    this.snapshotRoundHandicap(tournament, player, tournament.currentRound);
+
     if (hole === player.currentHole && hole < 18) {
       player.currentHole = hole + 1;
     }
 
     this.autoSave();
+    this.notifyScoreChange(tournamentId, scoreEntry);
+    return scoreEntry;
+  }
+
+  // Records the one ball a pair plays in foursomes-style formats; null strokes delete the score
+  processSideScore(tournamentId: string, side: SidegamePair, round: number, hole: number, strokes: number | null): ScoreEntry | null {
+    const tournament = this.tournaments.get(tournamentId);
+    if (!tournament) return null;
+
+    const existingScoreIndex = tournament.scores.findIndex(
+      s => s.sideId === side.id && s.hole === hole && s.round === round
+    );
+
+    if (strokes === null) {
+      if (existingScoreIndex < 0) return null;
+      const [deletedScore] = tournament.scores.splice(existingScoreIndex, 1);
+      this.autoSave();
+      const deletedEntry = { ...deletedScore, strokes: 0, timestamp: new Date().toISOString() }; // Indicate deletion
+      this.notifyScoreChange(tournamentId, deletedEntry);
+      return deletedEntry;
+    }
+
+    const scoreEntry: ScoreEntry = {
+      sideId: side.id,
+      hole,
+      round,
+      strokes,
+      par: tournament.par[hole - 1],
+      timestamp: new Date().toISOString(),
+    };
+
+    if (existingScoreIndex >= 0) {
+      tournament.scores[existingScoreIndex] = scoreEntry;
+    } else {
+      tournament.scores.push(scoreEntry);
+    }
+
+    // The pair handicap is built from both players' handicaps for the round
+    tournament.players
+      .filter(player => side.playerIds.includes(player.id))
+      .forEach(player => this.snapshotRoundHandicap(tournament, player, round));
+
+    this.autoSave();
+    this.notifyScoreChange(tournamentId, scoreEntry);
     return scoreEntry;
   }
 
@@ -175,10 +493,7 @@ export class ScoringService {
 
     // Find player if specified
     if (update.player) {
-      player = tournament.players.find(p =>
-        p.name.toLowerCase().includes(update.player.toLowerCase()) ||
-        update.player.toLowerCase().includes(p.name.toLowerCase())
-      );
+      player = this.findPlayerByName(tournament, update.player);
     }
 
     // Use specified hole or try to find the most recent score
@@ -194,8 +509,9 @@ export class ScoringService {
         hole = playerScores[0].hole;
       }
     } else {
-      // Find the most recent score overall
+      // Find the most recent individual score overall
       const allScores = tournament.scores
+        .filter(s => s.playerId)
         .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
 
       if (allScores.length > 0) {
@@ -223,7 +539,7 @@ export class ScoringService {
       this.autoSave();
 
       // Return a "deleted" score entry for tracking
-      return {
+      const deletedEntry: ScoreEntry = {
         playerId: player.id,
         hole,
         round: deletedScore.round,
@@ -231,13 +547,16 @@ export class ScoringService {
         par: deletedScore.par,
         timestamp: new Date().toISOString(),
       };
+      this.notifyScoreChange(tournamentId, deletedEntry);
+      return deletedEntry;
     }
 
     console.log(`No score found to delete for ${player.name} on hole ${hole}`);
     return null;
   }
 
-  generateLeaderboard(tournamentId: string, selectedRound?: number): LeaderboardEntry[] {
+  // The round view ranks on the display round; the cumulative view ranks on totals over all rounds
+  generateLeaderboard(tournamentId: string, selectedRound?: number, view: LeaderboardView = 'round'): LeaderboardEntry[] {
     const tournament = this.tournaments.get(tournamentId);
     if (!tournament) return [];
 
@@ -257,19 +576,25 @@ export class ScoringService {
       const holeScores: number[] = new Array(18).fill(null);
       const holePars: number[] = tournament.par;
       const stablefordPoints: number[] = new Array(18).fill(null);
+      const netScores: (number | null)[] = new Array(18).fill(null);
+      const displayRoundStrokes = this.getReceivedStrokes(tournament, player, displayRound);
 
       currentRoundScores.forEach(score => {
         holeScores[score.hole - 1] = score.strokes;
         stablefordPoints[score.hole - 1] = this.calculateStablefordPoints(
+          tournament,
           score.strokes,
           score.par,
-          player.receivedStrokes || 0,
+          displayRoundStrokes,
           score.hole
         );
+        netScores[score.hole - 1] = this.calculateNetToPar(tournament, score.strokes, score.par, displayRoundStrokes, score.hole);
       });
 
       // Calculate stableford totals for the current round
       totalStablefordPoints = stablefordPoints.reduce((sum, points) => sum + (points || 0), 0);
+      const netScore = netScores.reduce((sum: number, net) => sum + (net || 0), 0);
+      const totals = this.calculateTotals(tournament, player);
 
       const averageStablefordPoints = holesCompleted > 0 ? totalStablefordPoints / holesCompleted : 0;
       const expectedPoints = holesCompleted * 2; // 2 points per hole is par performance
@@ -282,28 +607,37 @@ export class ScoringService {
           const roundPlayerScores = tournament.scores.filter(s => s.playerId === player.id && s.round === round);
           const roundHoleScores: (number | null)[] = new Array(18).fill(null);
           const roundStablefordPoints: (number | null)[] = new Array(18).fill(null);
+          const roundNetScores: (number | null)[] = new Array(18).fill(null);
+          const roundReceivedStrokes = this.getReceivedStrokes(tournament, player, round);
           let roundStrokes = 0;
           let roundStablefordTotal = 0;
+          let roundNetScore = 0;
 
           roundPlayerScores.forEach(score => {
             roundHoleScores[score.hole - 1] = score.strokes;
             const stablefordPts = this.calculateStablefordPoints(
+              tournament,
               score.strokes,
               score.par,
-              player.receivedStrokes || 0,
+              roundReceivedStrokes,
               score.hole
             );
+            const netToPar = this.calculateNetToPar(tournament, score.strokes, score.par, roundReceivedStrokes, score.hole);
             roundStablefordPoints[score.hole - 1] = stablefordPts;
+            roundNetScores[score.hole - 1] = netToPar;
             roundStrokes += score.strokes;
             roundStablefordTotal += stablefordPts;
+            roundNetScore += netToPar;
           });
 
           multiRoundScores.push({
             round,
             holeScores: roundHoleScores,
             stablefordPoints: roundStablefordPoints,
+            netScores: roundNetScores,
             roundStrokes,
             roundStablefordPoints: roundStablefordTotal,
+            roundNetScore,
           });
         }
       }
@@ -321,27 +655,133 @@ export class ScoringService {
         totalStablefordPoints,
         averageStablefordPoints,
         stablefordVsPar,
+        netScores,
+        netScore,
+        totalNetScore: totals.netToPar,
+        withdrawn: !!player.withdrawnAt,
         handicap: player.handicap,
-        receivedStrokes: player.receivedStrokes,
+        receivedStrokes: displayRoundStrokes,
+        tee: this.getPlayerTee(tournament, player)?.name,
         roundScores: tournament.totalRounds > 1 ? multiRoundScores : undefined,
         totalRounds: tournament.totalRounds,
+        totals,
       };
     });
 
-    leaderboard.sort((a, b) => {
-      // Primary sort: Total score vs par (lower is better)
-      if (a.currentScore !== b.currentScore) {
-        return a.currentScore - b.currentScore;
-      }
-      // Secondary sort: More holes completed is better (as tiebreaker)
-      return b.holesCompleted - a.holesCompleted;
-    });
+    // Rank on every basis so clients can switch views without re-ranking; gross sets the order
+    const displayRound = selectedRound || tournament.currentRound;
+    const tiebreak = tournament.settings?.tiebreak;
+    const gross = rankLeaderboard(leaderboard, displayRound, 'gross', view, tiebreak);
+    const net = rankLeaderboard(leaderboard, displayRound, 'net', view, tiebreak);
+    const stableford = rankLeaderboard(leaderboard, displayRound, 'stableford', view, tiebreak);
+    const rankingFor = (ranked: RankedEntry[], entry: LeaderboardEntry) => {
+      const { position, label } = ranked.find(r => r.entry === entry)!;
+      return { position, label };
+    };
 
-    leaderboard.forEach((entry, index) => {
-      entry.position = index + 1;
+    gross.forEach(({ entry, position, label }) => {
+      entry.position = position;
+      entry.positionLabel = label;
+      entry.rankings = {
+        gross: { position, label },
+        net: rankingFor(net, entry),
+        stableford: rankingFor(stableford, entry),
+      };
     });
 
-    return leaderboard;
+    return gross.map(({ entry }) => entry);
+  }
+
+  private calculateTotals(tournament: Tournament, player: Player): LeaderboardTotals {
+    const rounds: RoundTotal[] = [];
+
+    for (let round = 1; round <= tournament.totalRounds; round++) {
+      const roundPlayerScores = tournament.scores.filter(s => s.playerId === player.id && s.round === round);
+      const receivedStrokes = this.getReceivedStrokes(tournament, player, round);
+      const holesCompleted = roundPlayerScores.length;
+
+      let status: RoundTotal['status'] = 'in-progress';
+      if (holesCompleted === 0) {
+        status = 'not-started';
+      } else if (holesCompleted >= 18) {
+        status = 'complete';
+      } else if (round < tournament.currentRound || player.withdrawnAt) {
+        status = 'dnf';
+      }
+
+      const grossStrokes = roundPlayerScores.reduce((sum, score) => sum + score.strokes, 0);
+      const stablefordPoints = roundPlayerScores.reduce((sum, score) =>
+        sum + this.calculateStablefordPoints(tournament, score.strokes, score.par, receivedStrokes, score.hole), 0);
+
+      rounds.push({
+        round,
+        status,
+        holesCompleted,
+        grossStrokes,
+        grossToPar: grossStrokes - roundPlayerScores.reduce((sum, score) => sum + score.par, 0),
+        netToPar: roundPlayerScores.reduce((sum, score) =>
+          sum + this.calculateNetToPar(tournament, score.strokes, score.par, receivedStrokes, score.hole), 0),
+        stablefordPoints,
+        stablefordVsPar: stablefordPoints - holesCompleted * 2, // 2 points per hole is par performance
+        counted: true,
+      });
+    }
+
+    this.applyAggregation(rounds, tournament.settings?.aggregation);
+
+    const countedRounds = rounds.filter(round => round.counted);
+    const sum = (field: keyof Omit<RoundTotal, 'round' | 'status' | 'counted'>) =>
+      countedRounds.reduce((total, round) => total + round[field], 0);
+
+    return {
+      holesCompleted: sum('holesCompleted'),
+      grossStrokes: sum('grossStrokes'),
+      grossToPar: sum('grossToPar'),
+      netToPar: sum('netToPar'),
+      stablefordPoints: sum('stablefordPoints'),
+      stablefordVsPar: sum('stablefordVsPar'),
+      rounds,
+    };
+  }
+
+  // Marks the rounds that count towards the totals
+  private applyAggregation(rounds: RoundTotal[], aggregation?: Aggregation): void {
+    if (!aggregation || aggregation.rule === 'all') return;
+
+    if (aggregation.rule === 'rounds') {
+      rounds.forEach(round => {
+        round.counted = (aggregation.rounds || []).includes(round.round);
+      });
+      return;
+    }
+
+    // Best first; Stableford points are negated so lower is always better
+    const basis = aggregation.basis || 'gross';
+    const roundValue = (round: RoundTotal) =>
+      basis === 'stableford' ? -round.stablefordPoints : basis === 'net' ? round.netToPar : round.grossToPar;
+    const completed = rounds.filter(round => round.status === 'complete').sort((a, b) => roundValue(a) - roundValue(b));
+    const unfinished = rounds.filter(round => round.status === 'in-progress' || round.status === 'dnf');
+    const count = aggregation.count || 1;
+    let countedRounds: RoundTotal[];
+
+    if (aggregation.rule === 'best') {
+      // Unfinished rounds fill in until enough rounds are complete
+      countedRounds = [...completed, ...unfinished].slice(0, count);
+    } else {
+      // A round not finished is the worst round there is, so DNF rounds are dropped first, those with the
+      // fewest holes played before the others, then the worst completed rounds. At least one round is kept.
+      const dnf = unfinished.filter(round => round.status === 'dnf').sort((a, b) => a.holesCompleted - b.holesCompleted);
+      const droppedDnf = dnf.slice(0, Math.min(count, completed.length + dnf.length - 1));
+      const droppedCompleted = Math.min(count - droppedDnf.length, Math.max(0, completed.length - 1));
+      countedRounds = [
+        ...completed.slice(0, completed.length - droppedCompleted),
+        ...unfinished.filter(round => !droppedDnf.includes(round)),
+      ];
+    }
+
+    rounds.forEach(round => {
+      round.counted = countedRounds.includes(round);
+    });
   }
 
   getPlayerScorecard(tournamentId: string, playerId: string, round?: number) {
@@ -357,29 +797,50 @@ export class ScoringService {
       .filter(s => s.playerId === playerId && s.round === targetRound)
       .sort((a, b) => a.hole - b.hole);
 
+    // Maximum hole score uses the full course handicap the round was played off
+    const roundHandicap = this.getRoundHandicap(tournament, player, targetRound);
+    const courseHandicap = roundHandicap.courseHandicap ?? roundHandicap.receivedStrokes;
+    const adjustedScores = scores.map(score => {
+      const maxScore = calculateMaxHoleScore(
+        score.par,
+        courseHandicap,
+        tournament.strokeIndex[score.hole - 1],
+        tournament.settings?.maxHoleScore
+      );
+      return {
+        hole: score.hole,
+        strokes: score.strokes,
+        maxScore,
+        adjustedStrokes: Math.min(score.strokes, maxScore),
+      };
+    });
+    const adjustedGrossScore = adjustedScores.reduce((sum, score) => sum + score.adjustedStrokes, 0);
+
+    // Differentials are only reported for completed 18-hole rounds
+    const courseRating = roundHandicap.courseRating ?? tournament.courseRating;
+    const slopeRating = roundHandicap.slopeRating ?? tournament.slopeRating;
+    const scoreDifferential = scores.length === 18 && courseRating && slopeRating
+      ? calculateScoreDifferential(adjustedGrossScore, courseRating, slopeRating)
+      : null;
+
     return {
       player,
+      round: targetRound,
       scores,
       par: tournament.par,
+      adjustedScores,
+      adjustedGrossScore,
+      scoreDifferential,
     };
   }
 
-  calculateStablefordPoints(strokes: number, par: number, receivedStrokes: number, hole: number): number {
-    // Determine if player gets a stroke on this hole based on handicap index
-    const holeIndex = this.standardIndex[hole - 1];
-    const strokesReceived = Math.floor(receivedStrokes / 18) + (holeIndex <= (receivedStrokes % 18) ? 1 : 0);
-
-    // Adjusted par for this player on this hole
-    const adjustedPar = par + strokesReceived;
-
-    // Calculate stableford points based on score vs adjusted par
-    const scoreDiff = strokes - adjustedPar;
+  calculateStablefordPoints(tournament: Tournament, strokes: number, par: number, receivedStrokes: number, hole: number): number {
+    // Strokes are allocated using the stroke index of the tournament's course
+    return calculateStablefordPoints(strokes, par, receivedStrokes, tournament.strokeIndex[hole - 1]);
+  }
 
-    if (scoreDiff <= -2) return 4; // Eagle or better (2+ under adjusted par)
-    if (scoreDiff === -1) return 3; // Birdie (1 under adjusted par)
-    if (scoreDiff === 0) return 2;  // Par (equal to adjusted par)
-    if (scoreDiff === 1) return 1;  // Bogey (1 over adjusted par)
-    return 0; // Double bogey or worse (2+ over adjusted par)
+  calculateNetToPar(tournament: Tournament, strokes: number, par: number, receivedStrokes: number, hole: number): number {
+    return calculateNetToPar(strokes, par, receivedStrokes, tournament.strokeIndex[hole - 1]);
   }
 
   // Persistence methods
@@ -421,12 +882,93 @@ export class ScoringService {
         const tournamentsObject = JSON.parse(data);
         this.tournaments = new Map(Object.entries(tournamentsObject));
         console.log(`Loaded ${this.tournaments.size} tournaments from storage`);
+        this.migrateTournaments();
       } else {
         console.log('No existing tournament data found');
       }
     } catch (error) {
       console.error('Failed to load tournament data:', error);
     }
+
+    this.loadActiveTournament();
+  }
+
+  private saveActiveTournament(): void {
+    try {
+      const stateFile = path.join(this.dataPath, 'active-tournament.json');
+      fs.writeFileSync(stateFile, JSON.stringify({ tournamentId: this.activeTournamentId }, null, 2));
+    } catch (error) {
+      console.error('Failed to save active tournament:', error);
+    }
+  }
+
+  private loadActiveTournament(): void {
+    try {
+      const stateFile = path.join(this.dataPath, 'active-tournament.json');
+      if (fs.existsSync(stateFile)) {
+        const state = JSON.parse(fs.readFileSync(stateFile, 'utf8'));
+        this.activeTournamentId = this.tournaments.has(state.tournamentId) ? state.tournamentId : null;
+      } else {
+        // No stored selection yet: fall back to the most recently created tournament still in play
+        const latest = this.getTournaments()
+          .filter(t => !t.archivedAt)
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+        if (latest) {
+          this.setActiveTournament(latest.id);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load active tournament:', error);
+    }
+
+    const activeTournament = this.getActiveTournament();
+    console.log(activeTournament ? `Active tournament: ${activeTournament.name}` : 'No active tournament');
+  }
+
+  private migrateTournaments(): void {
+    let migrated = false;
+
+    this.tournaments.forEach(tournament => {
+      if (!tournament.strokeIndex || !tournament.tees) {
+        this.migrateCourseData(tournament);
+        migrated = true;
+      }
+
+      // Rounds played before handicap snapshots existed keep the handicap they are scored with today
+      tournament.scores.forEach(score => {
+        const player = tournament.players.find(p => p.id === score.playerId);
+        if (player && !player.roundHandicaps?.some(rh => rh.round === score.round)) {
+          this.snapshotRoundHandicap(tournament, player, score.round);
+          migrated = true;
+        }
+      });
+    });
+
+    if (migrated) {
+      this.autoSave();
+    }
+  }
+
+  // Tournaments saved before the course catalog existed have no stroke index or tee sets; link them to their catalog course
+  private migrateCourseData(tournament: Tournament): void {
+    const course = this.courseService.findCourseByName(tournament.course);
+    if (course) {
+      tournament.courseId = course.id;
+      tournament.strokeIndex = tournament.strokeIndex || course.holes.map(hole => hole.strokeIndex);
+    } else if (!tournament.strokeIndex) {
+      console.warn(`No catalog course named ${tournament.course} for tournament ${tournament.name}, allocating strokes in hole order`);
+      tournament.strokeIndex = tournament.par.map((_, index) => index + 1);
+    }
+
+    if (!tournament.tees) {
+      const tee = course?.tees.find(t =>
+        t.courseRating === tournament.courseRating && t.slopeRating === tournament.slopeRating
+      );
+      tournament.tees = course && tee
+        ? course.tees
+        : [{ id: uuidv4(), name: 'Default', courseRating: tournament.courseRating, slopeRating: tournament.slopeRating }];
+      tournament.teeId = (tee || tournament.tees[0]).id;
+    }
   }
 
   // Auto-save after data changes
@@ -445,9 +987,10 @@ export class ScoringService {
     // Reset current round to 1
     tournament.currentRound = 1;
 
-    // Reset all players' current hole to 1
+    // Reset all players' current hole to 1 and drop handicap snapshots of the cleared rounds
     tournament.players.forEach(player => {
       player.currentHole = 1;
+      player.roundHandicaps = undefined;
     });
 
     this.autoSave();
@@ -0,0 +1,349 @@
+import { Team, TeamInput, TeamUpdate, Tournament } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import fs from 'fs';
+import path from 'path';
+import { ScoringService } from './scoring';
+
+// Teams as stored in teams-config.json and in sidegames created before teams were editable: players by name
+export interface LegacyTeam {
+  id: string;
+  name: string;
+  color: string;
+  players: string[];
+}
+
+const TeamsConfigSchema = z.object({
+  teams: z.record(z.object({
+    name: z.string().min(1),
+    color: z.string(),
+    players: z.array(z.string()),
+  })),
+});
+
+export class TeamService {
+  private teams: Map<string, Team> = new Map();
+  private dataPath: string;
+  private saveInProgress = false;
+
+  constructor(private scoringService: ScoringService) {
+    this.dataPath = path.join(process.cwd(), 'tournament-data');
+    if (!fs.existsSync(this.dataPath)) {
+      fs.mkdirSync(this.dataPath, { recursive: true });
+    }
+  }
+
+  // The round's own teams when it has any, otherwise the tournament's
+  getTeams(tournamentId: string, round?: number): Team[] {
+    const teams = this.getTournamentTeams(tournamentId);
+    const roundTeams = round !== undefined ? teams.filter(t => t.round === round) : [];
+    return roundTeams.length > 0 ? roundTeams : teams.filter(t => t.round === undefined);
+  }
+
+  // Every team of the tournament, tournament-wide teams first
+  getTournamentTeams(tournamentId: string): Team[] {
+    return Array.from(this.teams.values())
+      .filter(t => t.tournamentId === tournamentId)
+      .sort((a, b) => (a.round || 0) - (b.round || 0) || a.createdAt.localeCompare(b.createdAt));
+  }
+
+  getTeam(id: string): Team | undefined {
+    return this.teams.get(id);
+  }
+
+  getPlayerTeam(tournamentId: string, playerId: string, round?: number): Team | undefined {
+    return this.getTeams(tournamentId, round).find(team => team.playerIds.includes(playerId));
+  }
+
+  createTeam(tournamentId: string, input: TeamInput): Team | null {
+    if (!this.scoringService.getTournament(tournamentId)) return null;
+
+    const team: Team = {
+      id: uuidv4(),
+      tournamentId,
+      round: input.round,
+      name: input.name,
+      color: input.color,
+      playerIds: [...new Set(input.playerIds)],
+      createdAt: new Date().toISOString(),
+    };
+
+    this.teams.set(team.id, team);
+    this.claimPlayers(team);
+    this.autoSave();
+    return team;
+  }
+
+  updateTeam(id: string, update: TeamUpdate): Team | null {
+    const team = this.teams.get(id);
+    if (!team) return null;
+
+    if (update.name !== undefined) team.name = update.name;
+    if (update.color !== undefined) team.color = update.color;
+    if (update.playerIds !== undefined) {
+      team.playerIds = [...new Set(update.playerIds)];
+      this.claimPlayers(team);
+    }
+
+    this.autoSave();
+    return team;
+  }
+
+  deleteTeam(id: string): boolean {
+    if (!this.teams.delete(id)) return false;
+    this.autoSave();
+    return true;
+  }
+
+  // Moves a player to a team, or off every team of the tournament or round when teamId is null
+  movePlayer(tournamentId: string, playerId: string, teamId: string | null, round?: number): Team[] | null {
+    const target = teamId ? this.teams.get(teamId) : undefined;
+    if (teamId && (!target || target.tournamentId !== tournamentId)) return null;
+
+    if (target) {
+      if (!target.playerIds.includes(playerId)) {
+        target.playerIds.push(playerId);
+      }
+      this.claimPlayers(target);
+    } else {
+      this.getScope(tournamentId, round).forEach(team => {
+        team.playerIds = team.playerIds.filter(id => id !== playerId);
+      });
+    }
+
+    this.autoSave();
+    return this.getTeams(tournamentId, target ? target.round : round);
+  }
+
+  // Gives a round its own copy of the tournament's teams, to be changed without touching other rounds
+  copyTeamsToRound(tournamentId: string, round: number): Team[] | null {
+    if (!this.scoringService.getTournament(tournamentId)) return null;
+    if (this.getScope(tournamentId, round).length > 0) return this.getTeams(tournamentId, round);
+
+    this.getScope(tournamentId).forEach(team => {
+      const copy: Team = {
+        ...team,
+        id: uuidv4(),
+        round,
+        playerIds: [...team.playerIds],
+        createdAt: new Date().toISOString(),
+      };
+      this.teams.set(copy.id, copy);
+    });
+
+    this.autoSave();
+    return this.getTeams(tournamentId, round);
+  }
+
+  // Puts drawn players on the tournament's or round's teams, reusing its existing teams in order
+  replaceTeams(tournamentId: string, round: number | undefined, drawn: Pick<Team, 'name' | 'color' | 'playerIds'>[]): Team[] {
+    const existing = this.getScope(tournamentId, round);
+    existing.slice(drawn.length).forEach(team => this.teams.delete(team.id));
+
+    drawn.forEach((drawnTeam, index) => {
+      const team = existing[index];
+      if (team) {
+        team.playerIds = [...drawnTeam.playerIds];
+        return;
+      }
+
+      const created: Team = {
+        id: uuidv4(),
+        tournamentId,
+        round,
+        name: drawnTeam.name,
+        color: drawnTeam.color,
+        playerIds: [...drawnTeam.playerIds],
+        createdAt: new Date().toISOString(),
+      };
+      this.teams.set(created.id, created);
+    });
+
+    this.autoSave();
+    return this.getTeams(tournamentId, round);
+  }
+
+  // Drops a round's own teams so it plays with the tournament's again
+  clearRoundTeams(tournamentId: string, round: number): boolean {
+    const roundTeams = this.getScope(tournamentId, round);
+    if (roundTeams.length === 0) return false;
+
+    roundTeams.forEach(team => this.teams.delete(team.id));
+    this.autoSave();
+    return true;
+  }
+
+  // Takes a removed player off every team
+  removePlayer(tournamentId: string, playerId: string): void {
+    let changed = false;
+    this.getTournamentTeams(tournamentId).forEach(team => {
+      if (team.playerIds.includes(playerId)) {
+        team.playerIds = team.playerIds.filter(id => id !== playerId);
+        changed = true;
+      }
+    });
+
+    if (changed) {
+      this.autoSave();
+    }
+  }
+
+  // Starting teams for a new tournament from teams-config.json, players matched by name
+  seedTeams(tournamentId: string): Team[] {
+    const tournament = this.scoringService.getTournament(tournamentId);
+    if (!tournament || this.getTournamentTeams(tournamentId).length > 0) return [];
+
+    const teams = this.readTeamsConfig().map(legacy => this.importTeam(tournament, legacy));
+    if (teams.length > 0) {
+      this.autoSave();
+      console.log(`Seeded ${teams.length} teams for tournament: ${tournamentId}`);
+
+      const teamless = tournament.players.filter(player => !teams.some(team => team.playerIds.includes(player.id)));
+      if (teamless.length > 0) {
+        console.warn(`Players on no team in teams-config.json: ${teamless.map(player => player.name).join(', ')}`);
+      }
+    }
+    return teams;
+  }
+
+  // Imports the teams a sidegame used to carry. They become the tournament's teams when it has none,
+  // or the round's own teams when they differ from the tournament's. Returns old team id → new team id.
+  migrateLegacyTeams(tournamentId: string, round: number, legacyTeams: LegacyTeam[]): { [legacyId: string]: string } {
+    const tournament = this.scoringService.getTournament(tournamentId);
+    if (!tournament) return {};
+
+    const playerIdsOf = (legacy: LegacyTeam) => this.resolvePlayerIds(tournament, legacy.players).sort().join(',');
+    const matchScope = (teams: Team[]) => legacyTeams.every(legacy =>
+      teams.some(team => team.name === legacy.name && [...team.playerIds].sort().join(',') === playerIdsOf(legacy))
+    );
+
+    let scope: Team[];
+    if (this.getTournamentTeams(tournamentId).length === 0) {
+      scope = legacyTeams.map(legacy => this.importTeam(tournament, legacy));
+    } else if (matchScope(this.getScope(tournamentId)) || this.getScope(tournamentId, round).length > 0) {
+      scope = this.getTeams(tournamentId, round);
+    } else {
+      scope = legacyTeams.map(legacy => this.importTeam(tournament, legacy, round));
+    }
+
+    this.autoSave();
+    return Object.fromEntries(legacyTeams
+      .map(legacy => [legacy.id, scope.find(team => team.name === legacy.name)?.id])
+      .filter((entry): entry is [string, string] => entry[1] !== undefined));
+  }
+
+  private importTeam(tournament: Tournament, legacy: LegacyTeam, round?: number): Team {
+    const team: Team = {
+      id: uuidv4(),
+      tournamentId: tournament.id,
+      round,
+      name: legacy.name,
+      color: legacy.color,
+      playerIds: this.resolvePlayerIds(tournament, legacy.players),
+      createdAt: new Date().toISOString(),
+    };
+    this.teams.set(team.id, team);
+    return team;
+  }
+
+  private resolvePlayerIds(tournament: Tournament, names: string[]): string[] {
+    const ids = names
+      .map(name => this.scoringService.findPlayerByName(tournament, name)?.id)
+      .filter((id): id is string => id !== undefined);
+    return [...new Set(ids)];
+  }
+
+  private readTeamsConfig(): LegacyTeam[] {
+    try {
+      const teamsFile = path.join(process.cwd(), 'teams-config.json');
+      if (!fs.existsSync(teamsFile)) return [];
+
+      const parsed = TeamsConfigSchema.safeParse(JSON.parse(fs.readFileSync(teamsFile, 'utf8')));
+      if (!parsed.success) {
+        console.error('Invalid teams config:', parsed.error.issues);
+        return [];
+      }
+      return Object.entries(parsed.data.teams).map(([id, team]) => ({ id, ...team }));
+    } catch (error) {
+      console.error('Failed to read teams config:', error);
+      return [];
+    }
+  }
+
+  // Teams sharing the tournament or round: a player belongs to at most one of them
+  private getScope(tournamentId: string, round?: number): Team[] {
+    return this.getTournamentTeams(tournamentId).filter(t => t.round === round);
+  }
+
+  private claimPlayers(team: Team): void {
+    this.getScope(team.tournamentId, team.round).forEach(other => {
+      if (other.id !== team.id) {
+        other.playerIds = other.playerIds.filter(id => !team.playerIds.includes(id));
+      }
+    });
+  }
+
+  // Persistence methods
+  private saveTeams(): void {
+    if (this.saveInProgress) {
+      console.log('Team save already in progress, skipping...');
+      return;
+    }
+
+    this.saveInProgress = true;
+    try {
+      const teamsObject = Object.fromEntries(this.teams);
+      const dataFile = path.join(this.dataPath, 'teams.json');
+      const tempFile = dataFile + '.tmp';
+
+      fs.writeFileSync(tempFile, JSON.stringify(teamsObject, null, 2));
+      fs.renameSync(tempFile, dataFile);
+
+      console.log('Team data saved successfully');
+    } catch (error) {
+      console.error('Failed to save team data:', error);
+      const tempFile = path.join(this.dataPath, 'teams.json.tmp');
+      if (fs.existsSync(tempFile)) {
+        fs.unlinkSync(tempFile);
+      }
+    } finally {
+      this.saveInProgress = false;
+    }
+  }
+
+  loadTeams(): void {
+    try {
+      const dataFile = path.join(this.dataPath, 'teams.json');
+      if (fs.existsSync(dataFile)) {
+        const data = fs.readFileSync(dataFile, 'utf8');
+        const teamsObject = JSON.parse(data);
+        this.teams = new Map(Object.entries(teamsObject));
+        console.log(`Loaded ${this.teams.size} teams from storage`);
+      } else {
+        // First start with editable teams: every tournament starts from teams-config.json
+        console.log('No existing team data found, seeding from teams config');
+        this.scoringService.getTournaments().forEach(tournament => this.seedTeams(tournament.id));
+      }
+    } catch (error) {
+      console.error('Failed to load team data:', error);
+    }
+  }
+
+  private autoSave(): void {
+    this.saveTeams();
+  }
+
+  // Clear all teams for a specific tournament
+  clearTournamentTeams(tournamentId: string): void {
+    const teamsToDelete = this.getTournamentTeams(tournamentId);
+
+    teamsToDelete.forEach(team => {
+      this.teams.delete(team.id);
+    });
+
+    if (teamsToDelete.length > 0) {
+      this.autoSave();
+      console.log(`Cleared ${teamsToDelete.length} teams for tournament: ${tournamentId}`);
+    }
+  }
+}
@@ -0,0 +1,205 @@
+import { SessionPoints, Team, TeamSession, TeamSessionMatch, TeamSidegame, TeamStanding, TeamStandings, Tournament } from '../types';
+import { ScoringService } from './scoring';
+import { TeamService } from './team';
+import { TeamSidegameService, isOneBallFormat, isPairsFormat } from './teamSidegame';
+
+const DEFAULT_SESSION_POINTS: SessionPoints = { win: 1, halve: 0.5 };
+
+function formatPoints(points: number): string {
+  return Number.isInteger(points) ? points.toString() : points.toFixed(1);
+}
+
+// The team competition across a tournament: every round's team sidegame is a session whose matches
+// award points to the teams, Ryder Cup style
+export class TeamCompetitionService {
+  constructor(
+    private scoringService: ScoringService,
+    private teamService: TeamService,
+    private teamSidegameService: TeamSidegameService
+  ) {}
+
+  getSession(sidegame: TeamSidegame): TeamSession | null {
+    const tournament = this.scoringService.getTournament(sidegame.tournamentId);
+    if (!tournament) return null;
+
+    const points = sidegame.sessionPoints || DEFAULT_SESSION_POINTS;
+    const teams = this.teamSidegameService.getSidegameTeams(sidegame);
+    const matches = isPairsFormat(sidegame.gameType) && sidegame.pairsMode === 'match'
+      ? this.getPairMatches(sidegame)
+      : this.getHeadToHeadMatches(tournament, sidegame, teams);
+
+    const teamPoints: { [teamId: string]: number } = {};
+    const projectedPoints: { [teamId: string]: number } = {};
+    teams.forEach(team => {
+      teamPoints[team.id] = 0;
+      projectedPoints[team.id] = 0;
+    });
+
+    matches.forEach(({ match, holesPlayed }) => {
+      // Matches that haven't started don't count towards the projection either
+      if (holesPlayed === 0) return;
+
+      const awards: [string, number][] = match.winnerTeamId
+        ? [[match.winnerTeamId, points.win]]
+        : match.teamIds.map(teamId => [teamId, points.halve]);
+
+      awards.forEach(([teamId, award]) => {
+        projectedPoints[teamId] = (projectedPoints[teamId] || 0) + award;
+        if (match.complete) {
+          teamPoints[teamId] = (teamPoints[teamId] || 0) + award;
+        }
+      });
+    });
+
+    return {
+      round: sidegame.round,
+      sidegameId: sidegame.id,
+      gameType: sidegame.gameType,
+      points,
+      complete: matches.length > 0 && matches.every(({ match }) => match.complete),
+      matches: matches.map(({ match }) => match),
+      teamPoints,
+      projectedPoints,
+    };
+  }
+
+  // Overall standings and the round-by-round breakdown. Round teams are copies of the tournament's
+  // teams, so a team is followed across rounds by its name.
+  getStandings(tournamentId: string): TeamStandings | null {
+    const tournament = this.scoringService.getTournament(tournamentId);
+    if (!tournament) return null;
+
+    const sessions: TeamSession[] = [];
+    for (let round = 1; round <= tournament.totalRounds; round++) {
+      const sidegame = this.teamSidegameService.getSidegameByRound(tournamentId, round);
+      const session = sidegame && this.getSession(sidegame);
+      if (session) sessions.push(session);
+    }
+
+    const standings = new Map<string, TeamStanding>();
+    const standingFor = (team: Team): TeamStanding => {
+      let standing = standings.get(team.name);
+      if (!standing) {
+        standing = {
+          teamId: team.id,
+          teamName: team.name,
+          teamColor: team.color,
+          points: 0,
+          projectedPoints: 0,
+          sessionsWon: 0,
+          roundPoints: {},
+          position: 0,
+        };
+        standings.set(team.name, standing);
+      }
+      return standing;
+    };
+
+    this.teamService.getTeams(tournamentId).forEach(standingFor);
+
+    sessions.forEach(session => {
+      const teams = this.teamService.getTeams(tournamentId, session.round);
+      teams.forEach(team => {
+        const standing = standingFor(team);
+        standing.points += session.teamPoints[team.id] || 0;
+        standing.projectedPoints += session.projectedPoints[team.id] || 0;
+        standing.roundPoints[session.round] = session.teamPoints[team.id] || 0;
+      });
+
+      if (session.complete && teams.length > 0) {
+        const best = Math.max(...teams.map(team => session.teamPoints[team.id] || 0));
+        const winners = teams.filter(team => (session.teamPoints[team.id] || 0) === best);
+        if (winners.length === 1) {
+          standingFor(winners[0]).sessionsWon++;
+        }
+      }
+    });
+
+    const sorted = Array.from(standings.values()).sort((a, b) =>
+      b.points - a.points || b.projectedPoints - a.projectedPoints || a.teamName.localeCompare(b.teamName)
+    );
+    sorted.forEach((standing, index) => {
+      standing.position = index + 1;
+    });
+
+    return {
+      tournamentId,
+      standings: sorted,
+      sessions,
+      pointsAvailable: sessions.reduce((sum, session) => sum + session.matches.length * session.points.win, 0),
+      pointsPlayed: sessions.reduce((sum, session) =>
+        sum + session.matches.filter(match => match.complete).length * session.points.win, 0),
+    };
+  }
+
+  // Match play pairs: every match between pairs of different teams
+  private getPairMatches(sidegame: TeamSidegame): { match: TeamSessionMatch; holesPlayed: number }[] {
+    const entries = this.teamSidegameService.getPairsLeaderboard(sidegame.id);
+    const seen = new Set<string>();
+
+    return entries.flatMap(entry => {
+      const opponent = entries.find(other => other.pairId === entry.match?.opponentPairId);
+      if (!entry.match || !opponent || seen.has(entry.pairId)) return [];
+      seen.add(entry.pairId);
+      seen.add(opponent.pairId);
+
+      if (!entry.teamId || !opponent.teamId || entry.teamId === opponent.teamId) return [];
+
+      const leader = entry.match.leaderPairId === entry.pairId ? entry : entry.match.leaderPairId === opponent.pairId ? opponent : null;
+      return [{
+        match: {
+          name: `${entry.pairName} v ${opponent.pairName}`,
+          teamIds: [entry.teamId, opponent.teamId] as [string, string],
+          winnerTeamId: leader?.teamId || null,
+          result: entry.match.result,
+          complete: entry.match.complete,
+        },
+        holesPlayed: Math.min(entry.holesCompleted, opponent.holesCompleted),
+      }];
+    });
+  }
+
+  // Other formats: every two teams play a head-to-head on the sidegame's team points, decided once
+  // the round is complete
+  private getHeadToHeadMatches(tournament: Tournament, sidegame: TeamSidegame, teams: Team[]): { match: TeamSessionMatch; holesPlayed: number }[] {
+    const leaderboard = this.teamSidegameService.generateTeamLeaderboard(sidegame.id);
+    const complete = this.isRoundComplete(tournament, sidegame, teams);
+    const matches: { match: TeamSessionMatch; holesPlayed: number }[] = [];
+
+    for (let i = 0; i < leaderboard.length; i++) {
+      for (let j = i + 1; j < leaderboard.length; j++) {
+        const a = leaderboard[i];
+        const b = leaderboard[j];
+        matches.push({
+          match: {
+            name: `${a.teamName} v ${b.teamName}`,
+            teamIds: [a.teamId, b.teamId],
+            winnerTeamId: a.totalPoints > b.totalPoints ? a.teamId : b.totalPoints > a.totalPoints ? b.teamId : null,
+            result: `${formatPoints(a.totalPoints)} - ${formatPoints(b.totalPoints)}`,
+            complete,
+          },
+          holesPlayed: Math.max(a.matchesPlayed, b.matchesPlayed),
+        });
+      }
+    }
+
+    return matches;
+  }
+
+  // Every ball of the round holed out on all 18: the pairs' balls in one-ball formats, otherwise every team player's
+  private isRoundComplete(tournament: Tournament, sidegame: TeamSidegame, teams: Team[]): boolean {
+    const roundScores = tournament.scores.filter(s => s.round === sidegame.round);
+    const holesScored = (matches: (score: typeof roundScores[number]) => boolean) =>
+      new Set(roundScores.filter(matches).map(s => s.hole)).size;
+
+    if (isOneBallFormat(sidegame.gameType)) {
+      const pairs = sidegame.pairs || [];
+      return pairs.length > 0 && pairs.every(pair => holesScored(s => s.sideId === pair.id) === 18);
+    }
+
+    const playerIds = teams
+      .flatMap(team => team.playerIds)
+      .filter(id => tournament.players.some(p => p.id === id && !p.withdrawnAt));
+    return playerIds.length > 0 && playerIds.every(id => holesScored(s => s.playerId === id) === 18);
+  }
+}
@@ -1,73 +1,88 @@
-import { Team, TeamSidegame, TeamMatch, TeamLeaderboardEntry, Tournament } from '../types';
+import { Team, TeamSidegame, TeamMatch, TeamLeaderboardEntry, SidegameType, SidegamePair, SidegamePairInput, PairLeaderboardEntry, SkinsHole, SkinsResult, NassauBet, NassauHole, NassauPlayerSettlement, NassauResult, NassauSide, ScoringUpdate, SessionPoints, SumMatchSettings, WolfChoice, WolfHole, WolfResult, Tournament } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 import fs from 'fs';
 import path from 'path';
+import { calculatePairHandicap, calculateStablefordPoints, getStrokesReceivedOnHole, HANDICAP_ALLOWANCES } from './handicap';
+import { describeMatchResult } from './matchPlay';
+import { ScoringService } from './scoring';
+import { LegacyTeam, TeamService } from './team';
+
+export type SidegameOptions = Partial<Pick<TeamSidegame, 'groupings' | 'handicapAllowance' | 'pairsMode' | 'sumMatch' | 'skins' | 'nassau' | 'wolf' | 'stake' | 'sessionPoints'>> & {
+  pairs?: SidegamePairInput[];
+};
+
+const PAIRS_FORMATS: SidegameType[] = ['four-ball', 'foursomes', 'greensomes'];
+
+// Betting games between players that run alongside the round's team competition
+const SIDE_BETS: SidegameType[] = ['skins', 'nassau', 'wolf'];
+
+// Sum-match rules for sidegames created before they were configurable
+const DEFAULT_SUM_MATCH: SumMatchSettings = { basis: 'gross', points: { win: 1, loss: -1, tie: 0 }, normalize: false };
+
+export function isPairsFormat(gameType: SidegameType): boolean {
+  return PAIRS_FORMATS.includes(gameType);
+}
+
+// Foursomes and greensomes play one ball per pair, scored against the pair id
+export function isOneBallFormat(gameType: SidegameType): boolean {
+  return gameType === 'foursomes' || gameType === 'greensomes';
+}
 
 export class TeamSidegameService {
   private sidegames: Map<string, TeamSidegame> = new Map();
-  private teams: Map<string, Team> = new Map();
   private dataPath: string;
   private saveInProgress = false;
 
-  constructor() {
+  constructor(private scoringService: ScoringService, private teamService: TeamService) {
     this.dataPath = path.join(process.cwd(), 'tournament-data');
     if (!fs.existsSync(this.dataPath)) {
       fs.mkdirSync(this.dataPath, { recursive: true });
     }
-    this.loadTeams();
   }
 
-  private loadTeams(): void {
-    try {
-      const teamsFile = path.join(process.cwd(), 'teams-config.json');
-      if (fs.existsSync(teamsFile)) {
-        const data = fs.readFileSync(teamsFile, 'utf8');
-        const teamsConfig = JSON.parse(data);
-
-        Object.entries(teamsConfig.teams).forEach(([id, teamData]: [string, any]) => {
-          this.teams.set(id, {
-            id,
-            name: teamData.name,
-            color: teamData.color,
-            players: teamData.players,
-          });
-        });
-
-        console.log(`Loaded ${this.teams.size} teams`);
-      }
-    } catch (error) {
-      console.error('Failed to load teams:', error);
-    }
+  // Teams are edited per tournament and round, so a sidegame always plays with the current ones
+  getSidegameTeams(sidegame: TeamSidegame): Team[] {
+    return this.teamService.getTeams(sidegame.tournamentId, sidegame.round);
   }
 
-  getTeams(): Team[] {
-    return Array.from(this.teams.values());
-  }
-
-  getPlayerTeam(playerName: string): Team | undefined {
-    return Array.from(this.teams.values()).find(team =>
-      team.players.some(player =>
-        player.toLowerCase() === playerName.toLowerCase() ||
-        playerName.toLowerCase().includes(player.toLowerCase()) ||
-        player.toLowerCase().includes(playerName.toLowerCase())
-      )
-    );
+  private getPlayerTeam(sidegame: TeamSidegame, playerId: string): Team | undefined {
+    return this.teamService.getPlayerTeam(sidegame.tournamentId, playerId, sidegame.round);
   }
 
   createSidegame(
     tournamentId: string,
     round: number,
-    gameType: 'all-vs-all' | 'sum-match',
-    groupings?: string[][]
+    gameType: SidegameType,
+    options: SidegameOptions = {}
   ): TeamSidegame {
     const sidegame: TeamSidegame = {
       id: uuidv4(),
       tournamentId,
       round,
       gameType,
-      teams: this.getTeams(),
-      groupings: gameType === 'all-vs-all' ? groupings : undefined,
+      groupings: gameType === 'all-vs-all' ? options.groupings : undefined,
+      handicapAllowance: options.handicapAllowance,
+      pairs: isPairsFormat(gameType) || (gameType === 'nassau' && options.pairs)
+        ? this.createPairs(tournamentId, round, options.pairs || [])
+        : undefined,
+      pairsMode: isPairsFormat(gameType) ? options.pairsMode || 'stroke' : undefined,
+      sumMatch: gameType === 'sum-match'
+        ? { ...DEFAULT_SUM_MATCH, ...options.sumMatch, points: { ...DEFAULT_SUM_MATCH.points, ...options.sumMatch?.points } }
+        : undefined,
+      skins: gameType === 'skins' ? { basis: 'gross', ties: 'carry', validation: false, ...options.skins } : undefined,
+      nassau: gameType === 'nassau'
+        ? {
+          basis: 'net',
+          stake: 1,
+          ...options.nassau,
+          presses: { enabled: true, trigger: 2, onPresses: true, overall: false, ...options.nassau?.presses },
+        }
+        : undefined,
+      wolf: gameType === 'wolf' ? options.wolf : undefined,
+      wolfChoices: gameType === 'wolf' ? [] : undefined,
       matches: [],
+      stake: options.stake,
+      sessionPoints: SIDE_BETS.includes(gameType) ? undefined : options.sessionPoints,
       createdAt: new Date().toISOString(),
     };
 
@@ -76,33 +91,91 @@ export class TeamSidegameService {
     return sidegame;
   }
 
+  private createPairs(tournamentId: string, round: number, pairs: SidegamePairInput[]): SidegamePair[] {
+    const tournament = this.scoringService.getTournament(tournamentId);
+
+    return pairs.map((pair, index) => {
+      const names = pair.playerIds.map(id => tournament?.players.find(p => p.id === id)?.name || id);
+      return {
+        id: pair.id || uuidv4(),
+        name: pair.name || names.join(' & ') || `Pair ${index + 1}`,
+        playerIds: pair.playerIds,
+        teamId: pair.teamId || this.teamService.getPlayerTeam(tournamentId, pair.playerIds[0], round)?.id,
+      };
+    });
+  }
+
   getSidegame(id: string): TeamSidegame | undefined {
     return this.sidegames.get(id);
   }
 
+  // The team competition for a round; side bets such as skins and Nassau run alongside it
   getSidegameByRound(tournamentId: string, round: number): TeamSidegame | undefined {
-    return Array.from(this.sidegames.values()).find(
+    return this.getSidegamesByRound(tournamentId, round).find(sg => !SIDE_BETS.includes(sg.gameType));
+  }
+
+  getSidegamesByRound(tournamentId: string, round: number): TeamSidegame[] {
+    return Array.from(this.sidegames.values()).filter(
       sg => sg.tournamentId === tournamentId && sg.round === round
     );
   }
 
+  getSidegamesByTournament(tournamentId: string): TeamSidegame[] {
+    return Array.from(this.sidegames.values())
+      .filter(sg => sg.tournamentId === tournamentId)
+      .sort((a, b) => a.round - b.round);
+  }
+
+  setStake(sidegameId: string, stake: number | null): TeamSidegame | null {
+    const sidegame = this.sidegames.get(sidegameId);
+    if (!sidegame) return null;
+
+    sidegame.stake = stake ?? undefined;
+    this.autoSave();
+    return sidegame;
+  }
+
+  setSessionPoints(sidegameId: string, sessionPoints: SessionPoints): TeamSidegame | null {
+    const sidegame = this.sidegames.get(sidegameId);
+    if (!sidegame || SIDE_BETS.includes(sidegame.gameType)) return null;
+
+    sidegame.sessionPoints = sessionPoints;
+    this.autoSave();
+    return sidegame;
+  }
+
+  setSumMatchSettings(sidegameId: string, settings: SumMatchSettings): TeamSidegame | null {
+    const sidegame = this.sidegames.get(sidegameId);
+    if (!sidegame || sidegame.gameType !== 'sum-match') return null;
+
+    sidegame.sumMatch = settings;
+    this.recalculateSumMatches(sidegame);
+    this.autoSave();
+    return sidegame;
+  }
+
   processHoleMatch(
     sidegameId: string,
     hole: number,
-    holeResults: { [playerName: string]: number }
+    holeResults: { [playerId: string]: number }
   ): TeamMatch | null {
     const sidegame = this.sidegames.get(sidegameId);
     if (!sidegame) return null;
 
     let teamPoints: { [teamId: string]: number } = {};
-    sidegame.teams.forEach(team => {
+    this.getSidegameTeams(sidegame).forEach(team => {
       teamPoints[team.id] = 0;
     });
 
     if (sidegame.gameType === 'sum-match') {
-      teamPoints = this.calculateSumMatchPoints(holeResults, hole);
+      // A hole is only played once two teams have all their scores in
+      const tournament = this.scoringService.getTournament(sidegame.tournamentId);
+      if (!tournament || Object.keys(this.getCompleteSumMatchHoleScores(tournament, sidegame, hole)).length < 2) {
+        return null;
+      }
+      teamPoints = this.calculateSumMatchPoints(sidegame, hole);
     } else if (sidegame.gameType === 'all-vs-all') {
-      teamPoints = this.calculateAllVsAllPoints(holeResults, sidegame.groupings || []);
+      teamPoints = this.calculateAllVsAllPoints(sidegame, holeResults);
     }
 
     const match: TeamMatch = {
@@ -124,76 +197,139 @@ export class TeamSidegameService {
     return match;
   }
 
-  private calculateSumMatchPoints(holeResults: { [playerName: string]: number }, hole: number): { [teamId: string]: number } {
-    const teamPoints: { [teamId: string]: number } = {};
-    const teamStrokesDifference: { [teamId: string]: number } = {};
+  // Drops a hole's match, e.g. once its scores are deleted; returns whether there was one
+  clearHoleMatch(sidegameId: string, hole: number): boolean {
+    const sidegame = this.sidegames.get(sidegameId);
+    if (!sidegame || !sidegame.matches.some(m => m.hole === hole)) return false;
 
-    // Initialize team scores
-    this.teams.forEach(team => {
-      teamStrokesDifference[team.id] = 0;
-      teamPoints[team.id] = 0;
+    sidegame.matches = sidegame.matches.filter(m => m.hole !== hole);
+    this.autoSave();
+    return true;
+  }
+
+  // Sum-match holes are scored from the round's scores, so a hole's match always agrees with the leaderboard
+  private calculateSumMatchPoints(sidegame: TeamSidegame, hole: number): { [teamId: string]: number } {
+    const tournament = this.scoringService.getTournament(sidegame.tournamentId);
+    return this.scoreSumMatchHole(sidegame, tournament ? this.getCompleteSumMatchHoleScores(tournament, sidegame, hole) : {});
+  }
+
+  // Rescores the played holes after the rules change
+  private recalculateSumMatches(sidegame: TeamSidegame): void {
+    sidegame.matches.forEach(match => {
+      match.teamPoints = this.calculateSumMatchPoints(sidegame, match.hole);
     });
+  }
 
-    // Calculate team strokes vs par for this hole
-    Object.entries(holeResults).forEach(([playerName, strokesVsPar]) => {
-      const team = this.getPlayerTeam(playerName);
-      if (team) {
-        teamStrokesDifference[team.id] += strokesVsPar;
-      }
+  // Each team's score on a hole under the sidegame's rules. Only the team's best N scores count, and
+  // normalizing scales every team to the same number of players. Teams without a score are left out.
+  private getSumMatchHoleScores(tournament: Tournament, sidegame: TeamSidegame, hole: number): { [teamId: string]: number } {
+    const rules = sidegame.sumMatch || DEFAULT_SUM_MATCH;
+    const teams = this.getSidegameTeams(sidegame);
+    const higherIsBetter = rules.basis === 'stableford';
+
+    const playerScores: { [teamId: string]: number[] } = {};
+    tournament.scores
+      .filter(s => s.round === sidegame.round && s.hole === hole && s.playerId)
+      .forEach(score => {
+        const player = tournament.players.find(p => p.id === score.playerId);
+        const team = player && teams.find(t => t.playerIds.includes(player.id));
+        if (!player || !team) return;
+
+        const handicap = rules.basis === 'gross'
+          ? 0
+          : this.scoringService.getPlayingHandicap(tournament, player, sidegame.round, sidegame.handicapAllowance);
+        const value = higherIsBetter
+          ? this.scoringService.calculateStablefordPoints(tournament, score.strokes, score.par, handicap, hole)
+          : this.scoringService.calculateNetToPar(tournament, score.strokes, score.par, handicap, hole);
+        (playerScores[team.id] = playerScores[team.id] || []).push(value);
+      });
+
+    // Normalized teams all count as many scores as the largest team, or the best N
+    const teamSizes = teams.map(team => team.playerIds.filter(id => tournament.players.some(p => p.id === id && !p.withdrawnAt)).length);
+    const countedPlayers = Math.min(rules.bestScores ?? Infinity, Math.max(...teamSizes, 1));
+
+    const teamScores: { [teamId: string]: number } = {};
+    Object.entries(playerScores).forEach(([teamId, scores]) => {
+      const counted = scores
+        .sort((a, b) => higherIsBetter ? b - a : a - b)
+        .slice(0, rules.bestScores ?? scores.length);
+      const total = counted.reduce((sum, value) => sum + value, 0);
+      teamScores[teamId] = rules.normalize
+        ? Math.round(total / counted.length * countedPlayers * 100) / 100
+        : total;
     });
 
-    // Find best (lowest strokes vs par) and worst (highest strokes vs par) teams
-    const teamScores = Object.values(teamStrokesDifference);
-    const bestScore = Math.min(...teamScores);
-    const worstScore = Math.max(...teamScores);
+    return teamScores;
+  }
 
-    // Only award points if there's a clear difference
-    if (bestScore !== worstScore) {
-      // Find teams with best score (winners get +1 point each)
-      const winners = Object.entries(teamStrokesDifference)
-        .filter(([_, score]) => score === bestScore)
-        .map(([teamId, _]) => teamId);
+  // The hole scores of the teams every active player has scored for; a partial team's score can still change
+  private getCompleteSumMatchHoleScores(tournament: Tournament, sidegame: TeamSidegame, hole: number): { [teamId: string]: number } {
+    const scoredPlayerIds = new Set(tournament.scores
+      .filter(s => s.round === sidegame.round && s.hole === hole && s.playerId)
+      .map(s => s.playerId));
+    const isComplete = (teamId: string) => {
+      const team = this.getSidegameTeams(sidegame).find(t => t.id === teamId);
+      return !!team && team.playerIds
+        .filter(id => tournament.players.some(p => p.id === id && !p.withdrawnAt))
+        .every(id => scoredPlayerIds.has(id));
+    };
 
-      // Find teams with worst score (losers get -1 point each)
-      const losers = Object.entries(teamStrokesDifference)
-        .filter(([_, score]) => score === worstScore)
-        .map(([teamId, _]) => teamId);
+    return Object.fromEntries(Object.entries(this.getSumMatchHoleScores(tournament, sidegame, hole))
+      .filter(([teamId]) => isComplete(teamId)));
+  }
 
-      // Award points
-      winners.forEach(teamId => {
-        teamPoints[teamId] = 1;
-      });
+  // The one tie rule for sum-match holes: the sole best team wins and the sole worst loses, and teams sharing
+  // a score tie, wherever they finish. It takes two teams to play a hole.
+  private scoreSumMatchHole(sidegame: TeamSidegame, teamScores: { [teamId: string]: number }): { [teamId: string]: number } {
+    const rules = sidegame.sumMatch || DEFAULT_SUM_MATCH;
+    const teamPoints: { [teamId: string]: number } = {};
+    this.getSidegameTeams(sidegame).forEach(team => {
+      teamPoints[team.id] = 0;
+    });
 
-      losers.forEach(teamId => {
-        teamPoints[teamId] = -1;
-      });
-    }
+    const scores = Object.values(teamScores);
+    if (scores.length < 2) return teamPoints;
+
+    const best = rules.basis === 'stableford' ? Math.max(...scores) : Math.min(...scores);
+    const worst = rules.basis === 'stableford' ? Math.min(...scores) : Math.max(...scores);
+    const isSole = (score: number) => scores.filter(s => s === score).length === 1;
+
+    Object.entries(teamScores).forEach(([teamId, score]) => {
+      if (!isSole(score)) {
+        teamPoints[teamId] = rules.points.tie;
+      } else if (score === best) {
+        teamPoints[teamId] = rules.points.win;
+      } else if (score === worst) {
+        teamPoints[teamId] = rules.points.loss;
+      }
+    });
 
     return teamPoints;
   }
 
   private calculateAllVsAllPoints(
-    holeResults: { [playerName: string]: number },
-    groupings: string[][]
+    sidegame: TeamSidegame,
+    holeResults: { [playerId: string]: number }
   ): { [teamId: string]: number } {
+    const groupings = sidegame.groupings || [];
     const teamPoints: { [teamId: string]: number } = {};
 
     // Initialize team points
-    this.teams.forEach(team => {
+    this.getSidegameTeams(sidegame).forEach(team => {
       teamPoints[team.id] = 0;
     });
 
     // Process each grouping
     groupings.forEach(group => {
-      const groupPlayers = group.filter(playerName => playerName in holeResults);
+      const groupPlayers = group.filter(playerId => playerId in holeResults);
 
       // Each player vs each other player in the group
       for (let i = 0; i < groupPlayers.length; i++) {
         for (let j = i + 1; j < groupPlayers.length; j++) {
           const player1 = groupPlayers[i];
           const player2 = groupPlayers[j];
-          const team1 = this.getPlayerTeam(player1);
-          const team2 = this.getPlayerTeam(player2);
+          const team1 = this.getPlayerTeam(sidegame, player1);
+          const team2 = this.getPlayerTeam(sidegame, player2);
 
           // Only count matches between different teams
           if (team1 && team2 && team1.id !== team2.id) {
@@ -217,18 +353,18 @@ export class TeamSidegameService {
   }
 
   private generateAllVsAllLeaderboard(sidegame: TeamSidegame): TeamLeaderboardEntry[] {
-    const activeTournament = this.loadActiveTournament();
-    if (!activeTournament) return [];
+    const tournament = this.scoringService.getTournament(sidegame.tournamentId);
+    if (!tournament) return [];
 
     const teamTotalPoints: { [teamId: string]: number } = {};
-    sidegame.teams.forEach(team => {
+    this.getSidegameTeams(sidegame).forEach(team => {
       teamTotalPoints[team.id] = 0;
     });
 
     // Get all holes that have scores for any team members
     const holesWithScores = new Set<number>();
-    for (const score of activeTournament.scores) {
-      if (score.round === activeTournament.currentRound) {
+    for (const score of tournament.scores) {
+      if (score.round === sidegame.round) {
         holesWithScores.add(score.hole);
       }
     }
@@ -238,29 +374,29 @@ export class TeamSidegameService {
     // Calculate team points for each hole using all-vs-all logic
     holesWithScores.forEach(hole => {
       // Get scores for this hole from tournament data (using Stableford points)
-      const holeResults: { [playerName: string]: number } = {};
+      const holeResults: { [playerId: string]: number } = {};
 
-      const holeScores = activeTournament.scores.filter(s =>
-        s.hole === hole && s.round === activeTournament.currentRound
+      const holeScores = tournament.scores.filter(s =>
+        s.hole === hole && s.round === sidegame.round
       );
 
       holeScores.forEach(score => {
-        const player = activeTournament.players.find(p => p.id === score.playerId);
+        const player = tournament.players.find(p => p.id === score.playerId);
         if (!player) return;
 
         // Calculate Stableford points for this player on this hole
-        const stablefordPoints = this.calculateStablefordPoints(
+        const stablefordPoints = calculateStablefordPoints(
           score.strokes,
           score.par,
-          player.receivedStrokes || 0,
-          hole
+          this.scoringService.getPlayingHandicap(tournament, player, sidegame.round, sidegame.handicapAllowance),
+          tournament.strokeIndex[hole - 1]
         );
 
-        holeResults[player.name] = stablefordPoints;
+        holeResults[player.id] = stablefordPoints;
       });
 
       // Calculate team points using all-vs-all logic
-      const holeTeamPoints = this.calculateAllVsAllPoints(holeResults, sidegame.groupings || []);
+      const holeTeamPoints = this.calculateAllVsAllPoints(sidegame, holeResults);
 
       // Add to total
       Object.entries(holeTeamPoints).forEach(([teamId, points]) => {
@@ -270,7 +406,7 @@ export class TeamSidegameService {
       matchesPlayed++;
     });
 
-    const leaderboard: TeamLeaderboardEntry[] = sidegame.teams.map(team => {
+    const leaderboard: TeamLeaderboardEntry[] = this.getSidegameTeams(sidegame).map(team => {
       return {
         teamId: team.id,
         teamName: team.name,
@@ -297,25 +433,222 @@ export class TeamSidegameService {
     return leaderboard;
   }
 
-  private calculateStablefordPoints(strokes: number, par: number, receivedStrokes: number, hole: number): number {
-    // Standard handicap index (1-18)
-    const standardIndex = [8,14,4,16,2,6,12,10,18,11,3,17,13,9,1,5,15,7];
+  // Handicaps per player (four-ball) or per pair (one ball); in match play strokes are taken off the lowest
+  private getPairHandicaps(tournament: Tournament, sidegame: TeamSidegame, pairs: SidegamePair[]): { [id: string]: number } {
+    const handicaps: { [id: string]: number } = {};
+    const fullHandicap = (playerId: string, percentage: number) => {
+      const player = tournament.players.find(p => p.id === playerId);
+      return player ? this.scoringService.getPlayingHandicap(tournament, player, sidegame.round, { percentage }) : 0;
+    };
+
+    if (!isOneBallFormat(sidegame.gameType)) {
+      const allowance = sidegame.handicapAllowance || HANDICAP_ALLOWANCES['four-ball'];
+      pairs.forEach(pair => pair.playerIds.forEach(playerId => {
+        handicaps[playerId] = fullHandicap(playerId, allowance.percentage);
+      }));
+    } else {
+      const allowance = sidegame.handicapAllowance || HANDICAP_ALLOWANCES[sidegame.gameType];
+      pairs.forEach(pair => {
+        handicaps[pair.id] = calculatePairHandicap(fullHandicap(pair.playerIds[0], 100), fullHandicap(pair.playerIds[1], 100), allowance);
+      });
+    }
+
+    if (sidegame.pairsMode === 'match') {
+      const lowest = Math.min(...Object.values(handicaps));
+      Object.keys(handicaps).forEach(id => {
+        handicaps[id] -= lowest;
+      });
+    }
+
+    return handicaps;
+  }
+
+  // Net strokes of the pair's counting ball on a hole, or null when it has no score yet
+  private getPairHoleNet(tournament: Tournament, sidegame: TeamSidegame, pair: SidegamePair, hole: number, handicaps: { [id: string]: number }): number | null {
+    const strokeIndex = tournament.strokeIndex[hole - 1];
+    const holeScores = tournament.scores.filter(s => s.round === sidegame.round && s.hole === hole);
+
+    if (isOneBallFormat(sidegame.gameType)) {
+      const score = holeScores.find(s => s.sideId === pair.id);
+      return score ? score.strokes - getStrokesReceivedOnHole(handicaps[pair.id], strokeIndex) : null;
+    }
+
+    // Four-ball: best net ball of the two players
+    const netScores = holeScores
+      .filter(s => s.playerId && pair.playerIds.includes(s.playerId))
+      .map(s => s.strokes - getStrokesReceivedOnHole(handicaps[s.playerId!], strokeIndex));
+    return netScores.length > 0 ? Math.min(...netScores) : null;
+  }
+
+  // Match play pairs meet in order: pair 1 v pair 2, pair 3 v pair 4
+  private getPairMatches(sidegame: TeamSidegame): [SidegamePair, SidegamePair][] {
+    const pairs = sidegame.pairs || [];
+    const matches: [SidegamePair, SidegamePair][] = [];
+    for (let i = 0; i + 1 < pairs.length; i += 2) {
+      matches.push([pairs[i], pairs[i + 1]]);
+    }
+    return matches;
+  }
+
+  private getPairMatchResult(tournament: Tournament, sidegame: TeamSidegame, pairA: SidegamePair, pairB: SidegamePair) {
+    const handicaps = this.getPairHandicaps(tournament, sidegame, [pairA, pairB]);
+    let lead = 0; // Positive when pair A is up
+    let holesPlayed = 0;
+
+    for (let hole = 1; hole <= 18; hole++) {
+      if (Math.abs(lead) > 18 - holesPlayed) break;
+
+      const netA = this.getPairHoleNet(tournament, sidegame, pairA, hole, handicaps);
+      const netB = this.getPairHoleNet(tournament, sidegame, pairB, hole, handicaps);
+      if (netA === null || netB === null) continue;
+
+      holesPlayed++;
+      if (netA < netB) lead++;
+      if (netB < netA) lead--;
+    }
+
+    const { state, result } = describeMatchResult(Math.abs(lead), holesPlayed);
+    return {
+      lead: Math.abs(lead),
+      leaderPairId: lead > 0 ? pairA.id : lead < 0 ? pairB.id : null,
+      complete: state === 'complete',
+      result,
+    };
+  }
+
+  getPairsLeaderboard(sidegameId: string): PairLeaderboardEntry[] {
+    const sidegame = this.sidegames.get(sidegameId);
+    if (!sidegame || !isPairsFormat(sidegame.gameType)) return [];
+
+    const tournament = this.scoringService.getTournament(sidegame.tournamentId);
+    if (!tournament) return [];
+
+    const pairs = sidegame.pairs || [];
+    const handicaps = this.getPairHandicaps(tournament, { ...sidegame, pairsMode: 'stroke' }, pairs);
+
+    const leaderboard: PairLeaderboardEntry[] = pairs.map(pair => {
+      const holeScores: (number | null)[] = [];
+      let netToPar = 0;
+
+      for (let hole = 1; hole <= 18; hole++) {
+        const net = this.getPairHoleNet(tournament, sidegame, pair, hole, handicaps);
+        holeScores.push(net);
+        if (net !== null) {
+          netToPar += net - tournament.par[hole - 1];
+        }
+      }
+
+      return {
+        pairId: pair.id,
+        pairName: pair.name,
+        playerNames: pair.playerIds.map(id => tournament.players.find(p => p.id === id)?.name || id),
+        teamId: pair.teamId,
+        playingHandicap: isOneBallFormat(sidegame.gameType)
+          ? handicaps[pair.id]
+          : Math.min(...pair.playerIds.map(id => handicaps[id])),
+        holeScores,
+        holesCompleted: holeScores.filter(score => score !== null).length,
+        netToPar,
+        position: 0,
+      };
+    });
+
+    if (sidegame.pairsMode === 'match') {
+      this.getPairMatches(sidegame).forEach(([pairA, pairB]) => {
+        const match = this.getPairMatchResult(tournament, sidegame, pairA, pairB);
+        leaderboard.find(e => e.pairId === pairA.id)!.match = { opponentPairId: pairB.id, ...match };
+        leaderboard.find(e => e.pairId === pairB.id)!.match = { opponentPairId: pairA.id, ...match };
+      });
+    } else {
+      // Stroke play: lowest net to par first
+      leaderboard.sort((a, b) => {
+        if (a.netToPar !== b.netToPar) {
+          return a.netToPar - b.netToPar;
+        }
+        return b.holesCompleted - a.holesCompleted;
+      });
+    }
+
+    leaderboard.forEach((entry, index) => {
+      entry.position = index + 1;
+    });
+
+    return leaderboard;
+  }
+
+  // Team points from pairs: match play scores 1 per match won and 0.5 per halved match once complete;
+  // stroke play scores 1 per hole for each pair from another team beaten
+  private generatePairsTeamLeaderboard(sidegame: TeamSidegame): TeamLeaderboardEntry[] {
+    const tournament = this.scoringService.getTournament(sidegame.tournamentId);
+    if (!tournament) return [];
+
+    const teamTotalPoints: { [teamId: string]: number } = {};
+    this.getSidegameTeams(sidegame).forEach(team => {
+      teamTotalPoints[team.id] = 0;
+    });
+    const addPoints = (teamId: string | undefined, points: number) => {
+      if (teamId && teamId in teamTotalPoints) teamTotalPoints[teamId] += points;
+    };
+
+    let matchesPlayed = 0;
+
+    if (sidegame.pairsMode === 'match') {
+      this.getPairMatches(sidegame).forEach(([pairA, pairB]) => {
+        const match = this.getPairMatchResult(tournament, sidegame, pairA, pairB);
+        if (!match.complete) return;
+
+        matchesPlayed++;
+        if (match.leaderPairId === null) {
+          addPoints(pairA.teamId, 0.5);
+          addPoints(pairB.teamId, 0.5);
+        } else {
+          addPoints(match.leaderPairId === pairA.id ? pairA.teamId : pairB.teamId, 1);
+        }
+      });
+    } else {
+      const pairs = sidegame.pairs || [];
+      const handicaps = this.getPairHandicaps(tournament, sidegame, pairs);
+
+      for (let hole = 1; hole <= 18; hole++) {
+        const netScores = pairs.map(pair => this.getPairHoleNet(tournament, sidegame, pair, hole, handicaps));
+        if (netScores.every(net => net === null)) continue;
+        matchesPlayed++;
+
+        for (let i = 0; i < pairs.length; i++) {
+          for (let j = i + 1; j < pairs.length; j++) {
+            const netA = netScores[i];
+            const netB = netScores[j];
+            if (netA === null || netB === null || pairs[i].teamId === pairs[j].teamId) continue;
+
+            if (netA < netB) addPoints(pairs[i].teamId, 1);
+            if (netB < netA) addPoints(pairs[j].teamId, 1);
+          }
+        }
+      }
+    }
 
-    // Determine if player gets a stroke on this hole based on handicap index
-    const holeIndex = standardIndex[hole - 1];
-    const strokesReceived = Math.floor(receivedStrokes / 18) + (holeIndex <= (receivedStrokes % 18) ? 1 : 0);
+    const leaderboard: TeamLeaderboardEntry[] = this.getSidegameTeams(sidegame).map(team => ({
+      teamId: team.id,
+      teamName: team.name,
+      teamColor: team.color,
+      totalPoints: teamTotalPoints[team.id] || 0,
+      matchesPlayed,
+      position: 0,
+    }));
 
-    // Adjusted par for this player on this hole
-    const adjustedPar = par + strokesReceived;
+    // Sort by total points (descending)
+    leaderboard.sort((a, b) => {
+      if (b.totalPoints !== a.totalPoints) {
+        return b.totalPoints - a.totalPoints;
+      }
+      return a.teamName.localeCompare(b.teamName);
+    });
 
-    // Calculate stableford points based on score vs adjusted par
-    const scoreDiff = strokes - adjustedPar;
+    leaderboard.forEach((entry, index) => {
+      entry.position = index + 1;
+    });
 
-    if (scoreDiff <= -2) return 4; // Eagle or better
-    if (scoreDiff === -1) return 3; // Birdie
-    if (scoreDiff === 0) return 2;  // Par
-    if (scoreDiff === 1) return 1;  // Bogey
-    return 0; // Double bogey or worse
+    return leaderboard;
   }
 
   generateTeamLeaderboard(sidegameId: string): TeamLeaderboardEntry[] {
@@ -326,81 +659,46 @@ export class TeamSidegameService {
       return this.generateAllVsAllLeaderboard(sidegame);
     }
 
+    if (isPairsFormat(sidegame.gameType)) {
+      return this.generatePairsTeamLeaderboard(sidegame);
+    }
+
+    // Side bets are settled between players, see getSkins, getNassau and getWolf
+    if (SIDE_BETS.includes(sidegame.gameType)) {
+      return [];
+    }
+
     // Sum-match leaderboard logic
     // Get tournament data to calculate correct team points
-    const activeTournament = this.loadActiveTournament();
-    if (!activeTournament) return [];
+    const tournament = this.scoringService.getTournament(sidegame.tournamentId);
+    if (!tournament) return [];
 
-    // Calculate team points for each hole based on tournament data
     const teamTotalPoints: { [teamId: string]: number } = {};
-    sidegame.teams.forEach(team => {
+    this.getSidegameTeams(sidegame).forEach(team => {
       teamTotalPoints[team.id] = 0;
     });
 
     // Get all holes that have scores for any team members
     const holesWithScores = new Set<number>();
-    for (const score of activeTournament.scores) {
-      if (score.round === activeTournament.currentRound) {
+    for (const score of tournament.scores) {
+      if (score.round === sidegame.round) {
         holesWithScores.add(score.hole);
       }
     }
 
     let matchesPlayed = 0;
 
-    // Calculate team points for each hole
     holesWithScores.forEach(hole => {
-      const teamStrokesDifference: { [teamId: string]: number } = {};
-      this.teams.forEach(team => {
-        teamStrokesDifference[team.id] = 0;
-      });
-
-      // Get scores for this hole from tournament data
-      const holeScores = activeTournament.scores.filter(s =>
-        s.hole === hole && s.round === activeTournament.currentRound
-      );
-
-      // Calculate team strokes vs par for this hole
-      holeScores.forEach(score => {
-        const player = activeTournament.players.find(p => p.id === score.playerId);
-        if (!player) return;
-
-        const team = this.getPlayerTeam(player.name);
-        if (!team) return;
+      const teamScores = this.getCompleteSumMatchHoleScores(tournament, sidegame, hole);
+      if (Object.keys(teamScores).length < 2) return;
 
-        const strokesVsPar = score.strokes - score.par;
-        teamStrokesDifference[team.id] += strokesVsPar;
+      Object.entries(this.scoreSumMatchHole(sidegame, teamScores)).forEach(([teamId, points]) => {
+        teamTotalPoints[teamId] = (teamTotalPoints[teamId] || 0) + points;
       });
-
-      // Award points based on team performance for this hole
-      const teamScores = Object.values(teamStrokesDifference);
-      const bestScore = Math.min(...teamScores);
-      const worstScore = Math.max(...teamScores);
-
-      // Only award points if there's a clear difference
-      if (bestScore !== worstScore) {
-        // Find teams with best score (winners get +1 point each)
-        const winners = Object.entries(teamStrokesDifference)
-          .filter(([_, score]) => score === bestScore)
-          .map(([teamId, _]) => teamId);
-
-        // Find teams with worst score (losers get -1 point each)
-        const losers = Object.entries(teamStrokesDifference)
-          .filter(([_, score]) => score === worstScore)
-          .map(([teamId, _]) => teamId);
-
-        // Award points - only if sole winner/loser (no ties)
-        if (winners.length === 1) {
-          teamTotalPoints[winners[0]] += 1;
-        }
-        if (losers.length === 1) {
-          teamTotalPoints[losers[0]] -= 1;
-        }
-      }
-
       matchesPlayed++;
     });
 
-    const leaderboard: TeamLeaderboardEntry[] = sidegame.teams.map(team => {
+    const leaderboard: TeamLeaderboardEntry[] = this.getSidegameTeams(sidegame).map(team => {
       return {
         teamId: team.id,
         teamName: team.name,
@@ -427,70 +725,448 @@ export class TeamSidegameService {
     return leaderboard;
   }
 
-  getSumMatchLiveScorecard(sidegameId: string): { [hole: number]: { [teamId: string]: number } } {
+  getSkins(sidegameId: string): SkinsResult | null {
     const sidegame = this.sidegames.get(sidegameId);
-    if (!sidegame || sidegame.gameType !== 'sum-match') return {};
+    if (!sidegame || sidegame.gameType !== 'skins' || !sidegame.skins) return null;
+
+    const tournament = this.scoringService.getTournament(sidegame.tournamentId);
+    if (!tournament) return null;
+
+    const { basis, ties, validation, playerIds } = sidegame.skins;
+    const participants = tournament.players.filter(p => !p.withdrawnAt && (!playerIds || playerIds.includes(p.id)));
+    const handicaps: { [playerId: string]: number } = {};
+    participants.forEach(player => {
+      handicaps[player.id] = basis === 'net'
+        ? this.scoringService.getPlayingHandicap(tournament, player, sidegame.round, sidegame.handicapAllowance)
+        : 0;
+    });
 
-    // Get the tournament scoring data directly instead of relying on team matches
-    const activeTournament = this.loadActiveTournament();
-    if (!activeTournament) return {};
+    const holeScores = (hole: number): { [playerId: string]: number } => {
+      const scores: { [playerId: string]: number } = {};
+      tournament.scores
+        .filter(s => s.round === sidegame.round && s.hole === hole && s.playerId && s.playerId in handicaps)
+        .forEach(s => {
+          scores[s.playerId!] = s.strokes - getStrokesReceivedOnHole(handicaps[s.playerId!], tournament.strokeIndex[hole - 1]);
+        });
+      return scores;
+    };
 
-    const liveScorecard: { [hole: number]: { [teamId: string]: number } } = {};
+    const totals: { [playerId: string]: number } = {};
+    participants.forEach(player => {
+      totals[player.id] = 0;
+    });
 
-    // Get all holes that have scores for any team members
-    const holesWithScores = new Set<number>();
-    for (const score of activeTournament.scores) {
-      if (score.round === activeTournament.currentRound) {
-        holesWithScores.add(score.hole);
+    const holes: SkinsHole[] = [];
+    let carry = 0;
+    let pending = false; // Carryovers are unknown after the first undecided hole
+
+    for (let hole = 1; hole <= 18; hole++) {
+      const value = 1 + carry;
+      const scores = holeScores(hole);
+
+      if (pending || participants.length === 0 || participants.some(p => scores[p.id] === undefined)) {
+        holes.push({ hole, value, status: 'pending', winnerIds: [], scores });
+        pending = true;
+        continue;
+      }
+
+      const best = Math.min(...Object.values(scores));
+      const winnerIds = Object.keys(scores).filter(id => scores[id] === best);
+
+      if (winnerIds.length === 1) {
+        if (validation && hole < 18) {
+          // On the game's basis, so net skins validate with a net par
+          const nextHoleScore = holeScores(hole + 1)[winnerIds[0]];
+          if (nextHoleScore === undefined) {
+            holes.push({ hole, value, status: 'pending', winnerIds, scores });
+            pending = true;
+            continue;
+          }
+          if (nextHoleScore > tournament.par[hole]) {
+            // Not validated: the skin carries on
+            holes.push({ hole, value, status: 'carried', winnerIds: [], scores });
+            carry = value;
+            continue;
+          }
+        }
+
+        totals[winnerIds[0]] += value;
+        holes.push({ hole, value, status: 'won', winnerIds, scores });
+        carry = 0;
+      } else if (ties === 'split') {
+        winnerIds.forEach(id => {
+          totals[id] += value / winnerIds.length;
+        });
+        holes.push({ hole, value, status: 'split', winnerIds, scores });
+        carry = 0;
+      } else if (ties === 'void') {
+        holes.push({ hole, value, status: 'void', winnerIds: [], scores });
+        carry = 0;
+      } else {
+        holes.push({ hole, value, status: 'carried', winnerIds: [], scores });
+        carry = value;
       }
     }
 
-    // Calculate team scores for each hole
-    holesWithScores.forEach(hole => {
-      const teamStrokesDifference: { [teamId: string]: number } = {};
-      this.teams.forEach(team => {
-        teamStrokesDifference[team.id] = 0;
-      });
+    return {
+      sidegameId,
+      holes,
+      players: participants
+        .map(player => ({ playerId: player.id, playerName: player.name, skins: totals[player.id] }))
+        .sort((a, b) => b.skins - a.skins),
+      carryover: carry,
+    };
+  }
 
-      // Get scores for this hole from tournament data
-      const holeScores = activeTournament.scores.filter(s =>
-        s.hole === hole && s.round === activeTournament.currentRound
-      );
+  getNassau(sidegameId: string): NassauResult | null {
+    const sidegame = this.sidegames.get(sidegameId);
+    if (!sidegame || sidegame.gameType !== 'nassau' || !sidegame.nassau) return null;
+
+    const tournament = this.scoringService.getTournament(sidegame.tournamentId);
+    if (!tournament) return null;
+
+    const sides = this.getNassauSides(tournament, sidegame);
+    if (!sides) return null;
+    const [sideA, sideB] = sides.sides;
+
+    const holes: NassauHole[] = [];
+    for (let hole = 1; hole <= 18; hole++) {
+      const scoreA = sides.holeScore(sideA, hole);
+      const scoreB = sides.holeScore(sideB, hole);
+      const played = scoreA !== null && scoreB !== null;
+      holes.push({
+        hole,
+        scores: { [sideA.id]: scoreA, [sideB.id]: scoreB },
+        winnerSideId: played && scoreA! < scoreB! ? sideA.id : played && scoreB! < scoreA! ? sideB.id : null,
+        played,
+      });
+    }
 
-      holeScores.forEach(score => {
-        const player = activeTournament.players.find(p => p.id === score.playerId);
-        if (!player) return;
+    const bets = this.playNassauBets(sidegame, holes, sideA, sideB);
+    const stake = sidegame.stake ?? sidegame.nassau.stake;
+
+    const settlement: NassauPlayerSettlement[] = sides.sides.flatMap(side => side.playerIds.map(playerId => ({
+      playerId,
+      playerName: tournament.players.find(p => p.id === playerId)?.name || playerId,
+      sideId: side.id,
+      betsWon: 0,
+      betsLost: 0,
+      amount: 0,
+      projected: 0,
+    })));
+
+    // Each winning player collects the stake from an opponent, so pairs settle player against player
+    bets.forEach(bet => {
+      if (!bet.leaderSideId) return;
+      settlement.forEach(entry => {
+        const sign = entry.sideId === bet.leaderSideId ? 1 : -1;
+        entry.projected += sign * stake;
+        if (bet.complete) {
+          entry.amount += sign * stake;
+          if (sign > 0) entry.betsWon++;
+          else entry.betsLost++;
+        }
+      });
+    });
 
-        const team = this.getPlayerTeam(player.name);
-        if (!team) return;
+    return { sidegameId, sides: sides.sides, stake, holes, bets, settlement };
+  }
 
-        const strokesVsPar = score.strokes - score.par;
-        teamStrokesDifference[team.id] += strokesVsPar;
+  // The two sides of a Nassau with their counting score per hole; strokes are taken off the lowest handicap
+  private getNassauSides(tournament: Tournament, sidegame: TeamSidegame): {
+    sides: NassauSide[];
+    holeScore: (side: NassauSide, hole: number) => number | null;
+  } | null {
+    const basis = sidegame.nassau?.basis;
+    const playerIds = sidegame.nassau?.playerIds;
+
+    if (playerIds) {
+      const players = playerIds.map(id => tournament.players.find(p => p.id === id));
+      if (players.some(player => !player)) return null;
+
+      const allowance = sidegame.handicapAllowance || HANDICAP_ALLOWANCES['individual-match-play'];
+      const handicaps: { [playerId: string]: number } = {};
+      players.forEach(player => {
+        handicaps[player!.id] = basis === 'net'
+          ? this.scoringService.getPlayingHandicap(tournament, player!, sidegame.round, allowance)
+          : 0;
       });
+      const lowest = Math.min(...Object.values(handicaps));
 
-      liveScorecard[hole] = teamStrokesDifference;
-    });
+      return {
+        sides: players.map(player => ({ id: player!.id, name: player!.name, playerIds: [player!.id] })),
+        holeScore: (side, hole) => {
+          const score = tournament.scores.find(s => s.playerId === side.id && s.round === sidegame.round && s.hole === hole);
+          return score ? score.strokes - getStrokesReceivedOnHole(handicaps[side.id] - lowest, tournament.strokeIndex[hole - 1]) : null;
+        },
+      };
+    }
 
-    return liveScorecard;
+    // Pairs play best ball
+    const pairs = sidegame.pairs || [];
+    if (pairs.length !== 2) return null;
+
+    const handicaps: { [playerId: string]: number } = {};
+    if (basis === 'net') {
+      Object.assign(handicaps, this.getPairHandicaps(tournament, { ...sidegame, pairsMode: 'match' }, pairs));
+    } else {
+      pairs.forEach(pair => pair.playerIds.forEach(playerId => {
+        handicaps[playerId] = 0;
+      }));
+    }
+
+    return {
+      sides: pairs.map(pair => ({ id: pair.id, name: pair.name, playerIds: [...pair.playerIds] })),
+      holeScore: (side, hole) => this.getPairHoleNet(tournament, sidegame, pairs.find(p => p.id === side.id)!, hole, handicaps),
+    };
   }
 
-  private loadActiveTournament(): Tournament | null {
-    try {
-      const tournamentsFile = path.join(this.dataPath, 'tournaments.json');
-      if (!fs.existsSync(tournamentsFile)) {
-        return null;
+  // Plays the front, back and overall bets hole by hole in order. A bet that goes the trigger down
+  // opens a press over its remaining holes, which can itself be pressed when presses on presses are on.
+  private playNassauBets(sidegame: TeamSidegame, holes: NassauHole[], sideA: NassauSide, sideB: NassauSide): NassauBet[] {
+    const presses = sidegame.nassau!.presses;
+    const roots: NassauBet[] = [
+      this.createNassauBet('front', 'Front 9', 'front', 1, 9),
+      this.createNassauBet('back', 'Back 9', 'back', 10, 18),
+      this.createNassauBet('overall', 'Overall', 'overall', 1, 18),
+    ];
+    const pressCount: { [rootId: string]: number } = {};
+    const bets: NassauBet[] = [];
+    const queue = roots.map(bet => ({ bet, root: bet }));
+
+    while (queue.length > 0) {
+      const { bet, root } = queue.shift()!;
+      bets.push(bet);
+
+      const canPress = presses.enabled &&
+        (root.type !== 'overall' || presses.overall) &&
+        (bet.type !== 'press' || presses.onPresses);
+      let lead = 0; // Positive when side A is up
+      let pressed = false;
+
+      for (let hole = bet.startHole; hole <= bet.endHole; hole++) {
+        // Holes count in order from the start of the bet
+        const result = holes[hole - 1];
+        if (!result.played) break;
+
+        bet.holesPlayed++;
+        if (result.winnerSideId === sideA.id) lead++;
+        if (result.winnerSideId === sideB.id) lead--;
+
+        const withinLimit = presses.maxPresses === undefined || (pressCount[root.id] || 0) < presses.maxPresses;
+        if (canPress && !pressed && withinLimit && Math.abs(lead) >= presses.trigger && hole < bet.endHole) {
+          pressed = true;
+          pressCount[root.id] = (pressCount[root.id] || 0) + 1;
+          const press = this.createNassauBet(
+            `${root.id}-press-${pressCount[root.id]}`,
+            `${root.name} press ${pressCount[root.id]}`,
+            'press',
+            hole + 1,
+            bet.endHole,
+            bet.id
+          );
+          queue.push({ bet: press, root });
+        }
+
+        // Stop once the bet is decided
+        if (Math.abs(lead) > bet.endHole - hole) break;
       }
 
-      const data = fs.readFileSync(tournamentsFile, 'utf8');
-      const tournamentsData = JSON.parse(data);
+      const { state, result } = describeMatchResult(Math.abs(lead), bet.holesPlayed, bet.endHole - bet.startHole + 1);
+      bet.lead = Math.abs(lead);
+      bet.leaderSideId = lead > 0 ? sideA.id : lead < 0 ? sideB.id : null;
+      bet.result = result;
+      bet.complete = state === 'complete';
+      bet.winnerSideId = bet.complete ? bet.leaderSideId : null;
+    }
+
+    // Each bet followed by its presses
+    const rootOrder = (bet: NassauBet) => roots.findIndex(root => bet.id === root.id || bet.id.startsWith(`${root.id}-`));
+    return bets.sort((a, b) => rootOrder(a) - rootOrder(b) || a.startHole - b.startHole);
+  }
 
-      // Find the active tournament (GA 2025)
-      const tournaments = Object.values(tournamentsData) as Tournament[];
-      return tournaments.find(t => t.name === 'GA 2025') || null;
-    } catch (error) {
-      console.error('Failed to load active tournament:', error);
+  private createNassauBet(id: string, name: string, type: NassauBet['type'], startHole: number, endHole: number, parentId?: string): NassauBet {
+    return {
+      id,
+      name,
+      type,
+      parentId,
+      startHole,
+      endHole,
+      holesPlayed: 0,
+      lead: 0,
+      leaderSideId: null,
+      result: '',
+      complete: false,
+      winnerSideId: null,
+    };
+  }
+
+  // Tee order rotates by one each hole; the last player to tee off is the wolf
+  private getWolfTeeOrder(sidegame: TeamSidegame, hole: number): string[] {
+    const playerIds = sidegame.wolf?.playerIds || [];
+    const shift = (hole - 1) % playerIds.length;
+    return [...playerIds.slice(shift), ...playerIds.slice(0, shift)];
+  }
+
+  recordWolfChoice(sidegameId: string, hole: number, partnerId: string | null, wolfId?: string, rawTranscription?: string): WolfChoice | null {
+    const sidegame = this.sidegames.get(sidegameId);
+    if (!sidegame || sidegame.gameType !== 'wolf' || !sidegame.wolf) return null;
+
+    const teeOrder = this.getWolfTeeOrder(sidegame, hole);
+    const holeWolfId = teeOrder[teeOrder.length - 1];
+    if (wolfId && wolfId !== holeWolfId) {
+      console.log(`Rejected wolf choice on hole ${hole}: ${wolfId} is not the wolf`);
       return null;
     }
+    if (partnerId !== null && (partnerId === holeWolfId || !teeOrder.includes(partnerId))) return null;
+
+    const choice: WolfChoice = {
+      hole,
+      wolfId: holeWolfId,
+      partnerId,
+      rawTranscription,
+      timestamp: new Date().toISOString(),
+    };
+    sidegame.wolfChoices = [...(sidegame.wolfChoices || []).filter(c => c.hole !== hole), choice];
+
+    this.autoSave();
+    return choice;
+  }
+
+  // Spoken choice such as "Erik is wolf and takes Daniel"; without a hole it is for the next hole the
+  // speaker is the wolf on
+  processWolfChoice(tournamentId: string, round: number, update: ScoringUpdate): { sidegame: TeamSidegame; choice: WolfChoice } | null {
+    const tournament = this.scoringService.getTournament(tournamentId);
+    if (!tournament) return null;
+
+    const wolf = this.scoringService.findPlayerByName(tournament, update.player);
+    if (!wolf) return null;
+
+    const sidegame = this.getSidegamesByRound(tournamentId, round)
+      .find(sg => sg.gameType === 'wolf' && sg.wolf?.playerIds.includes(wolf.id));
+    if (!sidegame) return null;
+
+    const partner = update.partner ? this.scoringService.findPlayerByName(tournament, update.partner) : null;
+    if (update.partner && !partner) return null;
+
+    // The first hole in the rotation where the speaker is the wolf and the group hasn't scored yet
+    let hole = update.hole;
+    for (let h = 1; h <= 18 && !hole; h++) {
+      const teeOrder = this.getWolfTeeOrder(sidegame, h);
+      const played = tournament.scores.some(s => s.round === round && s.hole === h && s.playerId && teeOrder.includes(s.playerId));
+      if (teeOrder[teeOrder.length - 1] === wolf.id && !played) {
+        hole = h;
+      }
+    }
+    if (!hole) return null;
+
+    const choice = this.recordWolfChoice(sidegame.id, hole, partner ? partner.id : null, wolf.id, update.rawTranscription);
+    return choice ? { sidegame, choice } : null;
+  }
+
+  // Points per hole once the wolf has chosen and all four scores are in; a halved hole scores nothing
+  getWolf(sidegameId: string): WolfResult | null {
+    const sidegame = this.sidegames.get(sidegameId);
+    if (!sidegame || sidegame.gameType !== 'wolf' || !sidegame.wolf) return null;
+
+    const tournament = this.scoringService.getTournament(sidegame.tournamentId);
+    if (!tournament) return null;
+
+    const players = sidegame.wolf.playerIds.map(id => tournament.players.find(p => p.id === id));
+    if (players.some(player => !player)) return null;
+
+    const { basis, points } = sidegame.wolf;
+    const handicaps: { [playerId: string]: number } = {};
+    players.forEach(player => {
+      handicaps[player!.id] = basis === 'net'
+        ? this.scoringService.getPlayingHandicap(tournament, player!, sidegame.round, sidegame.handicapAllowance)
+        : 0;
+    });
+
+    const totals: { [playerId: string]: number } = {};
+    players.forEach(player => {
+      totals[player!.id] = 0;
+    });
+
+    const holes: WolfHole[] = [];
+    for (let hole = 1; hole <= 18; hole++) {
+      const teeOrder = this.getWolfTeeOrder(sidegame, hole);
+      const wolfId = teeOrder[teeOrder.length - 1];
+      const choice = sidegame.wolfChoices?.find(c => c.hole === hole);
+
+      const scores: { [playerId: string]: number } = {};
+      tournament.scores
+        .filter(s => s.round === sidegame.round && s.hole === hole && s.playerId && s.playerId in handicaps)
+        .forEach(s => {
+          scores[s.playerId!] = s.strokes - getStrokesReceivedOnHole(handicaps[s.playerId!], tournament.strokeIndex[hole - 1]);
+        });
+
+      const wolfHole: WolfHole = { hole, teeOrder, wolfId, partnerId: choice?.partnerId, status: 'pending', winnerIds: [], points: {}, scores };
+      holes.push(wolfHole);
+      if (!choice || teeOrder.some(id => scores[id] === undefined)) continue;
+
+      const wolfSide = teeOrder.filter(id => id === wolfId || id === choice.partnerId);
+      const otherSide = teeOrder.filter(id => !wolfSide.includes(id));
+      const bestWolf = Math.min(...wolfSide.map(id => scores[id]));
+      const bestOther = Math.min(...otherSide.map(id => scores[id]));
+
+      if (bestWolf === bestOther) {
+        wolfHole.status = 'halved';
+        continue;
+      }
+
+      wolfHole.status = 'won';
+      wolfHole.winnerIds = bestWolf < bestOther ? wolfSide : otherSide;
+      if (choice.partnerId !== null) {
+        wolfHole.winnerIds.forEach(id => {
+          wolfHole.points[id] = points.team;
+        });
+      } else if (bestWolf < bestOther) {
+        wolfHole.points[wolfId] = points.loneWolfWin;
+      } else {
+        otherSide.forEach(id => {
+          wolfHole.points[id] = points.loneWolfLoss;
+        });
+      }
+
+      Object.entries(wolfHole.points).forEach(([id, holePoints]) => {
+        totals[id] += holePoints;
+      });
+    }
+
+    return {
+      sidegameId,
+      holes,
+      players: players
+        .map(player => ({ playerId: player!.id, playerName: player!.name, points: totals[player!.id] }))
+        .sort((a, b) => b.points - a.points),
+    };
+  }
+
+  getSumMatchLiveScorecard(sidegameId: string): { [hole: number]: { [teamId: string]: number } } {
+    const sidegame = this.sidegames.get(sidegameId);
+    if (!sidegame || sidegame.gameType !== 'sum-match') return {};
+
+    // Get the tournament scoring data directly instead of relying on team matches
+    const tournament = this.scoringService.getTournament(sidegame.tournamentId);
+    if (!tournament) return {};
+
+    const liveScorecard: { [hole: number]: { [teamId: string]: number } } = {};
+
+    // Get all holes that have scores for any team members
+    const holesWithScores = new Set<number>();
+    for (const score of tournament.scores) {
+      if (score.round === sidegame.round) {
+        holesWithScores.add(score.hole);
+      }
+    }
+
+    holesWithScores.forEach(hole => {
+      liveScorecard[hole] = this.getSumMatchHoleScores(tournament, sidegame, hole);
+    });
+
+    return liveScorecard;
   }
 
   // Persistence methods
@@ -529,6 +1205,7 @@ export class TeamSidegameService {
         const sidegamesObject = JSON.parse(data);
         this.sidegames = new Map(Object.entries(sidegamesObject));
         console.log(`Loaded ${this.sidegames.size} sidegames from storage`);
+        this.migrateSidegames();
       } else {
         console.log('No existing sidegame data found');
       }
@@ -537,6 +1214,57 @@ export class TeamSidegameService {
     }
   }
 
+  // Sidegames saved before teams were editable carry a copy of the teams with players by name; the teams
+  // move to the team service and pairs and hole points follow them to their new ids
+  private migrateSidegames(): void {
+    let migrated = false;
+
+    this.sidegames.forEach(sidegame => {
+      const legacy = sidegame as TeamSidegame & { teams?: LegacyTeam[] };
+      if (!legacy.teams) return;
+
+      const teamIds = this.teamService.migrateLegacyTeams(sidegame.tournamentId, sidegame.round, legacy.teams);
+      sidegame.pairs?.forEach(pair => {
+        if (pair.teamId && teamIds[pair.teamId]) pair.teamId = teamIds[pair.teamId];
+      });
+      sidegame.matches.forEach(match => {
+        match.teamPoints = Object.fromEntries(
+          Object.entries(match.teamPoints).map(([teamId, points]) => [teamIds[teamId] || teamId, points])
+        );
+      });
+
+      delete legacy.teams;
+      migrated = true;
+    });
+
+    // Groupings and hole results were keyed by player name before players were told apart by id
+    this.sidegames.forEach(sidegame => {
+      const tournament = this.scoringService.getTournament(sidegame.tournamentId);
+      if (!tournament) return;
+      const toPlayerId = (key: string) => tournament.players.some(p => p.id === key)
+        ? key
+        : tournament.players.find(p => p.name === key)?.id ?? key;
+      const byName = (keys: string[]) => keys.some(key => toPlayerId(key) !== key);
+
+      if (sidegame.groupings?.some(byName)) {
+        sidegame.groupings = sidegame.groupings.map(group => group.map(toPlayerId));
+        migrated = true;
+      }
+      sidegame.matches.forEach(match => {
+        if (!byName(match.participants) && !byName(Object.keys(match.holeResults))) return;
+        match.participants = match.participants.map(toPlayerId);
+        match.holeResults = Object.fromEntries(
+          Object.entries(match.holeResults).map(([key, result]) => [toPlayerId(key), result])
+        );
+        migrated = true;
+      });
+    });
+
+    if (migrated) {
+      this.autoSave();
+    }
+  }
+
   private autoSave(): void {
     this.saveSidegames();
   }
@@ -1,30 +1,48 @@
 import OpenAI from 'openai';
-import path from 'path';
 import { ScoringUpdateSchema, type ScoringUpdate } from '../types';
+import { compareScoringUpdates, parseScoringRules, ParsedScores } from './ruleParser';
+import { createTranscriptionProvider, TranscriptionProvider } from './transcriptionProviders';
+
+const SCORE_PARSER_MODES = ['llm', 'rules', 'fallback', 'cross-check'] as const;
+type ScoreParserMode = typeof SCORE_PARSER_MODES[number];
 
 export class TranscriptionService {
   private openai: OpenAI | null = null;
-  private hasApiKey: boolean = false;
+  private provider: TranscriptionProvider;
+  private parserMode: ScoreParserMode;
 
   constructor() {
+    this.openai = this.createOpenAIClient();
+    this.provider = createTranscriptionProvider(this.openai);
+    this.parserMode = this.getParserMode();
+    console.log(`Transcription provider: ${this.provider.name}, score parser: ${this.parserMode}`);
+  }
+
+  private getParserMode(): ScoreParserMode {
+    const requested = process.env.SCORE_PARSER || 'fallback';
+    if (!SCORE_PARSER_MODES.includes(requested as ScoreParserMode)) {
+      console.warn(`Unknown SCORE_PARSER "${requested}" - using fallback`);
+      return 'fallback';
+    }
+    return requested as ScoreParserMode;
+  }
+
+  private createOpenAIClient(): OpenAI | null {
     const apiKey = process.env.OPENAI_API_KEY;
 
     if (!apiKey) {
       console.warn('OPENAI_API_KEY environment variable is not set - using mock responses');
-      this.hasApiKey = false;
-      return;
+      return null;
     }
 
     if (!apiKey.startsWith('sk-')) {
       console.warn('Invalid OpenAI API key format. Key should start with "sk-" - using mock responses');
-      this.hasApiKey = false;
-      return;
+      return null;
     }
 
     console.log('Initializing OpenAI client with API key:', apiKey.substring(0, 10) + '...');
-    this.hasApiKey = true;
 
-    this.openai = new OpenAI({
+    return new OpenAI({
       apiKey: apiKey,
       timeout: 30000, // 30 second timeout
       maxRetries: 3,
@@ -32,46 +50,14 @@ export class TranscriptionService {
   }
 
   async transcribeAudio(audioBuffer: Buffer, playerNames: string[] = []): Promise<string> {
-    if (!this.hasApiKey || !this.openai) {
-      console.warn('No OpenAI API key available, returning mock transcription');
-      return "Demo transcription - Player 1 scored a par on hole 1";
-    }
-
-    const fs = require('fs');
-    const os = require('os');
-    let tempFilePath: string | null = null;
-
     try {
-      console.log('Starting audio transcription, buffer size:', audioBuffer.length, 'bytes');
-
-      // Write audio buffer to a temporary file for OpenAI API
-      tempFilePath = path.join(os.tmpdir(), `audio_${Date.now()}.webm`);
-
-      fs.writeFileSync(tempFilePath, audioBuffer);
-      const fileStream = fs.createReadStream(tempFilePath);
-
-      console.log('Created file object for OpenAI API');
-
-      // Include player names in the prompt for better recognition
-      const playerContext = playerNames.length > 0
-        ? ` Players competing: ${playerNames.join(', ')}.`
-        : '';
-
-      const transcription = await this.openai.audio.transcriptions.create({
-        file: fileStream,
-        model: 'whisper-1',
-        prompt: `This is a golf scoring update during live play. The speaker is reporting individual scores for consecutive holes, NOT phone numbers or codes. When hearing multiple scores like "four five three four", transcribe as separate numbers: "4 5 3 4" not "4-5-3-4". Golf context: Players are competing on an 18-hole course with standard par values.${playerContext}`,
-        language: 'en',
-      });
-
-      console.log('Transcription successful:', transcription.text);
-
-      // Clean up temporary file
-      fs.unlinkSync(tempFilePath);
-
-      return transcription.text;
+      console.log(`Starting ${this.provider.name} transcription, buffer size:`, audioBuffer.length, 'bytes');
+      const transcription = await this.provider.transcribe(audioBuffer, playerNames);
+      console.log('Transcription successful:', transcription);
+      return transcription;
     } catch (error: any) {
       console.error('Transcription error details:', {
+        provider: this.provider.name,
         message: error?.message,
         status: error?.status,
         type: error?.type,
@@ -79,15 +65,6 @@ export class TranscriptionService {
         cause: error?.cause
       });
 
-      // Clean up temporary file on error too
-      try {
-        if (tempFilePath && fs.existsSync(tempFilePath)) {
-          fs.unlinkSync(tempFilePath);
-        }
-      } catch (cleanupError) {
-        // Ignore cleanup errors
-      }
-
       if (error instanceof Error) {
         throw new Error(`Failed to transcribe audio: ${error.message}`);
       }
@@ -95,14 +72,51 @@ export class TranscriptionService {
     }
   }
 
-  async parseTranscriptionToScore(transcription: string, playerNames: string[] = [], currentScores?: {[playerName: string]: {[hole: number]: number}}): Promise<ScoringUpdate[]> {
-    if (!this.hasApiKey || !this.openai) {
-      console.warn('No OpenAI API key available, returning mock scoring update');
-      return [{
-        player: '',
-        action: 'score',
-        rawTranscription: transcription,
-      }];
+  // SCORE_PARSER picks how transcriptions become scores: the LLM only (llm), the rule parser only
+  // (rules), the LLM with the rule parser when it is unavailable or fails (fallback, the default) or
+  // the LLM checked against the rule parser, logging where they disagree (cross-check)
+  async parseTranscriptionToScore(transcription: string, playerNames: string[] = [], currentScores?: ParsedScores): Promise<ScoringUpdate[]> {
+    const mode = this.parserMode;
+    const parseWithRules = () => {
+      const updates = parseScoringRules(transcription, playerNames, currentScores);
+      console.log(`Rule parser found ${updates.length} scoring update(s)`);
+      return updates;
+    };
+
+    if (mode === 'rules') {
+      return parseWithRules();
+    }
+
+    if (!this.openai) {
+      if (mode === 'llm') {
+        console.warn('No OpenAI API key available and SCORE_PARSER is llm - no scoring updates parsed');
+        return [];
+      }
+      console.warn('No OpenAI API key available, parsing the transcription with rules');
+      return parseWithRules();
+    }
+
+    let updates: ScoringUpdate[];
+    try {
+      updates = await this.parseWithLLM(transcription, playerNames, currentScores);
+    } catch (error) {
+      console.error('Score parsing error:', error);
+      console.error('Original transcription:', transcription);
+      return mode === 'llm' ? [] : parseWithRules();
+    }
+
+    if (mode === 'cross-check') {
+      const differences = compareScoringUpdates(updates, parseScoringRules(transcription, playerNames, currentScores));
+      if (differences.length > 0) {
+        console.warn(`LLM and rule parser disagree on "${transcription}":\n  ${differences.join('\n  ')}`);
+      }
+    }
+    return updates;
+  }
+
+  private async parseWithLLM(transcription: string, playerNames: string[], currentScores?: ParsedScores): Promise<ScoringUpdate[]> {
+    if (!this.openai) {
+      throw new Error('No OpenAI client available');
     }
 
     // Pre-process transcription to normalize dash-separated sequences
@@ -173,6 +187,26 @@ Examples:
 - "Tiger didn't play hole 3" → {"player": "Tiger Woods", "hole": 3, "strokes": null, "action": "delete"}
 - "Delete that score" → {"player": "", "hole": null, "strokes": null, "action": "delete"}
 
+WOLF Partner Choices:
+In the Wolf game the wolf picks a partner for the hole or plays alone. Return a wolf object:
+- Use action: "wolf" with the wolf as player and the chosen player as partner
+- Set partner to null when the wolf goes alone ("lone wolf")
+- Set strokes to null; set hole only if a hole number is mentioned
+
+Examples:
+- "Erik is wolf and takes Daniel" → {"player": "Erik", "hole": null, "strokes": null, "action": "wolf", "partner": "Daniel"}
+- "Tiger goes lone wolf on hole 7" → {"player": "Tiger Woods", "hole": 7, "strokes": null, "action": "wolf", "partner": null}
+
+CONTEST Results:
+Closest to the pin, longest drive, longest putt and hole-in-one contests are recorded with a contest object:
+- Use action: "contest" with contest one of: closest-to-pin, longest-drive, longest-putt, hole-in-one
+- Set measurement to the distance in metres as a number (convert spoken numbers and centimetres), or null if none is given
+- Set strokes to null
+
+Examples:
+- "Henrik closest on 4, two metres" → {"player": "Henrik", "hole": 4, "strokes": null, "action": "contest", "contest": "closest-to-pin", "measurement": 2}
+- "Longest drive on 12 goes to Fredrik" → {"player": "Fredrik", "hole": 12, "strokes": null, "action": "contest", "contest": "longest-drive", "measurement": null}
+
 If multiple players or scores are mentioned, extract ALL scoring updates as separate objects.
 If the transcription contains no scoring information (just corrections/deletions), return the deletion objects.
 If the transcription contains no useful golf information at all, return an empty array.
@@ -183,79 +217,70 @@ Return a JSON array containing all scoring updates found in the transcription:
     "player": "player name or empty string",
     "hole": hole_number_or_null,
     "strokes": stroke_count_or_null,
-    "action": "one of: birdie, eagle, par, bogey, double_bogey, score, delete"
+    "action": "one of: birdie, eagle, par, bogey, double_bogey, score, delete, wolf, contest",
+    "partner": "partner name or null (wolf action only)",
+    "contest": "contest type or null (contest action only)",
+    "measurement": metres_or_null (contest action only)
   }
 ]
 
-Note: Use null (not undefined) for missing hole or strokes values.
+Note: Use null (not undefined) for missing hole, strokes, partner, contest or measurement values.
 
 Transcription: "${normalizedTranscription}"
 `;
 
-    try {
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a precise golf scoring parser. Handle sequential scoring patterns correctly: "from hole 6, 4 5 3 4" means hole 6=4, hole 7=5, hole 8=3, hole 9=4. When you see space-separated numbers after a starting hole, each number represents the score for consecutive holes. Return ONLY a valid JSON array of scoring objects, no other text, no explanations.'
-          },
-          {
-            role: 'user',
-            content: golfContext
-          }
-        ],
-        temperature: 0.1,
-      });
-
-      const responseText = completion.choices[0]?.message?.content?.trim();
-      if (!responseText) {
-        throw new Error('No response from OpenAI');
-      }
+    const completion = await this.openai.chat.completions.create({
+      model: 'gpt-4',
+      messages: [
+        {
+          role: 'system',
+          content: 'You are a precise golf scoring parser. Handle sequential scoring patterns correctly: "from hole 6, 4 5 3 4" means hole 6=4, hole 7=5, hole 8=3, hole 9=4. When you see space-separated numbers after a starting hole, each number represents the score for consecutive holes. Return ONLY a valid JSON array of scoring objects, no other text, no explanations.'
+        },
+        {
+          role: 'user',
+          content: golfContext
+        }
+      ],
+      temperature: 0.1,
+    });
 
-      console.log('GPT-4 raw response:', responseText);
+    const responseText = completion.choices[0]?.message?.content?.trim();
+    if (!responseText) {
+      throw new Error('No response from OpenAI');
+    }
 
-      // Clean up the response to ensure it's valid JSON
-      let cleanResponse = responseText;
-      if (cleanResponse.startsWith('```json')) {
-        cleanResponse = cleanResponse.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-      }
-      if (cleanResponse.startsWith('```')) {
-        cleanResponse = cleanResponse.replace(/^```\s*/, '').replace(/\s*```$/, '');
-      }
+    console.log('GPT-4 raw response:', responseText);
 
-      const parsedData = JSON.parse(cleanResponse);
+    // Clean up the response to ensure it's valid JSON
+    let cleanResponse = responseText;
+    if (cleanResponse.startsWith('```json')) {
+      cleanResponse = cleanResponse.replace(/^```json\s*/, '').replace(/\s*```$/, '');
+    }
+    if (cleanResponse.startsWith('```')) {
+      cleanResponse = cleanResponse.replace(/^```\s*/, '').replace(/\s*```$/, '');
+    }
 
-      // Ensure we have an array
-      const arrayData = Array.isArray(parsedData) ? parsedData : [parsedData];
+    const parsedData = JSON.parse(cleanResponse);
 
-      // Empty array is valid (e.g., for non-scoring transcriptions)
-      if (!arrayData.length) {
-        console.log('Empty array returned - no scoring updates found');
-        return [];
-      }
+    // Ensure we have an array
+    const arrayData = Array.isArray(parsedData) ? parsedData : [parsedData];
 
-      // Post-process to fix sequential scoring patterns if needed
-      const processedData = this.fixSequentialScoring(arrayData, normalizedTranscription);
+    // Empty array is valid (e.g., for non-scoring transcriptions)
+    if (!arrayData.length) {
+      console.log('Empty array returned - no scoring updates found');
+      return [];
+    }
 
-      // Return all scoring updates with rawTranscription added
-      const finalData = processedData.map(item => ({
-        ...item,
-        rawTranscription: transcription
-      }));
+    // Post-process to fix sequential scoring patterns if needed
+    const processedData = this.fixSequentialScoring(arrayData, normalizedTranscription);
 
-      return finalData.map(item => ScoringUpdateSchema.parse(item));
-    } catch (error) {
-      console.error('Score parsing error:', error);
-      console.error('Original transcription:', transcription);
+    // Return all scoring updates with rawTranscription added
+    const finalData = processedData.map(item => ({
+      ...item,
+      rawTranscription: transcription
+    }));
 
-      // Return fallback array with one object
-      return [{
-        player: '',
-        action: 'score',
-        rawTranscription: transcription,
-      }];
-    }
+    return finalData.map(item => ScoringUpdateSchema.parse(item));
   }
 
   private fixSequentialScoring(scoringUpdates: any[], transcription: string): any[] {
@@ -0,0 +1,145 @@
+import OpenAI from 'openai';
+import { execFile } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+// Speech to text for the recorded score reports; the rest of the pipeline only sees the text
+export interface TranscriptionProvider {
+  name: string;
+  transcribe(audioBuffer: Buffer, playerNames: string[]): Promise<string>;
+}
+
+export type TranscriptionProviderName = 'openai' | 'whisper-cpp' | 'mock';
+
+const MOCK_TRANSCRIPTION = 'Demo transcription - Player 1 scored a par on hole 1';
+
+// Local transcription gets a minute per recording; the first run also loads the model
+const LOCAL_TIMEOUT_MS = 60000;
+
+function buildPrompt(playerNames: string[]): string {
+  // Include player names in the prompt for better recognition
+  const playerContext = playerNames.length > 0
+    ? ` Players competing: ${playerNames.join(', ')}.`
+    : '';
+
+  return `This is a golf scoring update during live play. The speaker is reporting individual scores for consecutive holes, NOT phone numbers or codes. When hearing multiple scores like "four five three four", transcribe as separate numbers: "4 5 3 4" not "4-5-3-4". Golf context: Players are competing on an 18-hole course with standard par values.${playerContext}`;
+}
+
+// A scratch directory for one recording, removed whatever happens
+async function withTempDir<T>(work: (dir: string) => Promise<T>): Promise<T> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scorechat-audio-'));
+  try {
+    return await work(dir);
+  } finally {
+    try {
+      fs.rmSync(dir, { recursive: true, force: true });
+    } catch (cleanupError) {
+      // Ignore cleanup errors
+    }
+  }
+}
+
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+  name = 'openai';
+
+  constructor(private openai: OpenAI) {}
+
+  async transcribe(audioBuffer: Buffer, playerNames: string[]): Promise<string> {
+    return withTempDir(async dir => {
+      // Write audio buffer to a temporary file for OpenAI API
+      const audioFile = path.join(dir, 'audio.webm');
+      fs.writeFileSync(audioFile, audioBuffer);
+
+      const transcription = await this.openai.audio.transcriptions.create({
+        file: fs.createReadStream(audioFile),
+        model: 'whisper-1',
+        prompt: buildPrompt(playerNames),
+        language: 'en',
+      });
+
+      return transcription.text;
+    });
+  }
+}
+
+// Offline transcription with whisper.cpp: the browser's recording is converted to the 16 kHz mono WAV
+// whisper.cpp reads with ffmpeg, then transcribed by the whisper.cpp command line tool
+export class WhisperCppTranscriptionProvider implements TranscriptionProvider {
+  name = 'whisper-cpp';
+
+  constructor(
+    private modelPath: string,
+    private whisperBin: string = 'whisper-cli',
+    private ffmpegBin: string = 'ffmpeg'
+  ) {}
+
+  async transcribe(audioBuffer: Buffer, playerNames: string[]): Promise<string> {
+    return withTempDir(async dir => {
+      const inputFile = path.join(dir, 'audio.webm');
+      const wavFile = path.join(dir, 'audio.wav');
+      const outputBase = path.join(dir, 'transcription');
+      fs.writeFileSync(inputFile, audioBuffer);
+
+      await execFileAsync(this.ffmpegBin, ['-y', '-i', inputFile, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wavFile], {
+        timeout: LOCAL_TIMEOUT_MS,
+      });
+
+      await execFileAsync(this.whisperBin, [
+        '-m', this.modelPath,
+        '-f', wavFile,
+        '-l', 'en',
+        '--prompt', buildPrompt(playerNames),
+        '-otxt',
+        '-of', outputBase,
+      ], { timeout: LOCAL_TIMEOUT_MS });
+
+      return fs.readFileSync(`${outputBase}.txt`, 'utf8').replace(/\s+/g, ' ').trim();
+    });
+  }
+}
+
+// Returns a fixed text without listening, for demos without an API key and for tests without network access
+export class MockTranscriptionProvider implements TranscriptionProvider {
+  name = 'mock';
+
+  constructor(private text: string = MOCK_TRANSCRIPTION) {}
+
+  async transcribe(): Promise<string> {
+    return this.text;
+  }
+}
+
+// TRANSCRIPTION_PROVIDER picks the backend. Without it OpenAI is used when a client is available and
+// the mock otherwise.
+export function createTranscriptionProvider(openai: OpenAI | null): TranscriptionProvider {
+  const requested = process.env.TRANSCRIPTION_PROVIDER as TranscriptionProviderName | undefined;
+
+  switch (requested) {
+    case 'whisper-cpp': {
+      const modelPath = process.env.WHISPER_CPP_MODEL;
+      if (!modelPath) {
+        console.warn('WHISPER_CPP_MODEL is not set - using mock transcriptions');
+        return new MockTranscriptionProvider(process.env.MOCK_TRANSCRIPTION);
+      }
+      return new WhisperCppTranscriptionProvider(modelPath, process.env.WHISPER_CPP_BIN, process.env.FFMPEG_BIN);
+    }
+    case 'mock':
+      return new MockTranscriptionProvider(process.env.MOCK_TRANSCRIPTION);
+    case 'openai':
+    case undefined:
+      if (openai) {
+        return new OpenAITranscriptionProvider(openai);
+      }
+      if (requested === 'openai') {
+        console.warn('TRANSCRIPTION_PROVIDER is openai but no valid OPENAI_API_KEY is set - using mock transcriptions');
+      }
+      return new MockTranscriptionProvider(process.env.MOCK_TRANSCRIPTION);
+    default:
+      console.warn(`Unknown TRANSCRIPTION_PROVIDER "${requested}" - using mock transcriptions`);
+      return new MockTranscriptionProvider(process.env.MOCK_TRANSCRIPTION);
+  }
+}
@@ -5,11 +5,89 @@ export const PlayerSchema = z.object({
   name: z.string(),
   currentHole: z.number().min(1).max(18),
   handicap: z.number().optional(),
+  teeId: z.string().optional(), // Defaults to the tournament's tee
+  courseHandicap: z.number().optional(),
   receivedStrokes: z.number().optional(),
+  nickname: z.string().optional(),
+  withdrawnAt: z.string().optional(),
+  // Handicap snapshot per round, taken when the round is first scored so later changes don't rescore it
+  roundHandicaps: z.array(z.object({
+    round: z.number().int().min(1),
+    handicap: z.number().optional(),
+    teeId: z.string().optional(),
+    courseRating: z.number().optional(),
+    slopeRating: z.number().optional(),
+    courseHandicap: z.number().optional(),
+    receivedStrokes: z.number(),
+  })).optional(),
+});
+
+// Player as given when creating a tournament, either "Name 12.3" or a structured entry
+export const PlayerInputSchema = z.union([
+  z.string().min(1),
+  z.object({
+    name: z.string().min(1),
+    handicap: z.number().optional(),
+    teeId: z.string().optional(),
+    nickname: z.string().optional(),
+  }),
+]);
+
+export const PlayerUpdateSchema = z.object({
+  name: z.string().min(1).optional(),
+  handicap: z.number().optional(),
+  teeId: z.string().optional(),
+  nickname: z.string().optional(), // Empty string clears the nickname
+  fromRound: z.number().int().min(1).optional(), // Also rescore rounds from this one, even if already played
+});
+
+// Share of course handicap used as playing handicap for a format (WHS allowance)
+export const HandicapAllowanceSchema = z.object({
+  percentage: z.number().min(0).max(100), // Applied to each player's course handicap
+  // One-ball pair formats: percentages of the lower and the higher course handicap, summed into one pair handicap
+  pairPercentages: z.tuple([z.number().min(0).max(100), z.number().min(0).max(100)]).optional(),
+});
+
+// Cap on the hole score used for adjusted gross score (WHS maximum hole score)
+export const MaxHoleScoreSchema = z.object({
+  method: z.enum(['net-double-bogey', 'par-plus']),
+  overPar: z.number().int().min(1).max(10).optional(), // For 'par-plus' (default 3)
+});
+
+export const ScoringBasisSchema = z.enum(['gross', 'net', 'stableford']);
+
+// Tiebreak chain for final results, applied in order until the tie is broken
+export const TiebreakRuleSchema = z.enum(['back-9', 'back-6', 'back-3', 'back-1', 'previous-round']);
+export const TiebreakSchema = z.object({
+  rules: z.array(TiebreakRuleSchema),
+  basis: ScoringBasisSchema.optional(), // Defaults to the basis being ranked
+});
+
+// Which rounds count towards cumulative totals
+export const AggregationSchema = z.object({
+  rule: z.enum(['all', 'best', 'drop-worst', 'rounds']),
+  count: z.number().int().min(1).optional(), // Rounds kept for 'best', dropped for 'drop-worst'
+  rounds: z.array(z.number().int().min(1)).optional(), // For 'rounds'
+  basis: ScoringBasisSchema.optional(), // How rounds are compared for 'best' and 'drop-worst' (default gross)
+}).refine(
+  aggregation => (aggregation.rule !== 'best' && aggregation.rule !== 'drop-worst') || aggregation.count !== undefined,
+  { message: 'count is required for best and drop-worst', path: ['count'] }
+).refine(
+  aggregation => aggregation.rule !== 'rounds' || (aggregation.rounds && aggregation.rounds.length > 0),
+  { message: 'rounds is required for specific rounds', path: ['rounds'] }
+);
+
+export const TournamentSettingsSchema = z.object({
+  autoCreatePlayers: z.boolean().optional(), // Add unknown names from voice input as new players (default true)
+  handicapAllowance: HandicapAllowanceSchema.optional(), // Individual allowance for the leaderboard (default 100%)
+  maxHoleScore: MaxHoleScoreSchema.optional(), // Default net double bogey
+  tiebreak: TiebreakSchema.optional(), // Without a tiebreak, level players share a position
+  aggregation: AggregationSchema.optional(), // Default all rounds
 });
 
 export const ScoreEntrySchema = z.object({
-  playerId: z.string(),
+  playerId: z.string().optional(), // Individual ball
+  sideId: z.string().optional(), // One ball played by a pair (foursomes, greensomes)
   hole: z.number().min(1).max(18),
   round: z.number().min(1),
   strokes: z.number().min(1),
@@ -21,10 +99,31 @@ export const ScoringUpdateSchema = z.object({
   player: z.string(),
   hole: z.number().nullable().optional(),
   strokes: z.number().nullable().optional(),
-  action: z.enum(['birdie', 'eagle', 'par', 'bogey', 'double_bogey', 'score', 'delete']),
+  action: z.enum(['birdie', 'eagle', 'par', 'bogey', 'double_bogey', 'score', 'delete', 'wolf', 'contest']),
+  partner: z.string().nullable().optional(), // Wolf: the partner the wolf (player) takes, null for a lone wolf
+  contest: z.enum(['closest-to-pin', 'longest-drive', 'longest-putt', 'hole-in-one']).nullable().optional(), // Contest: which one the player leads
+  measurement: z.number().nullable().optional(), // Contest: distance in metres
   rawTranscription: z.string(),
 });
 
+// Per-round totals; a round left unfinished after play moved on (or the player withdrew) is a DNF
+const RoundTotalSchema = z.object({
+  round: z.number(),
+  status: z.enum(['not-started', 'in-progress', 'complete', 'dnf']),
+  holesCompleted: z.number(),
+  grossStrokes: z.number(),
+  grossToPar: z.number(),
+  netToPar: z.number(),
+  stablefordPoints: z.number(),
+  stablefordVsPar: z.number(),
+  counted: z.boolean(), // Included in the totals under the tournament's aggregation rule
+});
+
+const LeaderboardRankingSchema = z.object({
+  position: z.number(), // Shared by tied players
+  label: z.string(), // "T3" when tied
+});
+
 export const LeaderboardEntrySchema = z.object({
   playerId: z.string(),
   playerName: z.string(),
@@ -32,23 +131,207 @@ export const LeaderboardEntrySchema = z.object({
   holesCompleted: z.number(),
   currentScore: z.number(),
   position: z.number(),
+  positionLabel: z.string().optional(),
+  rankings: z.object({
+    gross: LeaderboardRankingSchema,
+    net: LeaderboardRankingSchema,
+    stableford: LeaderboardRankingSchema,
+  }).optional(),
   holeScores: z.array(z.number().nullable()).optional(),
   holePars: z.array(z.number()).optional(),
   stablefordPoints: z.array(z.number().nullable()).optional(),
   totalStablefordPoints: z.number().optional(),
   averageStablefordPoints: z.number().optional(),
   stablefordVsPar: z.number().optional(),
+  // Net stroke play: strokes minus handicap strokes received on the hole, relative to par
+  netScores: z.array(z.number().nullable()).optional(),
+  netScore: z.number().optional(), // Display round
+  totalNetScore: z.number().optional(), // All rounds
+  withdrawn: z.boolean().optional(),
   handicap: z.number().optional(),
   receivedStrokes: z.number().optional(),
+  tee: z.string().optional(),
   // Multi-round support
   roundScores: z.array(z.object({
     round: z.number(),
     holeScores: z.array(z.number().nullable()),
     stablefordPoints: z.array(z.number().nullable()),
+    netScores: z.array(z.number().nullable()),
     roundStrokes: z.number(),
     roundStablefordPoints: z.number(),
+    roundNetScore: z.number(),
   })).optional(),
   totalRounds: z.number().optional(),
+  // Cumulative totals over the counted rounds, summed over the holes played
+  totals: RoundTotalSchema.omit({ round: true, status: true, counted: true }).extend({
+    rounds: z.array(RoundTotalSchema),
+  }).optional(),
+});
+
+export const MatchPlayInputSchema = z.object({
+  playerIds: z.tuple([z.string(), z.string()]).refine(([a, b]) => a !== b, 'A player cannot play themselves'),
+  scoring: z.enum(['net', 'gross']).default('net'),
+  handicapAllowance: HandicapAllowanceSchema.optional(), // Default 100% of the difference
+});
+
+export const MatchPlayConcessionSchema = z.object({
+  playerId: z.string(), // Player conceding
+  hole: z.number().int().min(1).max(18).optional(), // Without a hole the whole match is conceded
+});
+
+// A team for the whole tournament, or for one round when the round is given
+export const TeamInputSchema = z.object({
+  name: z.string().min(1),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Colors are #rrggbb'),
+  playerIds: z.array(z.string()).default([]), // Players move here from other teams of the same tournament or round
+  round: z.number().int().min(1).optional(),
+});
+
+export const TeamUpdateSchema = TeamInputSchema.omit({ round: true }).partial();
+
+export const TeamMoveSchema = z.object({
+  playerId: z.string(),
+  teamId: z.string().nullable(), // null leaves the player without a team
+  round: z.number().int().min(1).optional(), // Which teams to leave when teamId is null
+});
+
+// Draws repeat for the same seed, so a preview can be committed unchanged
+export const TeamDrawSchema = z.object({
+  seed: z.number().int().min(0).optional(), // Random when left out; the draw returns the seed it used
+  teamCount: z.number().int().min(2).max(6).optional(), // Defaults to the current number of teams, or 2
+  round: z.number().int().min(1).optional(), // Draw the round's own teams instead of the tournament's
+  commit: z.boolean().default(false),
+});
+
+export const GroupingDrawSchema = z.object({
+  seed: z.number().int().min(0).optional(),
+  groupSize: z.number().int().min(2).max(4).default(4),
+});
+
+// Two players playing together in a pairs sidegame
+export const SidegamePairSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().optional(),
+  playerIds: z.tuple([z.string(), z.string()]).refine(([a, b]) => a !== b, 'A pair needs two different players'),
+  teamId: z.string().optional(), // Defaults to the first player's team
+});
+
+export const SideScoreSchema = z.object({
+  sideId: z.string(),
+  hole: z.number().int().min(1).max(18),
+  strokes: z.number().int().min(1).nullable(), // null deletes the score
+});
+
+export const SkinsSettingsSchema = z.object({
+  basis: z.enum(['gross', 'net']).default('gross'),
+  ties: z.enum(['carry', 'split', 'void']).default('carry'), // Tied holes carry the skin over, share it or lose it
+  validation: z.boolean().default(false), // A skin only counts if the winner makes par or better on the next hole, net under net skins
+  playerIds: z.array(z.string()).min(2).refine(ids => new Set(ids).size === ids.length, 'Skins players must be different').optional(), // Everyone still playing when left out
+});
+
+// Each hole compares the teams' scores: the sole best team wins the hole and the sole worst loses it, while
+// teams sharing the best or the worst score, or every team when all are level, get the tie points
+export const SumMatchSettingsSchema = z.object({
+  basis: z.enum(['gross', 'net', 'stableford']).default('gross'), // Strokes to par, net strokes to par or Stableford points (higher is better)
+  points: z.object({
+    win: z.number().default(1),
+    loss: z.number().default(-1),
+    tie: z.number().default(0),
+  }).default({}),
+  bestScores: z.number().int().min(1).optional(), // Only each team's best N scores on a hole count; every score when unset
+  normalize: z.boolean().default(false), // Scale team scores to the same number of players when teams differ in size
+});
+
+// Front nine, back nine and overall bets between two players, or two pairs playing best ball
+export const NassauSettingsSchema = z.object({
+  playerIds: z.tuple([z.string(), z.string()]).refine(([a, b]) => a !== b, 'A Nassau needs two different players').optional(), // Individual; pairs use the sidegame pairs
+  basis: z.enum(['gross', 'net']).default('net'),
+  stake: z.number().positive().default(1), // Per bet and player: each winning player collects it from an opponent
+  presses: z.object({
+    enabled: z.boolean().default(true),
+    trigger: z.number().int().min(1).max(8).default(2), // Holes down that start an automatic press
+    onPresses: z.boolean().default(true), // A press that goes down the trigger opens another press
+    overall: z.boolean().default(false), // Press the 18-hole bet as well as the nines
+    maxPresses: z.number().int().min(0).optional(), // Per front, back and overall bet
+  }).default({}),
+});
+
+// Four players in hole 1 tee order; the order rotates by one each hole and the last to tee off is the wolf
+export const WolfSettingsSchema = z.object({
+  playerIds: z.array(z.string()).length(4).refine(ids => new Set(ids).size === 4, 'Wolf needs four different players'),
+  basis: z.enum(['gross', 'net']).default('net'),
+  points: z.object({
+    team: z.number().default(1), // Each player on the winning side of a 2 v 2 hole
+    loneWolfWin: z.number().default(4), // Lone wolf beating all three
+    loneWolfLoss: z.number().default(1), // Each opponent when the lone wolf loses
+  }).default({}),
+});
+
+export const WolfChoiceSchema = z.object({
+  hole: z.number().int().min(1).max(18),
+  partnerId: z.string().nullable(), // null: lone wolf
+});
+
+export const ContestTypeSchema = z.enum(['closest-to-pin', 'longest-drive', 'longest-putt', 'hole-in-one']);
+
+export const ContestInputSchema = z.object({
+  type: ContestTypeSchema,
+  hole: z.number().int().min(1).max(18).optional(), // Required except for a hole-in-one pot, which then covers every hole
+  name: z.string().optional(),
+  prize: z.number().positive().optional(), // Paid by every other player to the winner; each player's pot share for a hole-in-one
+}).refine(input => input.type === 'hole-in-one' || input.hole !== undefined, 'Contests need a hole');
+
+export const ContestResultSchema = z.object({
+  playerId: z.string(),
+  measurement: z.number().positive().nullable().optional(), // Metres; without one the latest result leads
+});
+
+// Team competition points a round's team sidegame awards per match: each pair match in match play,
+// otherwise each head-to-head between two teams on the sidegame's points
+export const SessionPointsSchema = z.object({
+  win: z.number().min(0).default(1),
+  halve: z.number().min(0).default(0.5),
+});
+
+export const StakeSchema = z.object({
+  stake: z.number().positive().nullable(), // null removes the stake
+});
+
+export const CourseHoleSchema = z.object({
+  number: z.number().int().min(1).max(18),
+  par: z.number().int().min(3).max(5),
+  strokeIndex: z.number().int().min(1).max(18),
+});
+
+export const TeeSetSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  courseRating: z.number().min(50).max(90),
+  slopeRating: z.number().min(55).max(155),
+  par: z.number().int().positive().optional(), // Total par from this tee when it differs from the hole pars
+});
+
+// Payload accepted when creating or updating a course; tee ids are generated when omitted
+export const CourseInputSchema = z.object({
+  name: z.string().min(1),
+  holes: z.array(CourseHoleSchema).length(18),
+  tees: z.array(TeeSetSchema.extend({ id: z.string().optional() })).min(1),
+}).refine(
+  course => new Set(course.holes.map(h => h.number)).size === 18,
+  { message: 'Hole numbers must be 1-18 without duplicates', path: ['holes'] }
+).refine(
+  course => new Set(course.holes.map(h => h.strokeIndex)).size === 18,
+  { message: 'Stroke indexes must be 1-18 without duplicates', path: ['holes'] }
+);
+
+export const TournamentInputSchema = z.object({
+  name: z.string().min(1),
+  courseId: z.string(),
+  teeId: z.string().optional(),
+  players: z.array(PlayerInputSchema),
+  totalRounds: z.number().int().min(1).default(1),
+  activate: z.boolean().optional(), // Make the new tournament the active one
+  seedTeams: z.boolean().optional(), // Start with the teams in teams-config.json
 });
 
 export const AudioChunkSchema = z.object({
@@ -58,39 +341,155 @@ export const AudioChunkSchema = z.object({
 });
 
 export type Player = z.infer<typeof PlayerSchema>;
+export type PlayerInput = z.infer<typeof PlayerInputSchema>;
+export type PlayerUpdate = z.infer<typeof PlayerUpdateSchema>;
+export type RoundHandicap = NonNullable<Player['roundHandicaps']>[number];
+export type HandicapAllowance = z.infer<typeof HandicapAllowanceSchema>;
+export type MaxHoleScore = z.infer<typeof MaxHoleScoreSchema>;
+export type ScoringBasis = z.infer<typeof ScoringBasisSchema>;
+export type TiebreakRule = z.infer<typeof TiebreakRuleSchema>;
+export type Aggregation = z.infer<typeof AggregationSchema>;
+export type Tiebreak = z.infer<typeof TiebreakSchema>;
+export type TournamentSettings = z.infer<typeof TournamentSettingsSchema>;
 export type ScoreEntry = z.infer<typeof ScoreEntrySchema>;
 export type ScoringUpdate = z.infer<typeof ScoringUpdateSchema>;
 export type LeaderboardEntry = z.infer<typeof LeaderboardEntrySchema>;
+export type LeaderboardTotals = NonNullable<LeaderboardEntry['totals']>;
+export type RoundTotal = LeaderboardTotals['rounds'][number];
+export type LeaderboardView = 'round' | 'cumulative';
 export type AudioChunk = z.infer<typeof AudioChunkSchema>;
+export type CourseHole = z.infer<typeof CourseHoleSchema>;
+export type TeeSet = z.infer<typeof TeeSetSchema>;
+export type CourseInput = z.infer<typeof CourseInputSchema>;
+export type TournamentInput = z.infer<typeof TournamentInputSchema>;
+export type MatchPlayInput = z.infer<typeof MatchPlayInputSchema>;
+export type TeamInput = z.infer<typeof TeamInputSchema>;
+export type TeamUpdate = z.infer<typeof TeamUpdateSchema>;
+export type TeamDrawInput = z.infer<typeof TeamDrawSchema>;
+export type GroupingDrawInput = z.infer<typeof GroupingDrawSchema>;
+export type SidegamePairInput = z.infer<typeof SidegamePairSchema>;
+export type SideScore = z.infer<typeof SideScoreSchema>;
+export type SkinsSettings = z.infer<typeof SkinsSettingsSchema>;
+export type SumMatchSettings = z.infer<typeof SumMatchSettingsSchema>;
+export type NassauSettings = z.infer<typeof NassauSettingsSchema>;
+export type WolfSettings = z.infer<typeof WolfSettingsSchema>;
+export type WolfChoiceInput = z.infer<typeof WolfChoiceSchema>;
+export type SessionPoints = z.infer<typeof SessionPointsSchema>;
+export type ContestType = z.infer<typeof ContestTypeSchema>;
+export type ContestInput = z.infer<typeof ContestInputSchema>;
+export type ContestResultInput = z.infer<typeof ContestResultSchema>;
+export type MatchPlayConcession = z.infer<typeof MatchPlayConcessionSchema>;
+
+export interface Course {
+  id: string;
+  name: string;
+  holes: CourseHole[]; // Ordered by hole number
+  tees: TeeSet[];
+  createdAt: string;
+  updatedAt?: string;
+}
 
 export interface Tournament {
   id: string;
   name: string;
+  courseId?: string;
   course: string;
+  teeId?: string; // Base tee that courseRating, slopeRating and par refer to
+  tees: TeeSet[];
   courseRating: number;
   slopeRating: number;
+  // Per-hole data copied from the course when the tournament is created
   par: number[];
+  strokeIndex: number[];
   players: Player[];
   scores: ScoreEntry[];
   createdAt: string;
   totalRounds: number;
   currentRound: number;
+  settings?: TournamentSettings;
+  archivedAt?: string;
+}
+
+export interface TournamentSummary {
+  id: string;
+  name: string;
+  course: string;
+  playerCount: number;
+  totalRounds: number;
+  currentRound: number;
+  createdAt: string;
+  archivedAt?: string;
+  active: boolean;
 }
 
 export interface Team {
   id: string;
+  tournamentId: string;
+  round?: number; // Round teams replace the tournament's teams for that round
   name: string;
   color: string;
-  players: string[];
+  playerIds: string[];
+  createdAt: string;
+}
+
+export interface DrawnTeam {
+  name: string;
+  color: string;
+  playerIds: string[];
+  handicapTotal: number; // Playing handicaps for the round
+  handicapAverage: number;
+}
+
+export interface TeamDraw {
+  tournamentId: string;
+  round?: number;
+  seed: number;
+  teams: DrawnTeam[];
+  spread: number; // Highest minus lowest team average handicap
+  committed: boolean;
+}
+
+export interface DrawnGroup {
+  playerIds: string[];
+  playerNames: string[];
+}
+
+export interface GroupingDraw {
+  tournamentId: string;
+  round: number;
+  seed: number;
+  groups: DrawnGroup[];
+  groupings: string[][]; // Player ids, as all-vs-all sidegames take them
+  repeatPairings: number; // Pairs of players already grouped together in another round
+  teammatePairings: number; // Pairs of teammates, who don't play each other in all-vs-all
+}
+
+// Four-ball: best net ball of a pair; foursomes and greensomes: one ball per pair
+export type SidegameType = 'all-vs-all' | 'sum-match' | 'four-ball' | 'foursomes' | 'greensomes' | 'skins' | 'nassau' | 'wolf';
+
+export interface SidegamePair {
+  id: string;
+  name: string;
+  playerIds: [string, string];
+  teamId?: string;
 }
 
 export interface TeamSidegame {
   id: string;
   tournamentId: string;
   round: number;
-  gameType: 'all-vs-all' | 'sum-match';
-  teams: Team[];
-  groupings?: string[][]; // For all-vs-all groupings
+  gameType: SidegameType;
+  groupings?: string[][]; // For all-vs-all groupings, by player id
+  handicapAllowance?: HandicapAllowance; // Defaults to the tournament's allowance, or the format's for pairs
+  pairs?: SidegamePair[]; // For pairs formats
+  pairsMode?: 'stroke' | 'match'; // Pairs formats: stroke play, or match play between consecutive pairs (1 v 2, 3 v 4)
+  sumMatch?: SumMatchSettings; // For sum-match; gross strokes to par, +1 and -1 when unset
+  skins?: SkinsSettings; // For skins
+  nassau?: NassauSettings; // For Nassau
+  wolf?: WolfSettings; // For Wolf
+  wolfChoices?: WolfChoice[];
+  stake?: number; // Money per point, skin or Nassau bet; posted to the ledger when set
+  sessionPoints?: SessionPoints; // Team competition points per match; 1 for a win and ½ for a halve by default
   matches: TeamMatch[];
   createdAt: string;
 }
@@ -99,13 +498,168 @@ export interface TeamMatch {
   id: string;
   sidegameId: string;
   hole: number;
-  gameType: 'all-vs-all' | 'sum-match';
-  participants: string[]; // Player names
+  gameType: SidegameType;
+  participants: string[]; // Player ids
   teamPoints: { [teamId: string]: number };
-  holeResults: { [playerName: string]: number }; // Stableford points for the hole
+  holeResults: { [playerId: string]: number }; // The hole's result per player: Stableford points, or strokes to par in sum-match
+  timestamp: string;
+}
+
+export interface PairLeaderboardEntry {
+  pairId: string;
+  pairName: string;
+  playerNames: string[];
+  teamId?: string;
+  playingHandicap: number; // Pair handicap for one-ball formats, lowest player handicap for four-ball
+  holeScores: (number | null)[]; // Net score of the pair's counting ball per hole
+  holesCompleted: number;
+  netToPar: number;
+  position: number;
+  match?: { opponentPairId: string; result: string; lead: number; leaderPairId: string | null; complete: boolean };
+}
+
+export interface SkinsHole {
+  hole: number;
+  value: number; // Skins at stake, including carryovers
+  status: 'pending' | 'won' | 'carried' | 'split' | 'void';
+  winnerIds: string[]; // One winner, or the players sharing a split skin
+  scores: { [playerId: string]: number }; // Gross or net strokes, by the game's basis
+}
+
+export interface SkinsResult {
+  sidegameId: string;
+  holes: SkinsHole[];
+  players: { playerId: string; playerName: string; skins: number }[]; // Most skins first
+  carryover: number; // Skins still carried after the last decided hole
+}
+
+export interface NassauSide {
+  id: string; // Player id, or pair id when playing pairs
+  name: string;
+  playerIds: string[];
+}
+
+export interface NassauHole {
+  hole: number;
+  scores: { [sideId: string]: number | null }; // Gross or net strokes of each side's counting ball
+  winnerSideId: string | null;
+  played: boolean;
+}
+
+export interface NassauBet {
+  id: string;
+  name: string; // "Front 9", "Back 9", "Overall", "Front 9 press 1"
+  type: 'front' | 'back' | 'overall' | 'press';
+  parentId?: string; // Bet that was pressed
+  startHole: number;
+  endHole: number;
+  holesPlayed: number;
+  lead: number;
+  leaderSideId: string | null;
+  result: string;
+  complete: boolean;
+  winnerSideId: string | null; // Set once complete; null for a halved bet
+}
+
+export interface NassauPlayerSettlement {
+  playerId: string;
+  playerName: string;
+  sideId: string;
+  betsWon: number;
+  betsLost: number;
+  amount: number; // Settled from completed bets
+  projected: number; // If every open bet finished as it stands
+}
+
+export interface NassauResult {
+  sidegameId: string;
+  sides: NassauSide[];
+  stake: number;
+  holes: NassauHole[];
+  bets: NassauBet[];
+  settlement: NassauPlayerSettlement[];
+}
+
+export interface WolfChoice {
+  hole: number;
+  wolfId: string;
+  partnerId: string | null; // null: lone wolf
+  rawTranscription?: string;
   timestamp: string;
 }
 
+export interface WolfHole {
+  hole: number;
+  teeOrder: string[]; // Player ids, the wolf last
+  wolfId: string;
+  partnerId?: string | null; // Undefined until the wolf has chosen
+  status: 'pending' | 'won' | 'halved';
+  winnerIds: string[];
+  points: { [playerId: string]: number };
+  scores: { [playerId: string]: number }; // Gross or net strokes, by the game's basis
+}
+
+export interface WolfResult {
+  sidegameId: string;
+  holes: WolfHole[];
+  players: { playerId: string; playerName: string; points: number }[]; // Most points first
+}
+
+export interface ContestResult {
+  playerId: string;
+  playerName: string;
+  measurement?: number; // Metres
+  rawTranscription?: string;
+  timestamp: string;
+}
+
+export interface Contest {
+  id: string;
+  tournamentId: string;
+  round: number;
+  hole?: number; // A hole-in-one pot without a hole covers the whole round
+  type: ContestType;
+  name: string;
+  prize?: number;
+  results: ContestResult[]; // One per player, the latest kept
+  createdAt: string;
+}
+
+export interface ContestStatus extends Contest {
+  winnerIds: string[]; // Hole-in-one pots can be shared
+  winnerNames: string[];
+  winningMeasurement?: number;
+  pot: number; // Prize money at stake
+}
+
+export interface LedgerEntry {
+  id: string;
+  tournamentId: string;
+  source: 'sidegame' | 'contest';
+  sourceId: string;
+  round: number;
+  playerId: string;
+  playerName: string;
+  amount: number; // Positive when the player collects
+  description: string;
+  createdAt: string;
+}
+
+export interface SettlementTransfer {
+  fromPlayerId: string;
+  fromPlayerName: string;
+  toPlayerId: string;
+  toPlayerName: string;
+  amount: number;
+}
+
+export interface Settlement {
+  tournamentId: string;
+  balances: { playerId: string; playerName: string; balance: number }[]; // Highest balance first
+  transfers: SettlementTransfer[];
+  entries: LedgerEntry[];
+}
+
 export interface TeamLeaderboardEntry {
   teamId: string;
   teamName: string;
@@ -115,8 +669,81 @@ export interface TeamLeaderboardEntry {
   position: number;
 }
 
+export interface TeamSessionMatch {
+  name: string;
+  teamIds: [string, string];
+  winnerTeamId: string | null; // null when halved, or level while in progress
+  result: string; // "3&2", "AS", or the teams' sidegame points "12 - 9"
+  complete: boolean;
+}
+
+// One round's team sidegame as a session of the team competition
+export interface TeamSession {
+  round: number;
+  sidegameId: string;
+  gameType: SidegameType;
+  points: SessionPoints;
+  complete: boolean;
+  matches: TeamSessionMatch[];
+  teamPoints: { [teamId: string]: number }; // From decided matches
+  projectedPoints: { [teamId: string]: number }; // As if every match finished as it stands
+}
+
+export interface TeamStanding {
+  teamId: string;
+  teamName: string;
+  teamColor: string;
+  points: number;
+  projectedPoints: number;
+  sessionsWon: number;
+  roundPoints: { [round: number]: number };
+  position: number;
+}
+
+export interface TeamStandings {
+  tournamentId: string;
+  standings: TeamStanding[];
+  sessions: TeamSession[];
+  pointsAvailable: number;
+  pointsPlayed: number;
+}
+
+export interface MatchPlayMatch {
+  id: string;
+  tournamentId: string;
+  round: number;
+  playerIds: [string, string];
+  scoring: 'net' | 'gross';
+  handicapAllowance?: HandicapAllowance;
+  holeConcessions: { hole: number; playerId: string }[]; // Player who conceded the hole
+  concededBy?: string; // Player who conceded the match
+  createdAt: string;
+}
+
+export interface MatchPlayHoleResult {
+  hole: number;
+  strokes: { [playerId: string]: number | null };
+  strokesReceived: { [playerId: string]: number }; // Handicap strokes on this hole
+  winnerId: string | null; // null when halved
+  conceded: boolean;
+}
+
+export interface MatchPlayStatus {
+  matchId: string;
+  round: number;
+  players: { id: string; name: string; playingHandicap: number }[];
+  holes: MatchPlayHoleResult[]; // Decided holes, in hole order
+  holesPlayed: number;
+  holesRemaining: number;
+  leaderId: string | null;
+  lead: number;
+  state: 'not-started' | 'in-progress' | 'dormie' | 'complete';
+  winnerId: string | null; // Set once complete; null for a halved match
+  result: string; // "2 UP thru 11", "AS thru 4", "Dormie 2 UP", "3&2", "Halved"
+}
+
 export interface WebSocketMessage {
-  type: 'audio_chunk' | 'scoring_update' | 'leaderboard_update' | 'transcription' | 'score_verification_data' | 'team_match_update' | 'team_leaderboard_update';
+  type: 'audio_chunk' | 'scoring_update' | 'leaderboard_update' | 'transcription' | 'score_verification_data' | 'team_match_update' | 'team_leaderboard_update' | 'active_tournament_changed' | 'match_play_update' | 'contest_update' | 'teams_update';
   data: any;
   timestamp: number;
 }
\ No newline at end of file